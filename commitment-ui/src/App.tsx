@@ -1,14 +1,38 @@
-import React from 'react'
-import { Typography, Container, } from '@mui/material'
+import React, { useEffect, useState } from 'react'
+import { Typography, Container, Tabs, Tab } from '@mui/material'
 import CommitmentForm from './components/CommitmentForm'
+import CommitmentList from './components/CommitmentList'
+import SettingsPanel from './components/SettingsPanel'
+
+// Pages are addressed by the URL hash, so they can be bookmarked without server-side routing
+const ROUTES = ['#/', '#/commitments', '#/settings'] as const
+type Route = typeof ROUTES[number]
+
+const currentRoute = (): Route => {
+  const hash = window.location.hash
+  return (ROUTES as readonly string[]).includes(hash) ? hash as Route : '#/'
+}
 
 const App: React.FC = () => {
+  const [route, setRoute] = useState<Route>(currentRoute())
+
+  useEffect(() => {
+    const onHashChange = () => setRoute(currentRoute())
+    window.addEventListener('hashchange', onHashChange)
+    return () => window.removeEventListener('hashchange', onHashChange)
+  }, [])
+
   return (
-    <Container maxWidth="sm" style={{ marginTop: '1em' }}>
+    <Container maxWidth={route === '#/commitments' ? 'lg' : 'sm'} style={{ marginTop: '1em' }}>
       <Typography variant="h4" component="h1" gutterBottom>
         iCommit
       </Typography>
-      <CommitmentForm />
+      <Tabs value={route} onChange={(_: React.SyntheticEvent, value: Route) => { window.location.hash = value }}>
+        <Tab label="New Commitment" value="#/" />
+        <Tab label="My Commitments" value="#/commitments" />
+        <Tab label="Settings" value="#/settings" />
+      </Tabs>
+      {route === '#/commitments' ? <CommitmentList /> : route === '#/settings' ? <SettingsPanel /> : <CommitmentForm />}
     </Container>
   )
 }
@@ -1,119 +1,183 @@
-import { PublicKey, Hash, Signature } from '@bsv/sdk';
+import { PublicKey, Signature } from '@bsv/sdk';
 import { isValidURL } from './utils/utils'; // Helper function for URL validation
+import { // Shared with the overlay topic manager
+  COMMITMENT_FIELDS, CommitmentField, CommitmentTerms, HostBindingError, Logger, PushDropDecodeError, UHRP_PROTOCOL_ADDRESS,
+  checkHostBinding, decodeCommitmentTerms, decodePushDrop, getCommitmentLayout, silentLogger,
+} from 'uhrp-topic-manager';
+
+// Why a storage commitment token was rejected
+export enum CommitmentErrorCode {
+  MALFORMED_SCRIPT = 'MALFORMED_SCRIPT',
+  INVALID_PROTOCOL = 'INVALID_PROTOCOL',
+  BAD_HASH = 'BAD_HASH',
+  BAD_OPERATION = 'BAD_OPERATION',
+  BAD_URL = 'BAD_URL',
+  EXPIRED = 'EXPIRED',
+  BAD_SIZE = 'BAD_SIZE',
+  BAD_TERMS = 'BAD_TERMS',
+  HOST_MISMATCH = 'HOST_MISMATCH',
+  BAD_SIGNATURE = 'BAD_SIGNATURE',
+}
+
+// The contents of a storage commitment token that passed validation
+export interface DecodedCommitment {
+  hash: string; // Hex-encoded SHA-256 hash of the file
+  url: string; // Where the file is hosted
+  expiryTime: number; // Unix timestamp, in seconds, when hosting ends
+  fileSize: number; // Size of the file in bytes
+  host: string; // Address or identity key of the host making the commitment, as committed
+  terms?: CommitmentTerms; // Hosting terms offered to downloaders, when the commitment carries them
+}
 
-const UHRP_PROTOCOL_ADDRESS = '1UHRPYnMHPuQ5Tgb3AF8JXqwKkmZVy5hG';
+export type CommitmentValidationResult =
+  | { valid: true; commitment: DecodedCommitment }
+  | { valid: false; code: CommitmentErrorCode; details: string };
 
 export class TopicManager {
-  // Decodes and validates the storage commitment token
-  public static evaluateCommitment(outputScript: Buffer, pubKey: PublicKey): boolean {
+  // Decodes and validates the storage commitment token, reporting why it was rejected
+  // The signature is checked against the key locking the token, which the host field must identify
+  public static validateCommitment(outputScript: Buffer, logger: Logger = silentLogger): CommitmentValidationResult {
+    logger.debug('Starting commitment evaluation');
+
+    // Step 1: Decode the output script
+    let fields: Buffer[];
+    let signatureBuffer: Buffer;
+    let pubKey: PublicKey;
     try {
-      console.log('Starting commitment evaluation...');
+      ({ fields, signatureBuffer, pubKey } = this.decodeOutputScript(outputScript, logger));
+    } catch (error) {
+      const details = error instanceof PushDropDecodeError ? `${error.code}: ${error.message}` : String(error);
+      return this.reject(logger, CommitmentErrorCode.MALFORMED_SCRIPT, details);
+    }
+    logger.debug('Decoded fields', { count: fields.length });
+    // The base fields, optionally followed by the versioned hosting terms
+    let layout: CommitmentField[];
+    try {
+      layout = getCommitmentLayout(fields.length);
+    } catch (error) {
+      return this.reject(logger, CommitmentErrorCode.MALFORMED_SCRIPT, error instanceof Error ? error.message : String(error));
+    }
+    // Fields are found by name in the shared layout, rather than by positions repeated here
+    const field = (name: string): Buffer => fields[layout.findIndex(f => f.name === name)];
 
-      // Step 1: Decode the output script
-      const fields = this.decodeOutputScript(outputScript);
-      console.log('Decoded Fields:', fields);
+    // Step 2: Validate the fields
+    const protocolAddress = field('protocolAddress').toString('utf8');
+    if (protocolAddress !== UHRP_PROTOCOL_ADDRESS) {
+      return this.reject(logger, CommitmentErrorCode.INVALID_PROTOCOL, `Invalid UHRP protocol address: ${protocolAddress}`);
+    }
 
-      console.log('Validate the fields');
+    const hash = field('hash').toString('hex');
+    logger.debug('Extracted hash', { hash });
+    if (!this.isValidSHA256(hash, logger)) {
+      return this.reject(logger, CommitmentErrorCode.BAD_HASH, `Invalid SHA256 hash: ${hash}`);
+    }
 
-      // Step 2: Validate the fields
-      if (fields[0].toString('utf8') !== UHRP_PROTOCOL_ADDRESS) {
-        console.log('Invalid UHRP Protocol Address:', fields[0].toString('utf8'));
-        throw new Error('Invalid UHRP protocol address.');
-      }
+    // Revocations can only be judged together with the token they spend, which the overlay topic manager does
+    const operation = field('operation').toString('utf8');
+    logger.debug('Operation', { operation });
+    if (operation !== 'advertise') {
+      return this.reject(logger, CommitmentErrorCode.BAD_OPERATION, `Not an advertisement: ${operation}`);
+    }
 
-      const hash = fields[2].toString('hex');
-      console.log('Extracted Hash:', hash);
-      if (!this.isValidSHA256(hash)) {
-        console.log('Invalid SHA256 Hash:', hash);
-        throw new Error('Invalid SHA256 hash.');
-      }
+    const url = field('url').toString('utf8');
+    logger.debug('Extracted URL', { url });
+    if (!isValidURL(url)) {
+      return this.reject(logger, CommitmentErrorCode.BAD_URL, `Invalid URL: ${url}`);
+    }
 
-      const url = fields[4].toString('utf8');
-      console.log('Extracted URL:', url);
-      if (!isValidURL(url)) {
-        console.log('Invalid URL:', url);
-        throw new Error('Invalid URL.');
-      }
+    const expiryTime = parseInt(field('expiryTime').toString('utf8'), 10);
+    const currentTime = Math.floor(Date.now() / 1000);
+    logger.debug('Expiry time', { expiryTime, currentTime });
+    if (isNaN(expiryTime) || expiryTime <= currentTime) {
+      return this.reject(logger, CommitmentErrorCode.EXPIRED, `Invalid or expired timestamp: ${field('expiryTime').toString('utf8')} is not after ${currentTime}`);
+    }
 
-      const expiryTime = parseInt(fields[5].toString('utf8'), 10);
-      const currentTime = Math.floor(Date.now() / 1000);
-      console.log('Expiry Time:', expiryTime, 'Current Time:', currentTime);
-      if (expiryTime <= currentTime) {
-        console.log('Timestamp expired:', expiryTime, 'is less than or equal to', currentTime);
-        throw new Error('Invalid or expired timestamp.');
-      }
+    const fileSize = parseInt(field('contentLength').toString('utf8'), 10);
+    logger.debug('File size', { fileSize });
+    if (isNaN(fileSize) || fileSize <= 0) {
+      return this.reject(logger, CommitmentErrorCode.BAD_SIZE, `Invalid file size: ${field('contentLength').toString('utf8')}`);
+    }
 
-      const fileSize = parseInt(fields[6].toString('utf8'), 10);
-      console.log('File Size:', fileSize);
-      if (fileSize <= 0) {
-        console.log('Invalid File Size:', fileSize);
-        throw new Error('Invalid file size.');
+    // The hosting terms are checked by the same rules the overlay topic manager applies
+    const rawFields = fields.map(field => Array.from(field));
+    if (layout.length > COMMITMENT_FIELDS.length) {
+      try {
+        layout.slice(COMMITMENT_FIELDS.length).forEach((term, i) => term.check(rawFields[COMMITMENT_FIELDS.length + i], rawFields, currentTime));
+      } catch (error) {
+        return this.reject(logger, CommitmentErrorCode.BAD_TERMS, error instanceof Error ? error.message : String(error));
       }
+    }
 
-      // Step 3: Verify the signature
-      const signatureBuffer = fields[7];
-      console.log('Signature Buffer:', signatureBuffer);
-
-      const message = Buffer.concat(fields.slice(0, 7));
-      console.log('Message to Verify (Concatenated Fields):', message);
+    // Step 3: Check that the host field names the locking key, so no one can advertise on behalf of another host
+    try {
+      checkHostBinding(Array.from(field('hostAddress')), pubKey);
+    } catch (error) {
+      if (!(error instanceof HostBindingError)) throw error;
+      return this.reject(logger, CommitmentErrorCode.HOST_MISMATCH, error.message);
+    }
 
-      // Hash the message using Hash.sha256
-      const sha256Message = Hash.sha256(Array.from(message)); // Convert message to number[] and hash it
-      console.log('Hashed Message (SHA-256):', sha256Message);
+    // Step 4: Verify the signature
+    const message = Buffer.concat(fields);
 
+    let isSignatureValid: boolean;
+    try {
       // Convert the signature buffer to a Signature object by converting the buffer to an array
-      const signature = Signature.fromDER(Array.from(signatureBuffer)); // Convert buffer to number[] and create Signature
-      console.log('Converted Signature (from DER):', signature);
+      const signature = Signature.fromDER(Array.from(signatureBuffer));
 
-      // Verify the signature using the PublicKey
-      const isSignatureValid = pubKey.verify(sha256Message, signature);
-      console.log('Signature Validity:', isSignatureValid);
+      // Verify the signature using the PublicKey, which hashes the message with SHA-256 as PushDrop does when signing
+      isSignatureValid = pubKey.verify(Array.from(message), signature);
+    } catch (error) {
+      return this.reject(logger, CommitmentErrorCode.BAD_SIGNATURE, `Malformed signature: ${error instanceof Error ? error.message : error}`);
+    }
+    logger.debug('Signature validity', { isSignatureValid });
+    if (!isSignatureValid) {
+      return this.reject(logger, CommitmentErrorCode.BAD_SIGNATURE, 'The signature does not match the commitment fields.');
+    }
 
-      if (!isSignatureValid) {
-        console.log('Signature Failed Verification:', signature);
-        throw new Error('Invalid signature.');
-      }
+    logger.info('Commitment is valid', { hash, url, expiryTime });
+    return {
+      valid: true,
+      commitment: {
+        hash,
+        url,
+        expiryTime,
+        fileSize,
+        host: field('hostAddress').toString('utf8'),
+        terms: decodeCommitmentTerms(rawFields),
+      },
+    };
+  }
 
-      console.log('Commitment is valid');
-      return true;
+  // Decodes and validates the storage commitment token
+  public static evaluateCommitment(outputScript: Buffer, logger: Logger = silentLogger): boolean {
+    return this.validateCommitment(outputScript, logger).valid;
+  }
 
-    } catch (error) {
-      if (error instanceof Error) {
-        console.log('Commitment evaluation failed:', error.message);
-        console.error('Commitment evaluation failed:', error.message);
-      } else {
-        console.log('Commitment evaluation failed:', error);
-        console.error('Commitment evaluation failed:', error);
-      }
-      return false;
-    }
+  private static reject(logger: Logger, code: CommitmentErrorCode, details: string): CommitmentValidationResult {
+    logger.warn('Commitment evaluation failed', { code, details });
+    return { valid: false, code, details };
   }
 
-  // Decodes the PushDrop output script into individual fields
-  private static decodeOutputScript(outputScript: Buffer): Buffer[] {
-    const fields = [];
-    let i = 0;
+  // Decodes the PushDrop output script into its fields, the signature over them and the key locking it
+  // Throws a PushDropDecodeError when the script is not a PushDrop token
+  private static decodeOutputScript(
+    outputScript: Buffer,
+    logger: Logger
+  ): { fields: Buffer[]; signatureBuffer: Buffer; pubKey: PublicKey } {
+    const decoded = decodePushDrop(Array.from(outputScript));
+    logger.debug('Locking public key', { lockingPublicKey: decoded.lockingPublicKey });
 
-    while (i < outputScript.length) {
-      const length = outputScript[i]; // Length byte
-      const field = outputScript.slice(i + 1, i + 1 + length); // Extract field based on length
-      fields.push(field);
-      i += 1 + length; // Move to the next field
-    }
+    const fields = decoded.fields.map(field => Buffer.from(field));
 
-    // Log the field lengths and raw data to debug potential misinterpretations
-    fields.forEach((field, index) => {
-      const fieldAsString = field.toString('utf8'); // For text-based fields
-      const fieldAsHex = field.toString('hex');     // For fields that should be hex
-      console.log(`Field ${index} length:`, field.length, 'Raw Data (UTF-8):', fieldAsString, 'Raw Data (Hex):', fieldAsHex);
-    });
+    // Log the field lengths to debug potential misinterpretations
+    logger.debug('Field lengths', { lengths: fields.map(field => field.length) });
 
-    return fields;
+    return { fields, signatureBuffer: Buffer.from(decoded.signature), pubKey: PublicKey.fromString(decoded.lockingPublicKey) };
   }
 
-  private static isValidSHA256(hash: string): boolean {
+  private static isValidSHA256(hash: string, logger: Logger): boolean {
     const isValid = /^[a-f0-9]{64}$/.test(hash);
-    console.log('Is valid SHA256 hash:', isValid, 'Hash:', hash); // Log SHA256 validation result
+    logger.debug('Is valid SHA256 hash', { isValid, hash });
     return isValid;
   }
 }
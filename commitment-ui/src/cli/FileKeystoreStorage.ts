@@ -0,0 +1,35 @@
+import fs from 'fs';
+import path from 'path';
+import { KeystoreStorage } from '../signers/LocalKeystoreSigner';
+
+/**
+ * Keeps keystore items in a JSON file, so the local keystore signer can be used from Node, where there is no localStorage.
+ * The file is created, readable by its owner only, when the first item is stored.
+ */
+export class FileKeystoreStorage implements KeystoreStorage {
+  constructor(private readonly file: string) {}
+
+  public getItem(key: string): string | null {
+    return this.read()[key] ?? null;
+  }
+
+  public setItem(key: string, value: string): void {
+    this.write({ ...this.read(), [key]: value });
+  }
+
+  public removeItem(key: string): void {
+    const items = this.read();
+    delete items[key];
+    this.write(items);
+  }
+
+  private read(): Record<string, string> {
+    if (!fs.existsSync(this.file)) return {};
+    return JSON.parse(fs.readFileSync(this.file, 'utf8'));
+  }
+
+  private write(items: Record<string, string>): void {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(items, null, 2), { mode: 0o600 });
+  }
+}
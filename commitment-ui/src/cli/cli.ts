@@ -0,0 +1,284 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseArgs } from 'util';
+import { createLogger, Logger } from 'uhrp-topic-manager';
+import { CommitmentConfig, readEnvironmentConfig, validateCommitmentConfig } from '../config/commitmentConfig';
+import { TopicManager } from '../TopicManager';
+import { HostSigner } from '../signers/HostSigner';
+import { WalletSigner } from '../signers/WalletSigner';
+import { LocalKeystoreSigner } from '../signers/LocalKeystoreSigner';
+import { HttpStorageUploader } from '../uploaders/HttpStorageUploader';
+import { publishCommitment } from '../utils/publishCommitment';
+import { publishLocalFileCommitment } from '../utils/publishLocalFile';
+import { listCommitments, getCommitmentStatus, formatCountdown } from '../utils/listCommitments';
+import { revokeCommitment } from '../utils/updateCommitment';
+import { lookupUHRPHosts } from '../utils/resolveUHRP';
+import { FileKeystoreStorage } from './FileKeystoreStorage';
+
+export const USAGE = `Usage: icommit <command> [options]
+
+Commands:
+  commit <url|file> [--days N]  Commit to hosting a file at a URL, or upload a local file with --upload and commit to it
+  list                          List the commitments in your wallet basket
+  revoke <txid.vout>            Revoke one of your commitments
+  verify <script-hex>           Check a commitment locking script by the rules the overlay applies
+  lookup <uhrp-url>             List the hosts committed to serving a UHRP URL
+
+Options:
+  --json                        Print JSON for scripts instead of text
+  --overlay <url>               Overlay node to use, repeated or comma-separated for several (default: OVERLAY_URL)
+  --signer <wallet|keystore>    Where the host key comes from (default: UHRP_SIGNER, or wallet)
+  --keystore <file>             Keystore file for the keystore signer (default: UHRP_KEYSTORE, or ~/.uhrp/keystore.json).
+                                Its passphrase is read from UHRP_KEYSTORE_PASSPHRASE.
+  --days <n>                    Hosting time of a new commitment (default: DEFAULT_HOSTING_DAYS, or 30)
+  --upload <endpoint>           Storage endpoint that local files are uploaded to
+  --method <PUT|POST>           How local files are uploaded (default: PUT)
+  --verbose                     Log progress to stderr
+  --help                        Show this help
+
+The output amount, basket and protocol ID are read from COMMITMENT_OUTPUT_AMOUNT, COMMITMENT_BASKET and COMMITMENT_PROTOCOL_ID.
+`;
+
+// Where the CLI reads its environment from and writes its output to, so tests can supply their own
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  env: Record<string, string | undefined>;
+}
+
+const processIO: CliIO = {
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`),
+  env: process.env,
+};
+
+// Thrown when the command line cannot be understood; the usage is shown with it
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, CliUsageError.prototype);
+  }
+}
+
+type CliOptions = {
+  json: boolean;
+  overlay?: string[];
+  signer?: string;
+  keystore?: string;
+  days?: string;
+  upload?: string;
+  method?: string;
+  verbose: boolean;
+  help: boolean;
+};
+
+// What each command needs, resolved from the options and the environment
+interface CommandContext {
+  args: string[];
+  options: CliOptions;
+  config: CommitmentConfig;
+  logger: Logger;
+  getSigner: () => Promise<HostSigner>;
+}
+
+// Runs a command, returning what it prints: text for people, and a value for --json
+type Command = (context: CommandContext) => Promise<{ text: string; json: unknown; exitCode?: number }>;
+
+const commit: Command = async ({ args, options, config, logger, getSigner }) => {
+  const [target] = requireArgs(args, 1, 'commit <url|file>');
+  const days = options.days === undefined ? config.defaultHostingDays : Number(options.days);
+  if (!Number.isInteger(days) || days < 1) {
+    throw new CliUsageError('--days must be a whole number of days, at least 1.');
+  }
+  const hostingMinutes = days * 24 * 60;
+  const signer = await getSigner();
+
+  let uhrpURL: string;
+  if (/^https?:\/\//i.test(target)) {
+    uhrpURL = await publishCommitment({ url: target, hostingMinutes, signer, config, logger });
+  } else {
+    if (!options.upload) {
+      throw new CliUsageError('A local file is uploaded before it is committed to, so --upload is required.');
+    }
+    const method = (options.method ?? 'PUT').toUpperCase();
+    if (method !== 'PUT' && method !== 'POST') {
+      throw new CliUsageError('--method must be PUT or POST.');
+    }
+    // The file is read as it is hashed and uploaded, not loaded into memory first
+    const blob = await fs.openAsBlob(target);
+    uhrpURL = await publishLocalFileCommitment({
+      file: new File([blob], path.basename(target)),
+      uploader: new HttpStorageUploader({ endpoint: options.upload, method }),
+      hostingMinutes,
+      signer,
+      config,
+      logger,
+    });
+  }
+  return {
+    text: `Committed to hosting ${target} for ${days} days.\nUHRP URL: ${uhrpURL}`,
+    json: { target, days, uhrpURL },
+  };
+};
+
+const list: Command = async ({ config, logger }) => {
+  const commitments = await listCommitments(logger, config.basket);
+  const now = Math.floor(Date.now() / 1000);
+  const rows = commitments.map(commitment => ({
+    outpoint: `${commitment.txid}.${commitment.vout}`,
+    url: commitment.url,
+    hash: commitment.hash,
+    fileSize: commitment.fileSize,
+    expiryTime: commitment.expiryTime,
+    status: getCommitmentStatus(commitment.expiryTime, now),
+    terms: commitment.terms,
+  }));
+  const text = rows.length === 0
+    ? `No commitments in the ${config.basket} basket.`
+    : rows.map(row => `${row.outpoint}  ${row.status.padEnd(8)}  ${formatCountdown(row.expiryTime - now).padEnd(7)}  ${row.url}`).join('\n');
+  return { text, json: rows };
+};
+
+const revoke: Command = async ({ args, config, logger }) => {
+  const [outpoint] = requireArgs(args, 1, 'revoke <txid.vout>');
+  if (!/^[0-9a-f]{64}\.\d+$/i.test(outpoint)) {
+    throw new CliUsageError('The commitment to revoke must be given as <txid>.<vout>.');
+  }
+  const commitment = (await listCommitments(logger, config.basket))
+    .find(candidate => `${candidate.txid}.${candidate.vout}` === outpoint.toLowerCase());
+  if (!commitment) {
+    throw new Error(`There is no unspent commitment ${outpoint} in the ${config.basket} basket.`);
+  }
+  const txid = await revokeCommitment({ token: commitment.token, config, logger });
+  return { text: `Revoked ${outpoint} in transaction ${txid}.`, json: { revoked: outpoint, txid } };
+};
+
+const verify: Command = async ({ args, logger }) => {
+  const [scriptHex] = requireArgs(args, 1, 'verify <script-hex>');
+  if (!/^([0-9a-f]{2})+$/i.test(scriptHex)) {
+    throw new CliUsageError('The script must be given as hex.');
+  }
+  const result = TopicManager.validateCommitment(Buffer.from(scriptHex, 'hex'), logger);
+  if (!result.valid) {
+    return { text: `Invalid commitment (${result.code}): ${result.details}`, json: result, exitCode: 1 };
+  }
+  const { commitment } = result;
+  return {
+    text: [
+      'Valid commitment',
+      `  Host:     ${commitment.host}`,
+      `  URL:      ${commitment.url}`,
+      `  Hash:     ${commitment.hash}`,
+      `  Size:     ${commitment.fileSize} bytes`,
+      `  Expires:  ${new Date(commitment.expiryTime * 1000).toISOString()}`,
+    ].join('\n'),
+    json: result,
+  };
+};
+
+const lookup: Command = async ({ args, config, logger }) => {
+  const [uhrpURL] = requireArgs(args, 1, 'lookup <uhrp-url>');
+  const hosts = await lookupUHRPHosts(uhrpURL, { overlayURL: config.overlayURLs[0], logger });
+  const text = hosts.length === 0
+    ? `No hosts are committed to serving ${uhrpURL}.`
+    : hosts.map(host => `${host.url}  expires ${new Date(host.expiryTime * 1000).toISOString()}  ${host.contentLength} bytes  ${host.hostAddress}`).join('\n');
+  return { text, json: hosts };
+};
+
+const COMMANDS: Record<string, Command> = { commit, list, revoke, verify, lookup };
+
+/**
+ * Runs the command-line tool.
+ * @param {string[]} argv - The arguments after the program name.
+ * @param {CliIO} io - The environment to read and the streams to write, those of the process by default.
+ * @returns {Promise<number>} - The exit code: 0 on success, 1 when the command fails or a script is invalid, 2 for usage errors.
+ */
+export async function runCli(argv: string[], io: CliIO = processIO): Promise<number> {
+  let options: CliOptions;
+  let positionals: string[];
+  try {
+    ({ values: options, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean', default: false },
+        overlay: { type: 'string', multiple: true },
+        signer: { type: 'string' },
+        keystore: { type: 'string' },
+        days: { type: 'string' },
+        upload: { type: 'string' },
+        method: { type: 'string' },
+        verbose: { type: 'boolean', default: false },
+        help: { type: 'boolean', default: false },
+      },
+    }));
+  } catch (error) {
+    return usageError(io, error instanceof Error ? error.message : String(error));
+  }
+
+  const [name, ...args] = positionals;
+  if (options.help || name === undefined) {
+    io.stdout(USAGE);
+    return options.help ? 0 : 2;
+  }
+  const command = COMMANDS[name];
+  if (!command) {
+    return usageError(io, `Unknown command: ${name}`);
+  }
+
+  // Logs go to stderr, so they never mix with the output that scripts read
+  const logger = createLogger(
+    ({ level, message, data }) => io.stderr(`${level}: ${message}${data === undefined ? '' : ` ${JSON.stringify(data)}`}`),
+    options.verbose ? 'debug' : 'error'
+  );
+
+  try {
+    const config = validateCommitmentConfig({
+      ...readEnvironmentConfig(io.env),
+      ...(options.overlay ? { overlayURLs: options.overlay.flatMap(url => url.split(',')).filter(url => url.trim() !== '') } : {}),
+    });
+    const result = await command({ args, options, config, logger, getSigner: () => createSigner(options, io.env) });
+    io.stdout(options.json ? JSON.stringify(result.json, null, 2) : result.text);
+    return result.exitCode ?? 0;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      return usageError(io, error.message);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    io.stderr(`Error: ${message}`);
+    if (options.json) io.stdout(JSON.stringify({ error: message }, null, 2));
+    return 1;
+  }
+}
+
+/**
+ * Creates the signer chosen by --signer or UHRP_SIGNER.
+ * The keystore passphrase is only read from the environment, so it does not show up in the shell history or process list.
+ */
+async function createSigner(options: CliOptions, env: Record<string, string | undefined>): Promise<HostSigner> {
+  const kind = options.signer ?? env.UHRP_SIGNER ?? 'wallet';
+  if (kind === 'wallet') return new WalletSigner();
+  if (kind !== 'keystore') {
+    throw new CliUsageError('--signer must be wallet or keystore.');
+  }
+  const file = options.keystore ?? env.UHRP_KEYSTORE ?? path.join(os.homedir(), '.uhrp', 'keystore.json');
+  if (!env.UHRP_KEYSTORE_PASSPHRASE) {
+    throw new CliUsageError('The keystore signer needs its passphrase in UHRP_KEYSTORE_PASSPHRASE.');
+  }
+  return LocalKeystoreSigner.unlock(env.UHRP_KEYSTORE_PASSPHRASE, new FileKeystoreStorage(file));
+}
+
+function requireArgs(args: string[], count: number, usage: string): string[] {
+  if (args.length !== count) {
+    throw new CliUsageError(`Usage: icommit ${usage}`);
+  }
+  return args;
+}
+
+function usageError(io: CliIO, message: string): number {
+  io.stderr(`${message}\n\n${USAGE}`);
+  return 2;
+}
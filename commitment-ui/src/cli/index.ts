@@ -0,0 +1,6 @@
+import { runCli } from './cli';
+
+// Entry point of the icommit command-line tool; see USAGE in ./cli for the commands it offers
+runCli(process.argv.slice(2)).then(exitCode => {
+  process.exitCode = exitCode;
+});
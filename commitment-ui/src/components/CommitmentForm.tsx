@@ -1,23 +1,26 @@
-import React, { useState } from 'react';
-import { Container, Typography, Box, TextField, Button } from '@mui/material';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Container, Typography, Box, TextField, Button, MenuItem, LinearProgress } from '@mui/material';
 import { publishCommitment } from '../utils/publishCommitment';
-import { PrivateKey, PublicKey } from '@bsv/sdk';
-import crypto from 'crypto';
-import bs58 from 'bs58'; // Base58 encoding library
+import { preflightCommitment, CommitmentPreflightReport, PreflightCheck } from '../utils/preflightCommitment';
+import { publishCommitments, parseCommitmentList, BatchCommitmentResult, CommitmentListEntry } from '../utils/publishCommitments';
+import { createConsoleLogger, CommitmentTerms, encodeCommitmentTerms } from 'uhrp-topic-manager';
+import { HostSigner } from '../signers/HostSigner';
+import { WalletSigner } from '../signers/WalletSigner';
+import { LocalKeystoreSigner } from '../signers/LocalKeystoreSigner';
+import { HashProgress } from '../utils/streamFileHash';
+import { preflightLocalFileCommitment, LocalFilePhase } from '../utils/publishLocalFile';
+import { StorageUploader } from '../uploaders/StorageUploader';
+import { HttpStorageUploader } from '../uploaders/HttpStorageUploader';
+import { loadCommitmentConfig } from '../config/commitmentConfig';
 
-// Function to manually derive a Bitcoin address from the public key
-function deriveAddressFromPublicKey(publicKey: PublicKey): string {
-  const publicKeyHex = publicKey.toString(); // Get public key as a hex string
-  const publicKeyBuffer = Buffer.from(publicKeyHex, 'hex'); // Convert the hex string to a buffer
+// Step-by-step progress is left out of the browser console; outcomes and failures are kept
+const logger = createConsoleLogger('info');
 
-  // Hash public key with SHA-256, then RIPEMD-160 using Node.js's crypto module
-  const sha256Hash = crypto.createHash('sha256').update(publicKeyBuffer).digest();
-  const ripemd160Hash = crypto.createHash('ripemd160').update(sha256Hash).digest();
+// Progress is re-rendered at most once per this many bytes, so large files do not flood React with updates
+const PROGRESS_STEP_BYTES = 1024 * 1024;
 
-  // Base58Check encode the RIPEMD-160 hash to get the address
-  const address = bs58.encode(ripemd160Hash);
-  return address;
-}
+// Bandwidth is entered in gigabytes per day but committed in bytes, matching the per-GB price
+const BYTES_PER_GB = 1000 * 1000 * 1000;
 
 // Utility function to validate URL format
 const isValidURL = (url: string): boolean => {
@@ -29,39 +32,91 @@ const isValidURL = (url: string): boolean => {
   }
 };
 
-const CommitmentForm: React.FC = () => {
-  // State variables to store form input values
-  const [fileURL, setFileURL] = useState('');
-  const [hostingTime, setHostingTime] = useState('');
+type FileSource = 'url' | 'local' | 'list';
 
-  // Ninja Wallet Private Key
-  const privateKeyHex = 'bf4d159ac007184e0d458b7d6e3deb0e645269f55f13ba10f24e654ffc194daa';
+// How each preflight check is named in the review
+const CHECK_LABELS: Record<PreflightCheck['name'], string> = {
+  reachable: 'File is reachable',
+  hash: 'File hash',
+  commitment: 'Commitment is valid',
+  overlay: 'Overlay would admit it',
+};
 
-  // Create PrivateKey object and derive the public key
-  const privateKey = PrivateKey.fromString(privateKeyHex, 'hex'); // Convert private key from hex
-  const publicKey = PublicKey.fromPrivateKey(privateKey); // Derive public key from private key
-  const address = deriveAddressFromPublicKey(publicKey); // Derive Bitcoin address from public key
+interface CommitmentFormProps {
+  // Uploads local files; when absent, the user enters an HTTP upload endpoint
+  uploader?: StorageUploader;
+}
+
+const CommitmentForm: React.FC<CommitmentFormProps> = ({ uploader }) => {
+  // Read when the form opens, so changes saved in the settings apply from then on
+  const [config] = useState(() => loadCommitmentConfig());
+  // State variables to store form input values
+  const [fileSource, setFileSource] = useState<FileSource>('url');
+  const [fileURL, setFileURL] = useState('');
+  // Several file URLs, pasted or imported from a CSV file, each optionally followed by its hosting days
+  const [fileList, setFileList] = useState('');
+  const [localFile, setLocalFile] = useState<File | null>(null);
+  const [uploadEndpoint, setUploadEndpoint] = useState('');
+  const [uploadMethod, setUploadMethod] = useState<'PUT' | 'POST'>('PUT');
+  const [hostingTime, setHostingTime] = useState(() => String(config.defaultHostingDays));
+  // Optional hosting terms offered to downloaders; left blank, they are not advertised
+  const [pricePerGB, setPricePerGB] = useState('');
+  const [bandwidthLimitGB, setBandwidthLimitGB] = useState('');
+  const [contactURL, setContactURL] = useState('');
+  // Where the host identity key comes from: the wallet, or a passphrase-protected development key
+  const [keySource, setKeySource] = useState<'wallet' | 'local'>('wallet');
+  const [passphrase, setPassphrase] = useState('');
+  const walletSigner = useMemo(() => new WalletSigner(), []);
+  // Download and hashing progress of the file being committed to, while a submission is running
+  const [progress, setProgress] = useState<HashProgress | null>(null);
+  const [phase, setPhase] = useState<LocalFilePhase | null>(null);
+  // Which file of a batch is being hashed, and what became of each file once the batch is published
+  const [batchFile, setBatchFile] = useState<{ index: number; total: number } | null>(null);
+  const [batchResults, setBatchResults] = useState<BatchCommitmentResult[] | null>(null);
+  // The checked commitment to a file URL or uploaded file, shown for review before it is published
+  const [review, setReview] = useState<CommitmentPreflightReport | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
-  // Added console logs to track key and address generation
-  console.log('Private Key:', privateKeyHex);
-  console.log('Derived Public Key:', publicKey.toString());
-  console.log('Derived Address:', address);
+  // A review only holds for the details it was made with
+  useEffect(() => {
+    setReview(null);
+  }, [fileSource, fileURL, localFile, uploadEndpoint, uploadMethod, hostingTime, pricePerGB, bandwidthLimitGB, contactURL, keySource, passphrase]);
 
   // Form submit handler to publish the file hosting commitment
   const handleSubmit = async (event: React.FormEvent) => {
     event.preventDefault();
   
     // Validate inputs
-    if (!fileURL || !hostingTime) {
-      alert('Please provide valid inputs for the file URL and hosting time.');
+    let listEntries: CommitmentListEntry[] = [];
+    if (fileSource === 'list') {
+      try {
+        listEntries = parseCommitmentList(fileList);
+      } catch (error) {
+        alert(error instanceof Error ? error.message : 'Please check the list of file URLs.');
+        return;
+      }
+      if (listEntries.length === 0) {
+        alert('Please provide at least one file URL.');
+        return;
+      }
+    } else if (fileSource === 'url' ? !fileURL : !localFile) {
+      alert(fileSource === 'url' ? 'Please provide a file URL.' : 'Please choose a file to upload.');
+      return;
+    }
+    if (!hostingTime) {
+      alert('Please provide a valid hosting time.');
       return;
     }
   
     // Validate the URL format
-    if (!isValidURL(fileURL)) {
+    if (fileSource === 'url' && !isValidURL(fileURL)) {
       alert('Please provide a valid URL.');
       return;
     }
+    if (fileSource === 'local' && !uploader && !isValidURL(uploadEndpoint)) {
+      alert('Please provide a valid upload endpoint.');
+      return;
+    }
   
     // Validate hosting time (must be greater than 0)
     const hostingDays = parseInt(hostingTime);
@@ -70,39 +125,152 @@ const CommitmentForm: React.FC = () => {
       return;
     }
   
+    // Hosting terms are only committed to when at least one is given
+    let terms: CommitmentTerms | undefined;
+    if (pricePerGB || bandwidthLimitGB || contactURL) {
+      terms = {
+        pricePerGB: pricePerGB ? Number(pricePerGB) : undefined,
+        bandwidthLimit: bandwidthLimitGB ? Math.round(Number(bandwidthLimitGB) * BYTES_PER_GB) : undefined,
+        contactURL: contactURL || undefined,
+      };
+      try {
+        encodeCommitmentTerms(terms);
+      } catch (error) {
+        alert(`Please check the hosting terms. ${error instanceof Error ? error.message : ''}`);
+        return;
+      }
+    }
+  
+    // Get the host identity key; each commitment names its host by the address of the key that locks it, which is derived per commitment
+    let signer: HostSigner;
+    try {
+      signer = keySource === 'local'
+        ? await LocalKeystoreSigner.unlock(passphrase)
+        : walletSigner;
+      logger.debug('Host identity key', { identityKey: (await signer.getIdentityKey()).toString() });
+    } catch (error) {
+      logger.error('Error getting the host identity key', error);
+      alert(error instanceof Error ? error.message : 'Could not get the host identity key.');
+      return;
+    }
+  
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setProgress({ bytesHashed: 0 });
+    setBatchResults(null);
+    let lastRenderedBytes = 0;
+
     try {
       // Convert hosting time to minutes
       const hostingMinutes = hostingDays * 24 * 60;
   
-      console.log('File URL:', fileURL);
-      console.log('Hosting Time (in days):', hostingTime);
-      console.log('Hosting Time (in minutes):', hostingMinutes);
-      console.log('Address:', address);
-  
-      // Call the publishCommitment utility function to submit the commitment
-      console.log('Calling publishCommitment with data:');
-      console.log({ fileURL, hostingMinutes, address });
+      const onProgress = (update: HashProgress) => {
+        if (update.bytesHashed - lastRenderedBytes >= PROGRESS_STEP_BYTES || update.bytesHashed === update.totalBytes) {
+          lastRenderedBytes = update.bytesHashed;
+          setProgress(update);
+        }
+      };
   
-      const result = await publishCommitment({
-        url: fileURL,
-        hostingMinutes,
-        address, // Use derived address
-        serviceURL: 'https://staging-overlay.babbage.systems',
-      });
+      if (fileSource === 'list') {
+        // Every listed file is committed to in a single transaction
+        logger.debug('Calling publishCommitments', { files: listEntries.length, hostingMinutes });
+        let batchIndex = -1;
+        const { results } = await publishCommitments({
+          files: listEntries.map(({ url, hostingDays: days }) => ({ url, hostingMinutes: days === undefined ? undefined : days * 24 * 60 })),
+          hostingMinutes,
+          signer,
+          config,
+          logger,
+          signal: abortController.signal,
+          onProgress: (fileIndex, update) => {
+            if (fileIndex !== batchIndex) {
+              batchIndex = fileIndex;
+              lastRenderedBytes = 0;
+              setBatchFile({ index: fileIndex, total: listEntries.length });
+            }
+            onProgress(update);
+          },
+          terms,
+        });
+        setBatchResults(results);
+        alert(`${results.filter(result => result.admitted).length} of ${results.length} file storage commitments were admitted.`);
+        return;
+      }
+
+      let result: string;
+      if (review === null && fileSource === 'local' && localFile) {
+        // Hash the chosen file here and upload it, then check the uploaded copy is served with that hash, for review before any satoshis are spent
+        logger.debug('Calling preflightLocalFileCommitment', { fileName: localFile.name, hostingMinutes });
+        setReview(await preflightLocalFileCommitment({
+          file: localFile,
+          uploader: uploader ?? new HttpStorageUploader({ endpoint: uploadEndpoint, method: uploadMethod }),
+          hostingMinutes,
+          signer,
+          config,
+          logger,
+          signal: abortController.signal,
+          onPhase: setPhase,
+          onProgress,
+          terms,
+          minimumOutputAmount: config.minimumOutputAmount,
+        }));
+        return;
+      } else if (review === null) {
+        // The commitment is built and checked, and shown for review, before any satoshis are spent
+        logger.debug('Calling preflightCommitment', { fileURL, hostingMinutes });
+        setReview(await preflightCommitment({
+          url: fileURL,
+          hostingMinutes,
+          signer,
+          config,
+          logger,
+          signal: abortController.signal,
+          onProgress,
+          terms,
+          minimumOutputAmount: config.minimumOutputAmount,
+        }));
+        return;
+      } else {
+        // Publish the reviewed commitment exactly as it was checked, to the uploaded copy for a local file
+        const url = review.prepared?.url ?? fileURL;
+        logger.debug('Calling publishCommitment', { url, hostingMinutes });
+        setPhase('publishing');
+        result = await publishCommitment({
+          url,
+          hostingMinutes,
+          signer, // Locks and signs the commitment
+          config,
+          logger,
+          signal: abortController.signal,
+          terms,
+          prepared: review.prepared,
+        });
+        setReview(null);
+      }
   
-      console.log('publishCommitment result:', result);
+      logger.info('publishCommitment result', { uhrpURL: result });
   
       alert('File storage commitment submitted successfully!');
     } catch (error) {
-      // Enhanced error logging
-      if (error instanceof Error) {
-        console.error('Error submitting file storage commitment:', error.message);
-      } else {
-        console.error('Unknown error:', error);
+      if (abortController.signal.aborted) {
+        logger.info('File storage commitment cancelled');
+        alert('The commitment was cancelled.');
+        return;
       }
+      logger.error('Error submitting file storage commitment', error);
       alert('There was an error submitting the commitment.');
+    } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
+      setPhase(null);
+      setBatchFile(null);
     }
   };
+
+  // Cancels the running submission, if it has not yet created its transaction
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
   
 
   return (
@@ -113,33 +281,212 @@ const CommitmentForm: React.FC = () => {
         </Typography>
         <form onSubmit={handleSubmit}>
           <TextField
+            select
             fullWidth
-            label="File URL"
-            value={fileURL}
-            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFileURL(e.target.value)}
+            label="File Source"
+            value={fileSource}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFileSource(e.target.value as FileSource)}
             margin="normal"
-            required
-          />
+          >
+            <MenuItem value="url">File already hosted at a URL</MenuItem>
+            <MenuItem value="local">Local file to upload</MenuItem>
+            <MenuItem value="list">Several hosted files, pasted or from a CSV file</MenuItem>
+          </TextField>
+          {fileSource === 'list' ? (
+            <>
+              <TextField
+                fullWidth
+                multiline
+                minRows={4}
+                label="File URLs"
+                helperText="One URL per line, optionally followed by a comma and the hosting days for that file"
+                value={fileList}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFileList(e.target.value)}
+                margin="normal"
+                required
+              />
+              <Typography variant="body2" color="textSecondary" gutterBottom>
+                Several files are not reviewed before they are published: satoshis are spent as soon as the batch is submitted,
+                and files the overlay does not admit are only reported afterwards.
+              </Typography>
+              <Button variant="outlined" component="label" fullWidth>
+                Import CSV
+                <input
+                  type="file"
+                  accept=".csv,text/csv,text/plain"
+                  hidden
+                  onChange={async (e: React.ChangeEvent<HTMLInputElement>) => {
+                    const file = e.target.files?.[0];
+                    if (file) setFileList(await file.text());
+                  }}
+                />
+              </Button>
+            </>
+          ) : fileSource === 'url' ? (
+            <TextField
+              fullWidth
+              label="File URL"
+              value={fileURL}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFileURL(e.target.value)}
+              margin="normal"
+              required
+            />
+          ) : (
+            <>
+              <Box mt={2} mb={1}>
+                <Button variant="outlined" component="label" fullWidth>
+                  {localFile ? `${localFile.name} (${localFile.size} bytes)` : 'Choose File'}
+                  <input
+                    type="file"
+                    hidden
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLocalFile(e.target.files?.[0] ?? null)}
+                  />
+                </Button>
+              </Box>
+              {!uploader && (
+                <>
+                  <TextField
+                    fullWidth
+                    label="Upload Endpoint"
+                    value={uploadEndpoint}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUploadEndpoint(e.target.value)}
+                    margin="normal"
+                    required
+                  />
+                  <TextField
+                    select
+                    fullWidth
+                    label="Upload Method"
+                    value={uploadMethod}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setUploadMethod(e.target.value as 'PUT' | 'POST')}
+                    margin="normal"
+                  >
+                    <MenuItem value="PUT">PUT the file to the endpoint</MenuItem>
+                    <MenuItem value="POST">POST the file as a form</MenuItem>
+                  </TextField>
+                </>
+              )}
+            </>
+          )}
           <TextField
             fullWidth
-            label="Hosting Time (in days)"
+            label={fileSource === 'list' ? 'Hosting Time (in days, for files that do not give their own)' : 'Hosting Time (in days)'}
             type="number"
             value={hostingTime}
             onChange={(e: React.ChangeEvent<HTMLInputElement>) => setHostingTime(e.target.value)}
             margin="normal"
             required
           />
+          <Typography variant="subtitle1" style={{ marginTop: 16 }}>
+            Hosting Terms (optional)
+          </Typography>
+          <TextField
+            fullWidth
+            label="Price per GB (satoshis)"
+            type="number"
+            value={pricePerGB}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPricePerGB(e.target.value)}
+            margin="normal"
+          />
+          <TextField
+            fullWidth
+            label="Bandwidth Limit (GB per day)"
+            type="number"
+            value={bandwidthLimitGB}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBandwidthLimitGB(e.target.value)}
+            margin="normal"
+          />
+          <TextField
+            fullWidth
+            label="Contact URL"
+            value={contactURL}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setContactURL(e.target.value)}
+            margin="normal"
+          />
+          <TextField
+            select
+            fullWidth
+            label="Host Key"
+            value={keySource}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setKeySource(e.target.value as 'wallet' | 'local')}
+            margin="normal"
+          >
+            <MenuItem value="wallet">Wallet identity key</MenuItem>
+            <MenuItem value="local">Local development keystore</MenuItem>
+          </TextField>
+          {keySource === 'local' && (
+            <TextField
+              fullWidth
+              label={LocalKeystoreSigner.exists() ? 'Keystore Passphrase' : 'New Keystore Passphrase'}
+              type="password"
+              value={passphrase}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassphrase(e.target.value)}
+              margin="normal"
+              required
+            />
+          )}
+          {review !== null && (
+            <Box mt={3}>
+              <Typography variant="h6">Review</Typography>
+              {review.checks.map(check => (
+                <Typography key={check.name} variant="body2" color={check.passed ? 'textPrimary' : 'error'} style={{ wordBreak: 'break-all' }}>
+                  {check.passed ? '✓' : '✗'} {CHECK_LABELS[check.name]}: {check.details}
+                </Typography>
+              ))}
+              {review.prepared && (
+                <Typography variant="body2" color="textSecondary" style={{ wordBreak: 'break-all', marginTop: 8 }}>
+                  {review.uhrpURL} ({review.prepared.contentLength} bytes), hosted by {review.prepared.address} until{' '}
+                  {new Date(review.prepared.expiryTime * 1000).toLocaleString()}. The output will hold {review.outputAmount} satoshis
+                  in the {review.basket} basket and be submitted to {review.overlayURLs.join(', ')}.
+                </Typography>
+              )}
+              <Button variant="outlined" onClick={() => setReview(null)} fullWidth style={{ marginTop: 8 }}>
+                Discard Review
+              </Button>
+            </Box>
+          )}
           <Box mt={3}>
             <Button
               type="submit"
               variant="contained"
               color="primary"
               fullWidth
+              disabled={progress !== null || (review !== null && !review.ok)}
             >
-              Submit Commitment
+              {fileSource !== 'list' && review === null ? 'Review Commitment' : 'Submit Commitment'}
             </Button>
           </Box>
+          {progress !== null && (
+            <Box mt={2}>
+              <LinearProgress
+                variant={progress.totalBytes && (phase === null || phase === 'hashing') ? 'determinate' : 'indeterminate'}
+                value={progress.totalBytes ? (progress.bytesHashed / progress.totalBytes) * 100 : undefined}
+              />
+              <Typography variant="body2" color="textSecondary">
+                {phase === 'uploading' && 'Uploading the file'}
+                {phase === 'checking' && 'Checking the uploaded file'}
+                {phase === 'publishing' && 'Publishing the commitment'}
+                {batchFile !== null && `File ${batchFile.index + 1} of ${batchFile.total}: `}
+                {(phase === null || phase === 'hashing') && (progress.totalBytes
+                  ? `Hashed ${progress.bytesHashed} of ${progress.totalBytes} bytes`
+                  : `Hashed ${progress.bytesHashed} bytes`)}
+              </Typography>
+              <Button variant="outlined" onClick={handleCancel} fullWidth>
+                Cancel
+              </Button>
+            </Box>
+          )}
         </form>
+        {batchResults !== null && (
+          <Box mt={3}>
+            <Typography variant="h6">Batch Results</Typography>
+            {batchResults.map((result, i) => (
+              <Typography key={i} variant="body2" color={result.admitted ? 'textPrimary' : 'error'} style={{ wordBreak: 'break-all' }}>
+                {result.admitted ? `${result.url} → ${result.uhrpURL} (output ${result.outputIndex})` : `${result.url}: ${result.error}`}
+              </Typography>
+            ))}
+          </Box>
+        )}
       </Box>
     </Container>
   );
@@ -0,0 +1,274 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Container, Typography, Box, Button, ToggleButton, ToggleButtonGroup, Table, TableHead, TableBody, TableRow, TableCell,
+  Chip, LinearProgress, Tooltip,
+} from '@mui/material';
+import { createConsoleLogger } from 'uhrp-topic-manager';
+import {
+  listCommitments, listRevocations, getCommitmentStatus, formatCountdown, CommitmentSummary, CommitmentStatus,
+} from '../utils/listCommitments';
+import { canWalletSpend, reclaimRevocation, renewCommitment, revokeCommitment } from '../utils/updateCommitment';
+import { loadCommitmentConfig } from '../config/commitmentConfig';
+
+const logger = createConsoleLogger('info');
+
+type StatusFilter = 'all' | CommitmentStatus;
+
+const STATUS_LABELS: Record<CommitmentStatus, string> = {
+  active: 'Active',
+  expiring: 'Expiring soon',
+  expired: 'Expired',
+};
+
+const STATUS_COLORS: Record<CommitmentStatus, string> = {
+  active: 'success',
+  expiring: 'warning',
+  expired: 'default',
+};
+
+// Shown on the actions of tokens the wallet does not hold the key of
+const NOT_SPENDABLE_TITLE = 'Made with a keystore key, which the wallet cannot spend this token with';
+
+// Shortens a hash or txid to its first and last characters
+const abbreviate = (hex: string): string => `${hex.slice(0, 8)}…${hex.slice(-8)}`;
+
+const now = (): number => Math.floor(Date.now() / 1000);
+
+const CommitmentList: React.FC = () => {
+  const [commitments, setCommitments] = useState<CommitmentSummary[]>([]);
+  // Revocations still holding the satoshis of the commitments they ended
+  const [revocations, setRevocations] = useState<CommitmentSummary[]>([]);
+  // The outpoints of the tokens the wallet holds the locking key of, which are the only ones it can renew, revoke or reclaim
+  const [spendable, setSpendable] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  // The current time, ticking so that countdowns and statuses stay current
+  const [currentTime, setCurrentTime] = useState(now());
+  // The txid of the commitment being renewed or revoked, while its transaction is built
+  const [busyTxid, setBusyTxid] = useState<string | null>(null);
+  // Read when the page opens, so changes saved in the settings apply from then on
+  const [config] = useState(() => loadCommitmentConfig());
+
+  const loadCommitments = useCallback(async () => {
+    setLoading(true);
+    try {
+      const listed = await listCommitments(logger, config.basket);
+      const revoked = await listRevocations(logger, config.basket);
+      const tokens = [...listed, ...revoked];
+      const walletSpendable = await Promise.all(tokens.map(summary => canWalletSpend(summary.token).catch(() => false)));
+      setSpendable(new Set(tokens.filter((_, i) => walletSpendable[i]).map(summary => `${summary.txid}.${summary.vout}`)));
+      setCommitments(listed);
+      setRevocations(revoked);
+    } catch (error) {
+      logger.error('Error listing file storage commitments', error);
+      alert('Could not load your commitments from the wallet.');
+    } finally {
+      setLoading(false);
+    }
+  }, [config.basket]);
+
+  useEffect(() => {
+    loadCommitments();
+  }, [loadCommitments]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setCurrentTime(now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleRenew = async (commitment: CommitmentSummary) => {
+    const input = prompt('Extend hosting by how many days?', String(config.defaultHostingDays));
+    if (input === null) return;
+    const days = parseInt(input, 10);
+    if (!(days > 0)) {
+      alert('Hosting time must be greater than 0.');
+      return;
+    }
+    setBusyTxid(commitment.txid);
+    try {
+      await renewCommitment({ token: commitment.token, hostingMinutes: days * 24 * 60, config, logger });
+      alert('The commitment was renewed.');
+      await loadCommitments();
+    } catch (error) {
+      logger.error('Error renewing file storage commitment', error);
+      alert('There was an error renewing the commitment.');
+    } finally {
+      setBusyTxid(null);
+    }
+  };
+
+  const handleRevoke = async (commitment: CommitmentSummary) => {
+    if (!confirm(`Stop hosting ${commitment.url}? The commitment will be revoked on the overlay.`)) return;
+    setBusyTxid(commitment.txid);
+    try {
+      await revokeCommitment({ token: commitment.token, config, logger });
+      alert('The commitment was revoked.');
+      await loadCommitments();
+    } catch (error) {
+      logger.error('Error revoking file storage commitment', error);
+      alert('There was an error revoking the commitment.');
+    } finally {
+      setBusyTxid(null);
+    }
+  };
+
+  const handleReclaim = async (revocation: CommitmentSummary) => {
+    setBusyTxid(revocation.txid);
+    try {
+      await reclaimRevocation({ token: revocation.token, config, logger });
+      alert(`${revocation.token.amount} satoshis were returned to your wallet.`);
+      await loadCommitments();
+    } catch (error) {
+      logger.error('Error reclaiming revoked file storage commitment', error);
+      alert('There was an error reclaiming the revoked commitment.');
+    } finally {
+      setBusyTxid(null);
+    }
+  };
+
+  const shown = commitments.filter(
+    commitment => filter === 'all' || getCommitmentStatus(commitment.expiryTime, currentTime) === filter
+  );
+
+  return (
+    <Container maxWidth="lg">
+      <Box mt={5} p={3} border={1} borderRadius={4} borderColor="grey.300">
+        <Box display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h4" gutterBottom>
+            My Commitments
+          </Typography>
+          <Button variant="outlined" onClick={loadCommitments} disabled={loading}>
+            Refresh
+          </Button>
+        </Box>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={filter}
+          onChange={(_: React.MouseEvent, value: StatusFilter | null) => value !== null && setFilter(value)}
+        >
+          <ToggleButton value="all">All</ToggleButton>
+          <ToggleButton value="active">{STATUS_LABELS.active}</ToggleButton>
+          <ToggleButton value="expiring">{STATUS_LABELS.expiring}</ToggleButton>
+          <ToggleButton value="expired">{STATUS_LABELS.expired}</ToggleButton>
+        </ToggleButtonGroup>
+        {loading && <Box mt={2}><LinearProgress /></Box>}
+        {!loading && shown.length === 0 && (
+          <Box mt={2}>
+            <Typography variant="body2" color="textSecondary">
+              {commitments.length === 0 ? 'You have not made any file storage commitments yet.' : 'No commitments match this filter.'}
+            </Typography>
+          </Box>
+        )}
+        {shown.length > 0 && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>URL</TableCell>
+                <TableCell>Hash</TableCell>
+                <TableCell align="right">Size (bytes)</TableCell>
+                <TableCell>Expires In</TableCell>
+                <TableCell>TXID</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {shown.map(commitment => {
+                const status = getCommitmentStatus(commitment.expiryTime, currentTime);
+                const walletCanSpend = spendable.has(`${commitment.txid}.${commitment.vout}`);
+                return (
+                  <TableRow key={`${commitment.txid}.${commitment.vout}`}>
+                    <TableCell style={{ wordBreak: 'break-all' }}>{commitment.url}</TableCell>
+                    <TableCell>
+                      <Tooltip title={commitment.hash}><span>{abbreviate(commitment.hash)}</span></Tooltip>
+                    </TableCell>
+                    <TableCell align="right">{commitment.fileSize}</TableCell>
+                    <TableCell>
+                      <Chip size="small" label={STATUS_LABELS[status]} color={STATUS_COLORS[status]} />{' '}
+                      {status !== 'expired' && formatCountdown(commitment.expiryTime - currentTime)}
+                    </TableCell>
+                    <TableCell>
+                      <Tooltip title={commitment.txid}><span>{abbreviate(commitment.txid)}</span></Tooltip>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title={walletCanSpend ? '' : NOT_SPENDABLE_TITLE}>
+                        <span>
+                          <Button
+                            size="small"
+                            onClick={() => handleRenew(commitment)}
+                            disabled={busyTxid !== null || !walletCanSpend}
+                          >
+                            Renew
+                          </Button>
+                          <Button
+                            size="small"
+                            color="error"
+                            onClick={() => handleRevoke(commitment)}
+                            disabled={busyTxid !== null || !walletCanSpend}
+                          >
+                            Revoke
+                          </Button>
+                        </span>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+        {revocations.length > 0 && (
+          <Box mt={4}>
+            <Typography variant="h6" gutterBottom>
+              Revoked Commitments
+            </Typography>
+            <Typography variant="body2" color="textSecondary">
+              Each revocation holds the satoshis of the commitment it ended until they are reclaimed.
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>URL</TableCell>
+                  <TableCell>Revoked</TableCell>
+                  <TableCell align="right">Amount (sats)</TableCell>
+                  <TableCell>TXID</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {revocations.map(revocation => {
+                  const walletCanSpend = spendable.has(`${revocation.txid}.${revocation.vout}`);
+                  return (
+                    <TableRow key={`${revocation.txid}.${revocation.vout}`}>
+                      <TableCell style={{ wordBreak: 'break-all' }}>{revocation.url}</TableCell>
+                      <TableCell>{new Date(revocation.expiryTime * 1000).toLocaleString()}</TableCell>
+                      <TableCell align="right">{revocation.token.amount}</TableCell>
+                      <TableCell>
+                        <Tooltip title={revocation.txid}><span>{abbreviate(revocation.txid)}</span></Tooltip>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Tooltip title={walletCanSpend ? '' : NOT_SPENDABLE_TITLE}>
+                          <span>
+                            <Button
+                              size="small"
+                              onClick={() => handleReclaim(revocation)}
+                              disabled={busyTxid !== null || !walletCanSpend}
+                            >
+                              Reclaim
+                            </Button>
+                          </span>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Box>
+        )}
+      </Box>
+    </Container>
+  );
+};
+
+export default CommitmentList;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Container, Typography, Box, TextField, Button } from '@mui/material';
+import {
+  CommitmentConfig, CommitmentConfigError, loadCommitmentConfig, saveCommitmentConfig, resetCommitmentConfig,
+} from '../config/commitmentConfig';
+
+// The settings as edited, before they are parsed and validated
+interface SettingsFields {
+  overlayURLs: string;
+  outputAmount: string;
+  minimumOutputAmount: string;
+  basket: string;
+  protocolID: string;
+  defaultHostingDays: string;
+}
+
+const toFields = (config: CommitmentConfig): SettingsFields => ({
+  overlayURLs: config.overlayURLs.join('\n'),
+  outputAmount: String(config.outputAmount),
+  minimumOutputAmount: String(config.minimumOutputAmount),
+  basket: config.basket,
+  protocolID: config.protocolID,
+  defaultHostingDays: String(config.defaultHostingDays),
+});
+
+const SettingsPanel: React.FC = () => {
+  const [fields, setFields] = useState<SettingsFields>(() => toFields(loadCommitmentConfig()));
+  // Why the settings were not saved, one problem per entry
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const setField = (name: keyof SettingsFields) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setFields({ ...fields, [name]: e.target.value });
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      const saved = saveCommitmentConfig({
+        overlayURLs: fields.overlayURLs.split(/[\n,]/).map(url => url.trim()).filter(url => url !== ''),
+        outputAmount: Number(fields.outputAmount),
+        minimumOutputAmount: Number(fields.minimumOutputAmount),
+        basket: fields.basket.trim(),
+        protocolID: fields.protocolID.trim(),
+        defaultHostingDays: Number(fields.defaultHostingDays),
+      });
+      setFields(toFields(saved));
+      setProblems([]);
+      alert('The settings were saved.');
+    } catch (error) {
+      if (!(error instanceof CommitmentConfigError)) throw error;
+      setProblems(error.problems);
+    }
+  };
+
+  const handleReset = () => {
+    resetCommitmentConfig();
+    setFields(toFields(loadCommitmentConfig()));
+    setProblems([]);
+  };
+
+  return (
+    <Container maxWidth="sm">
+      <Box mt={5} p={3} border={1} borderRadius={4} borderColor="grey.300">
+        <Typography variant="h4" gutterBottom>
+          Commitment Settings
+        </Typography>
+        <Typography variant="body2" color="textSecondary">
+          Saved in this browser, and used for commitments made, renewed or revoked from now on.
+        </Typography>
+        <form onSubmit={handleSave}>
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Overlay URLs"
+            helperText="One per line. Commitments are broadcast to every node, and hosts are looked up on the first."
+            value={fields.overlayURLs}
+            onChange={setField('overlayURLs')}
+            margin="normal"
+            required
+          />
+          <TextField
+            fullWidth
+            label="Output Amount (satoshis)"
+            helperText="Overlay nodes reject commitments holding less than their minimum."
+            type="number"
+            value={fields.outputAmount}
+            onChange={setField('outputAmount')}
+            margin="normal"
+            required
+          />
+          <TextField
+            fullWidth
+            label="Overlay Minimum Output Amount (satoshis)"
+            helperText="The minimum the overlay nodes are configured with, checked when a commitment is reviewed."
+            type="number"
+            value={fields.minimumOutputAmount}
+            onChange={setField('minimumOutputAmount')}
+            margin="normal"
+            required
+          />
+          <TextField
+            fullWidth
+            label="Basket"
+            value={fields.basket}
+            onChange={setField('basket')}
+            margin="normal"
+            required
+          />
+          <TextField
+            fullWidth
+            label="Protocol ID"
+            helperText="Commitments made earlier keep the protocol ID they were made with."
+            value={fields.protocolID}
+            onChange={setField('protocolID')}
+            margin="normal"
+            required
+          />
+          <TextField
+            fullWidth
+            label="Default Hosting Time (in days)"
+            type="number"
+            value={fields.defaultHostingDays}
+            onChange={setField('defaultHostingDays')}
+            margin="normal"
+            required
+          />
+          {problems.length > 0 && (
+            <Box mt={2}>
+              {problems.map(problem => (
+                <Typography key={problem} variant="body2" color="error">
+                  {problem}
+                </Typography>
+              ))}
+            </Box>
+          )}
+          <Box mt={3} display="flex" gap={2}>
+            <Button type="submit" variant="contained" color="primary" fullWidth>
+              Save Settings
+            </Button>
+            <Button variant="outlined" onClick={handleReset} fullWidth>
+              Reset to Defaults
+            </Button>
+          </Box>
+        </form>
+      </Box>
+    </Container>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,159 @@
+import { DEFAULT_MINIMUM_OUTPUT_AMOUNT } from 'uhrp-topic-manager';
+
+// Settings that shape the commitments this app publishes
+export interface CommitmentConfig {
+  overlayURLs: string[]; // Overlay nodes commitments are submitted to, the first also answering lookups
+  outputAmount: number; // Satoshis locked in each commitment output
+  minimumOutputAmount: number; // Fewest satoshis the overlay nodes admit in a commitment output, as set by their MIN_OUTPUT_AMOUNT
+  basket: string; // Wallet basket that holds commitment tokens
+  protocolID: string; // PushDrop protocol ID that commitment keys are derived under
+  defaultHostingDays: number; // Hosting time offered for new commitments and renewals
+}
+
+export const DEFAULT_COMMITMENT_CONFIG: CommitmentConfig = {
+  overlayURLs: ['https://staging-overlay.babbage.systems'],
+  outputAmount: 1000,
+  minimumOutputAmount: DEFAULT_MINIMUM_OUTPUT_AMOUNT,
+  basket: 'tm_uhrp',
+  protocolID: 'UHRP File Commitment',
+  defaultHostingDays: 30,
+};
+
+// The localStorage entry holding settings saved from the settings panel
+export const COMMITMENT_SETTINGS_ITEM = 'uhrp-commitment-settings';
+
+// The parts of Web Storage the settings need, so tests can supply their own
+export type SettingsStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+// Settings chosen at build time. Each variable is spelled out so that webpack can substitute it.
+const BUILD_ENV: Record<string, string | undefined> = {
+  OVERLAY_URL: process.env.OVERLAY_URL,
+  COMMITMENT_OUTPUT_AMOUNT: process.env.COMMITMENT_OUTPUT_AMOUNT,
+  MIN_OUTPUT_AMOUNT: process.env.MIN_OUTPUT_AMOUNT,
+  COMMITMENT_BASKET: process.env.COMMITMENT_BASKET,
+  COMMITMENT_PROTOCOL_ID: process.env.COMMITMENT_PROTOCOL_ID,
+  DEFAULT_HOSTING_DAYS: process.env.DEFAULT_HOSTING_DAYS,
+};
+
+// Thrown when settings cannot be used, listing every problem found
+export class CommitmentConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid commitment settings: ${problems.join(' ')}`);
+    this.name = 'CommitmentConfigError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, CommitmentConfigError.prototype);
+  }
+}
+
+/**
+ * Checks commitment settings, filling in any that are left out.
+ * @param {Partial<CommitmentConfig>} input - The settings to check, possibly parsed from untrusted JSON.
+ * @param {CommitmentConfig} defaults - Settings used for anything left out.
+ * @returns {CommitmentConfig} - The settings, with trailing slashes removed from overlay URLs.
+ * @throws {CommitmentConfigError} - If any setting cannot be used.
+ */
+export function validateCommitmentConfig(
+  input: Partial<CommitmentConfig>,
+  defaults: CommitmentConfig = DEFAULT_COMMITMENT_CONFIG
+): CommitmentConfig {
+  const config: CommitmentConfig = {
+    overlayURLs: input.overlayURLs ?? defaults.overlayURLs,
+    outputAmount: input.outputAmount ?? defaults.outputAmount,
+    minimumOutputAmount: input.minimumOutputAmount ?? defaults.minimumOutputAmount,
+    basket: input.basket ?? defaults.basket,
+    protocolID: input.protocolID ?? defaults.protocolID,
+    defaultHostingDays: input.defaultHostingDays ?? defaults.defaultHostingDays,
+  };
+  const problems: string[] = [];
+
+  if (!Array.isArray(config.overlayURLs) || config.overlayURLs.length === 0) {
+    problems.push('At least one overlay URL is required.');
+  } else {
+    config.overlayURLs = config.overlayURLs.map(url => (typeof url === 'string' ? url.trim().replace(/\/+$/, '') : url));
+    const invalid = config.overlayURLs.filter(url => typeof url !== 'string' || !/^https?:\/\/[^\s/]+/i.test(url));
+    if (invalid.length > 0) {
+      problems.push(`Overlay URLs must be HTTP or HTTPS URLs: ${invalid.join(', ')}.`);
+    }
+  }
+  if (!Number.isInteger(config.outputAmount) || config.outputAmount < 1) {
+    problems.push('The output amount must be a whole number of satoshis, at least 1.');
+  }
+  if (!Number.isInteger(config.minimumOutputAmount) || config.minimumOutputAmount < 0) {
+    problems.push('The minimum output amount must be a whole number of satoshis.');
+  }
+  if (typeof config.basket !== 'string' || config.basket.trim() === '') {
+    problems.push('The basket name must not be empty.');
+  }
+  // Protocol IDs follow BRC-43: letters, digits and single spaces, at least five characters
+  if (typeof config.protocolID !== 'string' || !/^[a-z0-9]+( [a-z0-9]+)*$/i.test(config.protocolID) || config.protocolID.length < 5) {
+    problems.push('The protocol ID must be at least 5 letters, digits and single spaces.');
+  }
+  if (!Number.isInteger(config.defaultHostingDays) || config.defaultHostingDays < 1) {
+    problems.push('The default hosting time must be a whole number of days, at least 1.');
+  }
+
+  if (problems.length > 0) {
+    throw new CommitmentConfigError(problems);
+  }
+  return config;
+}
+
+/**
+ * Reads commitment settings from environment variables.
+ * `OVERLAY_URL` may list several overlay nodes separated by commas; unset and empty variables are left out.
+ * @param {Record<string, string | undefined>} env - The variables, those chosen at build time by default.
+ * @returns {Partial<CommitmentConfig>} - The settings the environment gives, not yet validated.
+ */
+export function readEnvironmentConfig(env: Record<string, string | undefined> = BUILD_ENV): Partial<CommitmentConfig> {
+  const config: Partial<CommitmentConfig> = {};
+  if (env.OVERLAY_URL) config.overlayURLs = env.OVERLAY_URL.split(',').map(url => url.trim()).filter(url => url !== '');
+  if (env.COMMITMENT_OUTPUT_AMOUNT) config.outputAmount = Number(env.COMMITMENT_OUTPUT_AMOUNT);
+  if (env.MIN_OUTPUT_AMOUNT) config.minimumOutputAmount = Number(env.MIN_OUTPUT_AMOUNT);
+  if (env.COMMITMENT_BASKET) config.basket = env.COMMITMENT_BASKET;
+  if (env.COMMITMENT_PROTOCOL_ID) config.protocolID = env.COMMITMENT_PROTOCOL_ID;
+  if (env.DEFAULT_HOSTING_DAYS) config.defaultHostingDays = Number(env.DEFAULT_HOSTING_DAYS);
+  return config;
+}
+
+/**
+ * Loads the commitment settings: those saved from the settings panel, over those chosen by the environment.
+ * Saved settings that are no longer valid are ignored.
+ * @param {SettingsStorage} storage - Where settings are saved, localStorage by default.
+ * @param {Record<string, string | undefined>} env - The environment variables, those chosen at build time by default.
+ * @returns {CommitmentConfig} - The settings to use.
+ * @throws {CommitmentConfigError} - If the environment sets a value that cannot be used.
+ */
+export function loadCommitmentConfig(
+  storage: SettingsStorage = window.localStorage,
+  env: Record<string, string | undefined> = BUILD_ENV
+): CommitmentConfig {
+  const environmentConfig = validateCommitmentConfig(readEnvironmentConfig(env));
+  const saved = storage.getItem(COMMITMENT_SETTINGS_ITEM);
+  if (saved === null) return environmentConfig;
+  try {
+    return validateCommitmentConfig(JSON.parse(saved), environmentConfig);
+  } catch (error) {
+    return environmentConfig;
+  }
+}
+
+/**
+ * Validates and saves settings from the settings panel.
+ * @param {CommitmentConfig} config - The settings to save.
+ * @param {SettingsStorage} storage - Where settings are saved, localStorage by default.
+ * @returns {CommitmentConfig} - The settings as saved.
+ * @throws {CommitmentConfigError} - If any setting cannot be used, in which case nothing is saved.
+ */
+export function saveCommitmentConfig(config: CommitmentConfig, storage: SettingsStorage = window.localStorage): CommitmentConfig {
+  const validated = validateCommitmentConfig(config);
+  storage.setItem(COMMITMENT_SETTINGS_ITEM, JSON.stringify(validated));
+  return validated;
+}
+
+/**
+ * Forgets the settings saved from the settings panel, going back to those chosen by the environment.
+ * @param {SettingsStorage} storage - Where settings are saved, localStorage by default.
+ */
+export function resetCommitmentConfig(storage: SettingsStorage = window.localStorage): void {
+  storage.removeItem(COMMITMENT_SETTINGS_ITEM);
+}
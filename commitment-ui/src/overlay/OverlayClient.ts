@@ -0,0 +1,196 @@
+import { Logger, silentLogger } from 'uhrp-topic-manager';
+
+// What an overlay node did with a submitted transaction for one topic
+export interface AdmittanceInstructions {
+  outputsToAdmit: number[]; // Indices of the outputs admitted to the topic
+  coinsToRetain: number[]; // Indices of the spent inputs the topic keeps
+  coinsRemoved?: number[]; // Indices of the spent inputs the topic dropped
+}
+
+// Submitted Transaction Execution AcKnowledgment: the admittance instructions per topic
+export type STEAK = Record<string, AdmittanceInstructions>;
+
+// How one overlay node answered a submission
+export interface OverlayNodeResult {
+  host: string; // The overlay node's URL
+  accepted: boolean; // Whether the node admitted the output, or every listed output, to every topic
+  attempts: number; // How many requests were made, including retries
+  steak?: STEAK; // The node's acknowledgment, when it sent one
+  error?: string; // Why the node did not accept the output
+}
+
+// The outcome of submitting a transaction to every configured overlay node
+export interface OverlayBroadcastResult {
+  accepted: string[]; // Nodes that admitted the output
+  nodes: OverlayNodeResult[]; // Every node's answer, in the configured order
+}
+
+export interface OverlayClientConfig {
+  hosts: string[]; // Overlay node URLs the transaction is submitted to
+  retries?: number; // Further attempts after a network failure or server error, 3 by default
+  retryDelayMs?: number; // Delay before the first retry, doubling each time, 500ms by default
+  maxRetryDelayMs?: number; // Longest delay between retries, 8 seconds by default
+  logger?: Logger; // Receives each attempt and its outcome, silent by default
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>; // Waits between retries; replaceable in tests
+}
+
+export interface OverlaySubmitOptions {
+  topics?: string[]; // Topics the transaction is submitted to, `tm_uhrp` by default
+  outputIndex?: number | number[]; // The output, or outputs, that must be admitted to every topic, 0 by default
+  signal?: AbortSignal; // Cancels the submission and any waiting retries
+}
+
+// Thrown when no overlay node admitted a submitted output
+export class OverlayBroadcastError extends Error {
+  constructor(message: string, public readonly result: OverlayBroadcastResult) {
+    super(message);
+    this.name = 'OverlayBroadcastError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, OverlayBroadcastError.prototype);
+  }
+}
+
+// A failure after which the same request is not worth repeating
+class PermanentSubmitError extends Error {
+  constructor(message: string, public readonly steak?: STEAK) {
+    super(message);
+    Object.setPrototypeOf(this, PermanentSubmitError.prototype);
+  }
+}
+
+/**
+ * Parses and checks the shape of an overlay node's response to a submission.
+ * @param {unknown} body - The parsed JSON response body.
+ * @returns {STEAK} - The admittance instructions per topic.
+ * @throws {Error} - If the body is not a STEAK.
+ */
+export function parseSTEAK(body: unknown): STEAK {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new Error('The overlay response is not an object of admittance instructions.');
+  }
+  const isIndexList = (value: unknown): value is number[] =>
+    Array.isArray(value) && value.every(index => Number.isInteger(index) && index >= 0);
+
+  const steak: STEAK = {};
+  for (const [topic, instructions] of Object.entries(body as Record<string, unknown>)) {
+    const malformed = (): Error => new Error(`The overlay response has malformed admittance instructions for ${topic}.`);
+    if (
+      typeof instructions !== 'object' || instructions === null ||
+      !('outputsToAdmit' in instructions) || !isIndexList(instructions.outputsToAdmit) ||
+      !('coinsToRetain' in instructions) || !isIndexList(instructions.coinsToRetain)
+    ) {
+      throw malformed();
+    }
+    const coinsRemoved = 'coinsRemoved' in instructions ? instructions.coinsRemoved : undefined;
+    if (coinsRemoved !== undefined && !isIndexList(coinsRemoved)) {
+      throw malformed();
+    }
+    steak[topic] = {
+      outputsToAdmit: instructions.outputsToAdmit,
+      coinsToRetain: instructions.coinsToRetain,
+      ...(coinsRemoved !== undefined ? { coinsRemoved } : {}),
+    };
+  }
+  return steak;
+}
+
+/**
+ * Submits transactions to one or more overlay nodes and confirms that they admitted the expected output.
+ * Every node is tried in parallel; network failures and server errors are retried with exponential backoff,
+ * while rejections are not.
+ */
+export class OverlayClient {
+  private readonly logger: Logger;
+
+  constructor(private readonly config: OverlayClientConfig) {
+    if (config.hosts.length === 0) {
+      throw new Error('At least one overlay host is required.');
+    }
+    this.logger = config.logger ?? silentLogger;
+  }
+
+  /**
+   * Submits a transaction to every configured overlay node.
+   * @param {number[] | Uint8Array} beef - The transaction in BEEF format.
+   * @param {OverlaySubmitOptions} options - Topics, the output to confirm and an abort signal.
+   * @returns {Promise<OverlayBroadcastResult>} - Which nodes admitted the output, and how each one answered.
+   */
+  public async broadcast(beef: number[] | Uint8Array, options: OverlaySubmitOptions = {}): Promise<OverlayBroadcastResult> {
+    const nodes = await Promise.all(this.config.hosts.map(host => this.submitToNode(host, beef, options)));
+    options.signal?.throwIfAborted();
+    return { accepted: nodes.filter(node => node.accepted).map(node => node.host), nodes };
+  }
+
+  private async submitToNode(
+    host: string,
+    beef: number[] | Uint8Array,
+    { topics = ['tm_uhrp'], outputIndex = 0, signal }: OverlaySubmitOptions
+  ): Promise<OverlayNodeResult> {
+    const retries = this.config.retries ?? 3;
+    let attempts = 0;
+    for (;;) {
+      attempts++;
+      try {
+        const steak = await this.post(host, beef, topics, signal);
+        // A node that admits only some outputs keeps its acknowledgment, so callers can tell which were admitted
+        const rejections = (Array.isArray(outputIndex) ? outputIndex : [outputIndex]).flatMap(index => {
+          const missing = topics.filter(topic => !steak[topic]?.outputsToAdmit.includes(index));
+          return missing.length > 0 ? [`Output ${index} was not admitted to ${missing.join(', ')}`] : [];
+        });
+        if (rejections.length > 0) {
+          throw new PermanentSubmitError(rejections.join('; '), steak);
+        }
+        this.logger.info('Overlay node admitted the output', { host, outputIndex, topics });
+        return { host, accepted: true, attempts, steak };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (signal?.aborted || error instanceof PermanentSubmitError || attempts > retries) {
+          this.logger.warn('Overlay node did not accept the output', { host, attempts, error: message });
+          return {
+            host,
+            accepted: false,
+            attempts,
+            error: message,
+            ...(error instanceof PermanentSubmitError && error.steak ? { steak: error.steak } : {}),
+          };
+        }
+        const delay = Math.min((this.config.retryDelayMs ?? 500) * 2 ** (attempts - 1), this.config.maxRetryDelayMs ?? 8000);
+        this.logger.debug('Retrying overlay submission', { host, attempts, delay, error: message });
+        await (this.config.sleep ?? sleep)(delay, signal);
+      }
+    }
+  }
+
+  private async post(host: string, beef: number[] | Uint8Array, topics: string[], signal?: AbortSignal): Promise<STEAK> {
+    const response = await fetch(`${host}/submit`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Topics': JSON.stringify(topics),
+      },
+      body: new Uint8Array(beef),
+      signal,
+    });
+    const body = await response.text();
+    if (!response.ok) {
+      const message = `Overlay responded with status ${response.status}: ${body}`;
+      // Rate limits and server errors may pass; other client errors will not
+      if (response.status === 429 || response.status >= 500) throw new Error(message);
+      throw new PermanentSubmitError(message);
+    }
+    try {
+      return parseSTEAK(JSON.parse(body));
+    } catch (error) {
+      throw new PermanentSubmitError(error instanceof SyntaxError ? 'The overlay response is not JSON.' : (error as Error).message);
+    }
+  }
+}
+
+// Waits before a retry, ending early if the submission is cancelled
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
@@ -0,0 +1,42 @@
+import { PublicKey } from '@bsv/sdk';
+
+/**
+ * Supplies the keys of the host making a file storage commitment, and signs its commitments.
+ * Implementations keep the private key to themselves, so it never reaches the form or the logs.
+ */
+export interface HostSigner {
+  /**
+   * Returns the public identity key of the host.
+   * @returns {Promise<PublicKey>} - The host identity key.
+   */
+  getIdentityKey(): Promise<PublicKey>;
+
+  /**
+   * Returns the public key that locks a commitment token. The commitment names its host by this key.
+   * @param {string} protocolID - The protocol ID the commitment is created under.
+   * @param {string} keyID - Identifies the commitment, so that each can be locked by its own key.
+   * @returns {Promise<PublicKey>} - The locking key.
+   */
+  getLockingKey(protocolID: string, keyID: string): Promise<PublicKey>;
+
+  /**
+   * Signs the fields of a commitment with the private half of its locking key.
+   * @param {number[]} data - The commitment fields, concatenated in order.
+   * @param {string} protocolID - The protocol ID the commitment is created under.
+   * @param {string} keyID - Identifies the commitment, as given to getLockingKey.
+   * @returns {Promise<number[]>} - The DER-encoded signature over the SHA-256 hash of the data.
+   */
+  sign(data: number[], protocolID: string, keyID: string): Promise<number[]>;
+}
+
+/**
+ * Derives the Base58Check address that names the host in a commitment, which is the address of the key locking it.
+ * @param {HostSigner} signer - The signer holding the host keys.
+ * @param {string} protocolID - The protocol ID the commitment is created under.
+ * @param {string} keyID - Identifies the commitment, as given to getLockingKey.
+ * @returns {Promise<string>} - The mainnet P2PKH address of the locking key.
+ */
+export async function getHostAddress(signer: HostSigner, protocolID: string, keyID: string): Promise<string> {
+  const lockingKey = await signer.getLockingKey(protocolID, keyID);
+  return lockingKey.toAddress();
+}
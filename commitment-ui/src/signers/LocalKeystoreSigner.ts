@@ -0,0 +1,107 @@
+import { Hash, PrivateKey, PublicKey, Random, SymmetricKey, Utils } from '@bsv/sdk';
+import { HostSigner } from './HostSigner';
+
+// The localStorage entry holding the encrypted development key
+export const LOCAL_KEYSTORE_ITEM = 'uhrp-commitment-dev-keystore';
+
+const DEFAULT_ITERATIONS = 100000;
+
+// The parts of Web Storage the keystore needs, so tests can supply their own
+export type KeystoreStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+// What is persisted: the private key encrypted under a key derived from the passphrase
+interface KeystoreRecord {
+  version: 1;
+  salt: string; // Hex-encoded PBKDF2 salt
+  iterations: number; // PBKDF2-SHA512 iterations
+  encryptedKey: string; // Hex-encoded AES-GCM ciphertext of the private key
+}
+
+/**
+ * A development keystore that keeps a host key in localStorage, encrypted with a passphrase.
+ * Meant for working on the UI without a wallet; use the WalletSigner for real commitments,
+ * as the wallet cannot redeem tokens locked by this key to renew or revoke them.
+ */
+export class LocalKeystoreSigner implements HostSigner {
+  private constructor(private readonly privateKey: PrivateKey) {}
+
+  /**
+   * Checks whether a development key has been stored.
+   * @param {KeystoreStorage} storage - Where the keystore is kept, localStorage by default.
+   * @returns {boolean} - True if a key is stored.
+   */
+  public static exists(storage: KeystoreStorage = window.localStorage): boolean {
+    return storage.getItem(LOCAL_KEYSTORE_ITEM) !== null;
+  }
+
+  /**
+   * Unlocks the stored development key, creating and storing a new random key the first time.
+   * @param {string} passphrase - The passphrase the key is encrypted with.
+   * @param {KeystoreStorage} storage - Where the keystore is kept, localStorage by default.
+   * @param {number} iterations - PBKDF2 iterations used when creating a new keystore.
+   * @returns {Promise<LocalKeystoreSigner>} - A signer for the unlocked key.
+   * @throws {Error} - If the passphrase is empty or does not unlock the stored key.
+   */
+  public static async unlock(
+    passphrase: string,
+    storage: KeystoreStorage = window.localStorage,
+    iterations: number = DEFAULT_ITERATIONS
+  ): Promise<LocalKeystoreSigner> {
+    if (!passphrase) {
+      throw new Error('A passphrase is required to unlock the local keystore.');
+    }
+
+    const stored = storage.getItem(LOCAL_KEYSTORE_ITEM);
+    if (stored === null) {
+      const privateKey = PrivateKey.fromRandom();
+      const salt = Random(16);
+      const encryptedKey = this.deriveKey(passphrase, salt, iterations).encrypt(privateKey.toArray('be', 32)) as number[];
+      const record: KeystoreRecord = {
+        version: 1,
+        salt: Utils.toHex(salt),
+        iterations,
+        encryptedKey: Utils.toHex(encryptedKey),
+      };
+      storage.setItem(LOCAL_KEYSTORE_ITEM, JSON.stringify(record));
+      return new LocalKeystoreSigner(privateKey);
+    }
+
+    const record = JSON.parse(stored) as KeystoreRecord;
+    if (record.version !== 1) {
+      throw new Error(`Unsupported local keystore version: ${record.version}`);
+    }
+    let keyBytes: number[];
+    try {
+      const key = this.deriveKey(passphrase, Utils.toArray(record.salt, 'hex'), record.iterations);
+      keyBytes = key.decrypt(Utils.toArray(record.encryptedKey, 'hex')) as number[];
+    } catch (error) {
+      throw new Error('Incorrect passphrase for the local keystore.');
+    }
+    return new LocalKeystoreSigner(new PrivateKey(keyBytes));
+  }
+
+  /**
+   * Deletes the stored development key.
+   * @param {KeystoreStorage} storage - Where the keystore is kept, localStorage by default.
+   */
+  public static clear(storage: KeystoreStorage = window.localStorage): void {
+    storage.removeItem(LOCAL_KEYSTORE_ITEM);
+  }
+
+  public async getIdentityKey(): Promise<PublicKey> {
+    return this.privateKey.toPublicKey();
+  }
+
+  // The keystore holds a single key, which locks every commitment, so the IDs are not needed
+  public async getLockingKey(): Promise<PublicKey> {
+    return this.privateKey.toPublicKey();
+  }
+
+  public async sign(data: number[]): Promise<number[]> {
+    return this.privateKey.sign(data).toDER() as number[];
+  }
+
+  private static deriveKey(passphrase: string, salt: number[], iterations: number): SymmetricKey {
+    return new SymmetricKey(Hash.pbkdf2(Utils.toArray(passphrase, 'utf8'), salt, iterations, 32, 'sha512'));
+  }
+}
@@ -0,0 +1,32 @@
+import { createSignature, getPublicKey } from '@babbage/sdk-ts';
+import { PublicKey } from '@bsv/sdk';
+import { HostSigner } from './HostSigner';
+
+/**
+ * Takes the host identity key from the user's Babbage wallet.
+ * The wallet prompts the user the first time the key is requested; the private key stays in the wallet.
+ * Each commitment is locked by a key the wallet derives for its protocol and key IDs, as pushdrop does,
+ * so the wallet can later redeem the token to renew or revoke it.
+ */
+export class WalletSigner implements HostSigner {
+  private identityKey?: PublicKey;
+
+  public async getIdentityKey(): Promise<PublicKey> {
+    if (!this.identityKey) {
+      const identityKeyHex: string = await getPublicKey({
+        identityKey: true,
+        reason: 'Identify you as the host of the files you commit to storing',
+      });
+      this.identityKey = PublicKey.fromString(identityKeyHex);
+    }
+    return this.identityKey;
+  }
+
+  public async getLockingKey(protocolID: string, keyID: string): Promise<PublicKey> {
+    return PublicKey.fromString(await getPublicKey({ protocolID, keyID }));
+  }
+
+  public async sign(data: number[], protocolID: string, keyID: string): Promise<number[]> {
+    return Array.from(await createSignature({ data: Uint8Array.from(data), protocolID, keyID }));
+  }
+}
@@ -0,0 +1,76 @@
+import { PrivateKey, Utils } from '@bsv/sdk';
+import { LocalKeystoreSigner, KeystoreStorage, LOCAL_KEYSTORE_ITEM } from '../signers/LocalKeystoreSigner';
+import { HostSigner, getHostAddress } from '../signers/HostSigner';
+
+// In-memory stand-in for localStorage
+const createStorage = (): KeystoreStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+// Keeps the tests fast; real keystores use the default iteration count
+const ITERATIONS = 1000;
+
+describe('LocalKeystoreSigner', () => {
+  it('should create a key on first unlock and return the same key afterwards', async () => {
+    const storage = createStorage();
+    expect(LocalKeystoreSigner.exists(storage)).toBe(false);
+
+    const created = await LocalKeystoreSigner.unlock('correct horse', storage, ITERATIONS);
+    expect(LocalKeystoreSigner.exists(storage)).toBe(true);
+
+    const unlocked = await LocalKeystoreSigner.unlock('correct horse', storage, ITERATIONS);
+    expect((await unlocked.getIdentityKey()).toString()).toBe((await created.getIdentityKey()).toString());
+  });
+
+  it('should store the key encrypted', async () => {
+    const storage = createStorage();
+    const signer = await LocalKeystoreSigner.unlock('correct horse', storage, ITERATIONS);
+    const stored = storage.items.get(LOCAL_KEYSTORE_ITEM) as string;
+
+    expect(JSON.parse(stored)).toEqual({
+      version: 1,
+      salt: expect.stringMatching(/^[0-9a-f]{32}$/),
+      iterations: ITERATIONS,
+      encryptedKey: expect.stringMatching(/^[0-9a-f]+$/),
+    });
+    expect(stored).not.toContain(Utils.toHex((await signer.getIdentityKey()).encode(true) as number[]));
+  });
+
+  it('should reject an incorrect or empty passphrase', async () => {
+    const storage = createStorage();
+    await LocalKeystoreSigner.unlock('correct horse', storage, ITERATIONS);
+
+    await expect(LocalKeystoreSigner.unlock('battery staple', storage)).rejects.toThrow('Incorrect passphrase for the local keystore.');
+    await expect(LocalKeystoreSigner.unlock('', storage)).rejects.toThrow('A passphrase is required to unlock the local keystore.');
+  });
+
+  it('should forget the key when cleared', async () => {
+    const storage = createStorage();
+    const first = await LocalKeystoreSigner.unlock('correct horse', storage, ITERATIONS);
+    LocalKeystoreSigner.clear(storage);
+
+    const second = await LocalKeystoreSigner.unlock('correct horse', storage, ITERATIONS);
+    expect((await second.getIdentityKey()).toString()).not.toBe((await first.getIdentityKey()).toString());
+  });
+
+  it('should derive the host address from the locking key', async () => {
+    const signer = await LocalKeystoreSigner.unlock('correct horse', createStorage(), ITERATIONS);
+    const address = await getHostAddress(signer, 'UHRP File Commitment', 'key');
+
+    const { prefix, data } = Utils.fromBase58Check(address);
+    expect(prefix).toEqual([0x00]);
+    expect(data).toHaveLength(20);
+    expect(address).toBe((await signer.getLockingKey()).toAddress());
+
+    // A wallet locks each commitment with its own key, so the host address is not that of the identity key
+    const lockingKey = PrivateKey.fromRandom().toPublicKey();
+    const walletSigner: HostSigner = { getIdentityKey: () => signer.getIdentityKey(), getLockingKey: async () => lockingKey, sign: async () => [] };
+    await expect(getHostAddress(walletSigner, 'UHRP File Commitment', 'key')).resolves.toBe(lockingKey.toAddress());
+  });
+});
@@ -0,0 +1,133 @@
+import { OverlayClient, OverlayBroadcastError, parseSTEAK } from '../overlay/OverlayClient';
+import { submitToOverlay } from '../utils/publishCommitment';
+
+const BEEF = [1, 2, 3];
+const ADMITTED = { tm_uhrp: { outputsToAdmit: [0], coinsToRetain: [] } };
+
+describe('parseSTEAK', () => {
+  it('should return the admittance instructions per topic', () => {
+    expect(parseSTEAK({ tm_uhrp: { outputsToAdmit: [0, 2], coinsToRetain: [1], coinsRemoved: [0] } })).toEqual({
+      tm_uhrp: { outputsToAdmit: [0, 2], coinsToRetain: [1], coinsRemoved: [0] },
+    });
+    expect(parseSTEAK({})).toEqual({});
+  });
+
+  it('should reject responses that are not admittance instructions', () => {
+    expect(() => parseSTEAK({ uhrpURL: 'uhrp://abc' })).toThrow('The overlay response has malformed admittance instructions for uhrpURL.');
+    expect(() => parseSTEAK({ tm_uhrp: { outputsToAdmit: ['0'], coinsToRetain: [] } })).toThrow('malformed admittance instructions for tm_uhrp');
+    expect(() => parseSTEAK({ tm_uhrp: { outputsToAdmit: [0], coinsToRetain: [], coinsRemoved: null } })).toThrow('malformed');
+    expect(() => parseSTEAK([])).toThrow('The overlay response is not an object of admittance instructions.');
+    expect(() => parseSTEAK(null)).toThrow('The overlay response is not an object of admittance instructions.');
+  });
+});
+
+describe('OverlayClient', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+  let delays: number[];
+  const sleep = async (ms: number) => { delays.push(ms); };
+
+  // Answers each host's submissions in turn with the given responses
+  const stubHosts = (responses: Record<string, Array<() => Response>>) => {
+    fetchMock.mockImplementation(async (url: string) => {
+      const next = responses[url.replace(/\/submit$/, '')].shift();
+      if (!next) throw new Error('Unexpected request');
+      return next();
+    });
+  };
+  const steak = (body: object) => () => new Response(JSON.stringify(body));
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    delays = [];
+  });
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should submit the BEEF to every host under the tm_uhrp topic', async () => {
+    stubHosts({ 'https://a.example': [steak(ADMITTED)], 'https://b.example': [steak(ADMITTED)] });
+    const client = new OverlayClient({ hosts: ['https://a.example', 'https://b.example'], sleep });
+
+    const result = await client.broadcast(BEEF);
+    expect(result.accepted).toEqual(['https://a.example', 'https://b.example']);
+    expect(result.nodes[0]).toEqual({ host: 'https://a.example', accepted: true, attempts: 1, steak: ADMITTED });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://a.example/submit');
+    expect(init.headers['X-Topics']).toBe('["tm_uhrp"]');
+    expect(Array.from(init.body)).toEqual(BEEF);
+  });
+
+  it('should retry network failures and server errors with exponential backoff', async () => {
+    stubHosts({
+      'https://a.example': [
+        () => { throw new TypeError('fetch failed'); },
+        () => new Response('busy', { status: 503 }),
+        () => new Response('slow down', { status: 429 }),
+        steak(ADMITTED),
+      ],
+    });
+    const client = new OverlayClient({ hosts: ['https://a.example'], retryDelayMs: 100, sleep });
+
+    const result = await client.broadcast(BEEF);
+    expect(result.nodes[0]).toEqual(expect.objectContaining({ accepted: true, attempts: 4 }));
+    expect(delays).toEqual([100, 200, 400]);
+  });
+
+  it('should give up after the configured retries, capping the delay', async () => {
+    stubHosts({ 'https://a.example': Array(4).fill(() => new Response('down', { status: 500 })) });
+    const client = new OverlayClient({ hosts: ['https://a.example'], retries: 3, retryDelayMs: 1000, maxRetryDelayMs: 1500, sleep });
+
+    const result = await client.broadcast(BEEF);
+    expect(result.accepted).toEqual([]);
+    expect(result.nodes[0]).toEqual({ host: 'https://a.example', accepted: false, attempts: 4, error: 'Overlay responded with status 500: down' });
+    expect(delays).toEqual([1000, 1500, 1500]);
+  });
+
+  it('should not retry rejections or outputs the node did not admit', async () => {
+    const notAdmitted = { tm_uhrp: { outputsToAdmit: [1], coinsToRetain: [] } };
+    stubHosts({
+      'https://a.example': [() => new Response('bad transaction', { status: 400 })],
+      'https://b.example': [steak(notAdmitted)],
+      'https://c.example': [() => new Response('not json')],
+    });
+    const client = new OverlayClient({ hosts: ['https://a.example', 'https://b.example', 'https://c.example'], sleep });
+
+    const result = await client.broadcast(BEEF, { outputIndex: 0 });
+    expect(result.accepted).toEqual([]);
+    expect(result.nodes.map(node => node.error)).toEqual([
+      'Overlay responded with status 400: bad transaction',
+      'Output 0 was not admitted to tm_uhrp',
+      'The overlay response is not JSON.',
+    ]);
+    expect(result.nodes[1].steak).toEqual(notAdmitted);
+    expect(delays).toEqual([]);
+  });
+
+  it('should keep the acknowledgment of a node that admits only some of several outputs', async () => {
+    const partial = { tm_uhrp: { outputsToAdmit: [0, 2], coinsToRetain: [] } };
+    stubHosts({ 'https://a.example': [steak(partial)] });
+    const client = new OverlayClient({ hosts: ['https://a.example'], sleep });
+
+    const result = await client.broadcast(BEEF, { outputIndex: [0, 1, 2] });
+    expect(result.accepted).toEqual([]);
+    expect(result.nodes[0]).toEqual(expect.objectContaining({ attempts: 1, error: 'Output 1 was not admitted to tm_uhrp', steak: partial }));
+  });
+
+  it('should report which hosts accepted when only some do', async () => {
+    stubHosts({ 'https://a.example': [() => new Response('no', { status: 403 })], 'https://b.example': [steak(ADMITTED)] });
+
+    const result = await submitToOverlay(BEEF, ['https://a.example', 'https://b.example']);
+    expect(result.accepted).toEqual(['https://b.example']);
+  });
+
+  it('should throw with every node\'s answer when no node admits the token', async () => {
+    stubHosts({ 'https://a.example': [steak({})] });
+
+    const error = await submitToOverlay(BEEF, 'https://a.example').catch(e => e);
+    expect(error).toBeInstanceOf(OverlayBroadcastError);
+    expect(error.message).toBe('Failed to submit UHRP advertisement');
+    expect(error.result.nodes[0].error).toBe('Output 0 was not admitted to tm_uhrp');
+  });
+});
@@ -0,0 +1,124 @@
+import { getURLForFile } from 'uhrp-url';
+import { HttpStorageUploader } from '../uploaders/HttpStorageUploader';
+import { MemoryStorageUploader } from '../uploaders/MemoryStorageUploader';
+import { publishLocalFileCommitment, preflightLocalFileCommitment, LocalFilePhase } from '../utils/publishLocalFile';
+import { publishCommitment } from '../utils/publishCommitment';
+import { preflightCommitment } from '../utils/preflightCommitment';
+import { HostSigner } from '../signers/HostSigner';
+
+// The wallet is not available in tests, so publishing itself is stubbed out
+jest.mock('../utils/publishCommitment', () => ({
+  publishCommitment: jest.fn().mockResolvedValue('uhrp-url-from-overlay'),
+}));
+jest.mock('../utils/preflightCommitment', () => ({
+  preflightCommitment: jest.fn().mockResolvedValue({ ok: true }),
+}));
+
+const FILE_BYTES = Buffer.from('hello local file');
+
+describe('HttpStorageUploader', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+  });
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should PUT the file under its name and serve it from there by default', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 201 }));
+    const uploader = new HttpStorageUploader({ endpoint: 'https://files.example/uploads/', headers: { Authorization: 'Bearer token' } });
+
+    const url = await uploader.upload(new Blob([FILE_BYTES]), { fileName: 'my file.txt' });
+    expect(url).toBe('https://files.example/uploads/my%20file.txt');
+    const [target, init] = fetchMock.mock.calls[0];
+    expect(target).toBe('https://files.example/uploads/my%20file.txt');
+    expect(init.method).toBe('PUT');
+    expect(init.headers).toEqual({ Authorization: 'Bearer token' });
+    expect(Buffer.from(await (init.body as Blob).arrayBuffer())).toEqual(FILE_BYTES);
+  });
+
+  it('should POST a form and take the URL from the JSON response', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ url: 'https://cdn.example/abc' }), { status: 200 }));
+    const uploader = new HttpStorageUploader({ endpoint: 'https://files.example/upload', method: 'POST', fieldName: 'upload' });
+
+    await expect(uploader.upload(new Blob([FILE_BYTES]), { fileName: 'a.txt' })).resolves.toBe('https://cdn.example/abc');
+    const form = fetchMock.mock.calls[0][1].body as FormData;
+    expect((form.get('upload') as File).name).toBe('a.txt');
+  });
+
+  it('should resolve a relative Location header against the upload URL', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 201, headers: { Location: '/files/42' } }));
+    const uploader = new HttpStorageUploader({ endpoint: 'https://files.example/upload', method: 'POST' });
+
+    await expect(uploader.upload(new Blob([FILE_BYTES]))).resolves.toBe('https://files.example/files/42');
+  });
+
+  it('should fail when the host rejects the upload or does not say where the file is', async () => {
+    const uploader = new HttpStorageUploader({ endpoint: 'https://files.example/upload', method: 'POST' });
+
+    fetchMock.mockResolvedValueOnce(new Response('denied', { status: 403 }));
+    await expect(uploader.upload(new Blob([FILE_BYTES]))).rejects.toThrow('Upload failed with status 403');
+
+    fetchMock.mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    await expect(uploader.upload(new Blob([FILE_BYTES]))).rejects.toThrow('The storage host did not say where the file is served.');
+  });
+});
+
+describe('publishLocalFileCommitment', () => {
+  it('should commit to the uploaded URL with the hash computed before upload', async () => {
+    const originalFetch = global.fetch;
+    const fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    const uploader = new MemoryStorageUploader();
+    const phases: LocalFilePhase[] = [];
+
+    const result = await publishLocalFileCommitment({
+      file: new File([FILE_BYTES], 'notes.txt'),
+      uploader,
+      hostingMinutes: 60,
+      signer: {} as HostSigner,
+      onPhase: phase => phases.push(phase),
+    });
+    global.fetch = originalFetch;
+
+    expect(result).toBe('uhrp-url-from-overlay');
+    expect(phases).toEqual(['hashing', 'uploading', 'publishing']);
+    expect(Array.from(uploader.files.keys())).toEqual(['https://storage.invalid/1/notes.txt']);
+
+    const args = (publishCommitment as jest.Mock).mock.calls[0][0];
+    expect(args.url).toBe('https://storage.invalid/1/notes.txt');
+    expect(args.fileHash.contentLength).toBe(FILE_BYTES.length);
+    expect(args.fileHash.uhrpURL).toBe(getURLForFile(FILE_BYTES));
+    // The file is not downloaded again to hash it
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('preflightLocalFileCommitment', () => {
+  it('should check the uploaded copy against the hash computed before upload, publishing nothing', async () => {
+    (publishCommitment as jest.Mock).mockClear();
+    const uploader = new MemoryStorageUploader();
+    const phases: LocalFilePhase[] = [];
+
+    const report = await preflightLocalFileCommitment({
+      file: new File([FILE_BYTES], 'notes.txt'),
+      uploader,
+      hostingMinutes: 60,
+      signer: {} as HostSigner,
+      onPhase: phase => phases.push(phase),
+      minimumOutputAmount: 5000,
+    });
+
+    expect(report).toEqual({ ok: true });
+    expect(phases).toEqual(['hashing', 'uploading', 'checking']);
+    const args = (preflightCommitment as jest.Mock).mock.calls[0][0];
+    expect(args.url).toBe('https://storage.invalid/1/notes.txt');
+    expect(args.expectedHash.contentLength).toBe(FILE_BYTES.length);
+    expect(args.expectedHash.uhrpURL).toBe(getURLForFile(FILE_BYTES));
+    expect(args.minimumOutputAmount).toBe(5000);
+    expect(publishCommitment).not.toHaveBeenCalled();
+  });
+});
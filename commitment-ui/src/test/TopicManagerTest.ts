@@ -1,8 +1,9 @@
 import * as React from 'react';
-import { TopicManager } from '../TopicManager';
-import { publishCommitment } from '../utils/publishCommitment';
+import { TopicManager, CommitmentErrorCode } from '../TopicManager';
+import { TestLogSink } from 'uhrp-topic-manager';
+import { publishCommitment, createCommitmentScript } from '../utils/publishCommitment';
 import CommitmentForm from '../components/CommitmentForm';
-import { PrivateKey, PublicKey, Hash } from '@bsv/sdk';
+import { PrivateKey, PublicKey, Script, OP } from '@bsv/sdk';
 import crypto from 'crypto';
 import { render, fireEvent, screen } from '@testing-library/react';
 import fetchMock from 'jest-fetch-mock';
@@ -17,23 +18,28 @@ const VALID_HASH = crypto.createHash('sha256').update('some valid input').digest
 const VALID_URL = 'https://valid.url';
 const VALID_TIMESTAMP = Math.floor(Date.now() / 1000) + 1000;
 const VALID_FILE_SIZE = '1024';
-const privateKeyHex = 'bf4d159ac007184e0d458b7d6e3deb0e645269f55f13ba10f24e654ffc194daa';
-const privateKey = PrivateKey.fromString(privateKeyHex, 'hex');
+const privateKey = PrivateKey.fromRandom();
 const pubKey = PublicKey.fromPrivateKey(privateKey);
 
 const signCommitment = (fields: (string | Buffer)[]): Buffer => {
   const message = Buffer.concat(fields.map(field => (typeof field === 'string' ? Buffer.from(field, 'utf8') : field)));
-  const sha256Message = Hash.sha256(Array.from(message));
-  const signature = privateKey.sign(sha256Message);
-  return Buffer.from(signature.toDER());
+  const signature = privateKey.sign(Array.from(message));
+  return Buffer.from(signature.toDER() as number[]);
 };
 
-// Helper function to generate mock outputScript
+// Helper function to generate a mock outputScript laid out the way pushdrop.create does,
+// with the signature as the last field
 const createOutputScript = (fields: (string | Buffer)[]): Buffer => {
-  return Buffer.concat(fields.map(field => {
-    const fieldBuffer = typeof field === 'string' ? Buffer.from(field, 'utf8') : field;
-    return Buffer.concat([Buffer.from([fieldBuffer.length]), fieldBuffer]);
-  }));
+  const script = new Script()
+    .writeBin(pubKey.encode(true) as number[])
+    .writeOpCode(OP.OP_CHECKSIG);
+  fields.forEach(field => {
+    script.writeBin(Array.from(typeof field === 'string' ? Buffer.from(field, 'utf8') : field));
+  });
+  for (let undropped = fields.length; undropped > 0; undropped -= 2) {
+    script.writeOpCode(undropped > 1 ? OP.OP_2DROP : OP.OP_DROP);
+  }
+  return Buffer.from(script.toBinary());
 };
 
 // Test cases for Topic Manager commitment validation
@@ -65,7 +71,7 @@ describe('Topic Manager Commitment Validation', () => {
       VALID_SIGNATURE_BUFFER
     ]);
 
-    const isValid = TopicManager.evaluateCommitment(validOutputScript, pubKey);
+    const isValid = TopicManager.evaluateCommitment(validOutputScript);
     expect(isValid).toBe(true);
   });
 
@@ -81,7 +87,7 @@ describe('Topic Manager Commitment Validation', () => {
       VALID_SIGNATURE_BUFFER
     ]);
 
-    const isValid = TopicManager.evaluateCommitment(invalidOutputScript, pubKey);
+    const isValid = TopicManager.evaluateCommitment(invalidOutputScript);
     expect(isValid).toBe(false);
   });
 
@@ -98,7 +104,7 @@ describe('Topic Manager Commitment Validation', () => {
       VALID_SIGNATURE_BUFFER
     ]);
 
-    const isValid = TopicManager.evaluateCommitment(expiredOutputScript, pubKey);
+    const isValid = TopicManager.evaluateCommitment(expiredOutputScript);
     expect(isValid).toBe(false);
   });
 
@@ -115,7 +121,23 @@ describe('Topic Manager Commitment Validation', () => {
       VALID_SIGNATURE_BUFFER
     ]);
 
-    const isValid = TopicManager.evaluateCommitment(invalidOutputScript, pubKey);
+    const isValid = TopicManager.evaluateCommitment(invalidOutputScript);
+    expect(isValid).toBe(false);
+  });
+
+  it('should reject a commitment that is not an advertisement', () => {
+    const fields = [
+      UHRP_PROTOCOL_ADDRESS,
+      pubKey.toString(),
+      Buffer.from(VALID_HASH, 'hex'),
+      'revoke',
+      VALID_URL,
+      VALID_TIMESTAMP.toString(),
+      VALID_FILE_SIZE
+    ];
+    const revokeOutputScript = createOutputScript([...fields, signCommitment(fields)]);
+
+    const isValid = TopicManager.evaluateCommitment(revokeOutputScript);
     expect(isValid).toBe(false);
   });
 
@@ -132,12 +154,172 @@ describe('Topic Manager Commitment Validation', () => {
       invalidSignatureBuffer
     ]);
 
-    const isValid = TopicManager.evaluateCommitment(invalidOutputScript, pubKey);
+    const isValid = TopicManager.evaluateCommitment(invalidOutputScript);
+    expect(isValid).toBe(false);
+  });
+
+  it('should admit a commitment with fields longer than 255 bytes', () => {
+    const longURL = `${VALID_URL}/${'a'.repeat(300)}`;
+    const fields = [
+      UHRP_PROTOCOL_ADDRESS,
+      pubKey.toString(),
+      Buffer.from(VALID_HASH, 'hex'),
+      'advertise',
+      longURL,
+      VALID_TIMESTAMP.toString(),
+      VALID_FILE_SIZE
+    ];
+    const longOutputScript = createOutputScript([...fields, signCommitment(fields)]);
+
+    const isValid = TopicManager.evaluateCommitment(longOutputScript);
+    expect(isValid).toBe(true);
+  });
+
+  it('should reject a script that is not a PushDrop token', () => {
+    const fields = [
+      UHRP_PROTOCOL_ADDRESS,
+      pubKey.toString(),
+      Buffer.from(VALID_HASH, 'hex'),
+      'advertise',
+      VALID_URL,
+      VALID_TIMESTAMP.toString(),
+      VALID_FILE_SIZE
+    ];
+    // The length-prefixed fields alone, without the locking key and drops
+    const lengthPrefixedScript = Buffer.concat([...fields, signCommitment(fields)].map(field => {
+      const fieldBuffer = typeof field === 'string' ? Buffer.from(field, 'utf8') : field;
+      return Buffer.concat([Buffer.from([fieldBuffer.length]), fieldBuffer]);
+    }));
+
+    const isValid = TopicManager.evaluateCommitment(lengthPrefixedScript);
     expect(isValid).toBe(false);
   });
 });
 
+describe('Topic Manager validateCommitment', () => {
+  const validFields = (): (string | Buffer)[] => [
+    UHRP_PROTOCOL_ADDRESS,
+    pubKey.toString(),
+    Buffer.from(VALID_HASH, 'hex'),
+    'advertise',
+    VALID_URL,
+    VALID_TIMESTAMP.toString(),
+    VALID_FILE_SIZE
+  ];
+
+  // Builds a correctly signed token, replacing the given fields before signing
+  const signedOutputScript = (overrides: Record<number, string | Buffer> = {}): Buffer => {
+    const fields = validFields();
+    Object.entries(overrides).forEach(([index, value]) => {
+      fields[Number(index)] = value;
+    });
+    return createOutputScript([...fields, signCommitment(fields)]);
+  };
+
+  it('should return the decoded commitment when valid', () => {
+    const result = TopicManager.validateCommitment(signedOutputScript());
+    expect(result).toEqual({
+      valid: true,
+      commitment: {
+        hash: VALID_HASH,
+        url: VALID_URL,
+        expiryTime: VALID_TIMESTAMP,
+        fileSize: 1024,
+        host: pubKey.toString()
+      }
+    });
+  });
+
+  it.each([
+    ['a script that is not a PushDrop token', Buffer.from('not a script'), CommitmentErrorCode.MALFORMED_SCRIPT],
+    ['a protocol address that is not UHRP', signedOutputScript({ 0: 'invalid_protocol' }), CommitmentErrorCode.INVALID_PROTOCOL],
+    ['a hash that is not 32 bytes', signedOutputScript({ 2: Buffer.from('abcd', 'hex') }), CommitmentErrorCode.BAD_HASH],
+    ['an operation other than advertise', signedOutputScript({ 3: 'revoke' }), CommitmentErrorCode.BAD_OPERATION],
+    ['a URL that cannot be parsed', signedOutputScript({ 4: 'not a url' }), CommitmentErrorCode.BAD_URL],
+    ['an expiry time in the past', signedOutputScript({ 5: '1000' }), CommitmentErrorCode.EXPIRED],
+    ['a file size of zero', signedOutputScript({ 6: '0' }), CommitmentErrorCode.BAD_SIZE],
+    ['the address of another host', signedOutputScript({ 1: PrivateKey.fromRandom().toPublicKey().toAddress() }), CommitmentErrorCode.HOST_MISMATCH],
+    ['the identity key of another host', signedOutputScript({ 1: PrivateKey.fromRandom().toPublicKey().toString() }), CommitmentErrorCode.HOST_MISMATCH],
+    ['a signature by another key', createOutputScript([...validFields(), Buffer.from(PrivateKey.fromRandom().sign(Array.from(Buffer.from('other'))).toDER() as number[])]), CommitmentErrorCode.BAD_SIGNATURE],
+    ['a signature that is not DER', createOutputScript([...validFields(), Buffer.from('invalidsignature')]), CommitmentErrorCode.BAD_SIGNATURE]
+  ])('should report %s', (_, outputScript, code) => {
+    const result = TopicManager.validateCommitment(outputScript);
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.code).toBe(code);
+      expect(result.details).not.toHaveLength(0);
+    }
+  });
+
+  it('should accept the P2PKH address of the locking key as the host', () => {
+    const result = TopicManager.validateCommitment(signedOutputScript({ 1: pubKey.toAddress() }));
+    expect(result.valid && result.commitment.host).toBe(pubKey.toAddress());
+  });
+
+  it('should decode the hosting terms a commitment carries', () => {
+    const fields = [...validFields(), '1', '500', '', 'https://host.example.com/contact'];
+    const result = TopicManager.validateCommitment(createOutputScript([...fields, signCommitment(fields)]));
+    expect(result).toEqual({
+      valid: true,
+      commitment: expect.objectContaining({
+        hash: VALID_HASH,
+        terms: { pricePerGB: 500, contactURL: 'https://host.example.com/contact' }
+      })
+    });
+  });
+
+  it.each([
+    ['an unknown terms version', ['2', '500', '', '']],
+    ['a negative price', ['1', '-1', '', '']],
+    ['a bandwidth limit of zero', ['1', '', '0', '']],
+    ['a contact that is not a URL', ['1', '', '', 'call me']]
+  ])('should report hosting terms with %s', (_, terms) => {
+    const fields = [...validFields(), ...terms];
+    const result = TopicManager.validateCommitment(createOutputScript([...fields, signCommitment(fields)]));
+    expect(result.valid === false && result.code).toBe(CommitmentErrorCode.BAD_TERMS);
+  });
 
+  it('should report a field count that matches no layout', () => {
+    const fields = [...validFields(), '1', '500'];
+    const result = TopicManager.validateCommitment(createOutputScript([...fields, signCommitment(fields)]));
+    expect(result).toEqual({ valid: false, code: CommitmentErrorCode.MALFORMED_SCRIPT, details: 'Expected 7 or 11 fields, found 9.' });
+  });
+
+  it('should log the rejection reason', () => {
+    const logs = new TestLogSink();
+    TopicManager.validateCommitment(signedOutputScript({ 6: '0' }), logs);
 
+    expect(logs.at('warn')).toEqual([{
+      level: 'warn',
+      message: 'Commitment evaluation failed',
+      data: { code: CommitmentErrorCode.BAD_SIZE, details: 'Invalid file size: 0' }
+    }]);
+  });
 
+  it('should not log the signature of a valid commitment', () => {
+    const logs = new TestLogSink();
+    TopicManager.validateCommitment(signedOutputScript(), logs);
 
+    // Signing is deterministic, so this is the signature carried by the token
+    const signatureHex = signCommitment(validFields()).toString('hex');
+    expect(logs.at('info').map(entry => entry.message)).toEqual(['Commitment is valid']);
+    expect(JSON.stringify(logs.entries)).not.toContain(signatureHex);
+  });
+
+  it('should admit the commitments publishCommitment builds, naming the host by the locking key', async () => {
+    const signer = {
+      getIdentityKey: async () => pubKey,
+      getLockingKey: async () => pubKey,
+      sign: async (data: number[]) => privateKey.sign(data).toDER() as number[],
+    };
+    const { script, address } = await createCommitmentScript({
+      signer,
+      protocolID: 'UHRP File Commitment',
+      keyID: '1',
+      fields: [Buffer.from(VALID_HASH, 'hex'), 'advertise', VALID_URL, VALID_TIMESTAMP.toString(), VALID_FILE_SIZE],
+    });
+    expect(address).toBe(pubKey.toAddress());
+    const result = TopicManager.validateCommitment(Buffer.from(script, 'hex'));
+    expect(result.valid && result.commitment.host).toBe(address);
+  });
+});
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createAction, getTransactionOutputs } from '@babbage/sdk-ts';
+import { PrivateKey } from '@bsv/sdk';
+import { runCli, CliIO } from '../cli/cli';
+import { FileKeystoreStorage } from '../cli/FileKeystoreStorage';
+import { createCommitmentScript, publishCommitment } from '../utils/publishCommitment';
+import { LocalKeystoreSigner } from '../signers/LocalKeystoreSigner';
+import { WalletSigner } from '../signers/WalletSigner';
+
+// The wallet is not available in tests, so the basket is stubbed out, and so is publishing itself
+jest.mock('@babbage/sdk-ts', () => ({
+  getTransactionOutputs: jest.fn().mockResolvedValue([]),
+  getPublicKey: jest.fn(async () => PrivateKey.fromRandom().toPublicKey().toString()),
+  createAction: jest.fn(),
+}));
+jest.mock('../utils/publishCommitment', () => ({
+  ...jest.requireActual('../utils/publishCommitment'),
+  publishCommitment: jest.fn().mockResolvedValue('uhrp-url-from-overlay'),
+}));
+
+// Captures what the CLI prints
+const createIO = (env: Record<string, string | undefined> = {}): CliIO & { out: string[]; err: string[] } => {
+  const out: string[] = [];
+  const err: string[] = [];
+  return { out, err, env, stdout: text => out.push(text), stderr: text => err.push(text) };
+};
+
+const hostKey = PrivateKey.fromRandom();
+
+const commitmentScriptHex = async (expiryTime: number): Promise<string> => {
+  const { script } = await createCommitmentScript({
+    signer: {
+      getIdentityKey: async () => hostKey.toPublicKey(),
+      getLockingKey: async () => hostKey.toPublicKey(),
+      sign: async (data: number[]) => hostKey.sign(data).toDER() as number[],
+    },
+    protocolID: 'UHRP File Commitment',
+    keyID: '1',
+    fields: [crypto.createHash('sha256').update('file').digest(), 'advertise', 'https://files.example/a', expiryTime.toString(), '4'],
+  });
+  return script;
+};
+
+describe('icommit', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should verify a commitment script for people and for scripts', async () => {
+    const scriptHex = await commitmentScriptHex(Math.floor(Date.now() / 1000) + 3600);
+
+    const io = createIO();
+    await expect(runCli(['verify', scriptHex], io)).resolves.toBe(0);
+    expect(io.out[0]).toContain('Valid commitment');
+    expect(io.out[0]).toContain(`Host:     ${hostKey.toAddress()}`);
+
+    const jsonIO = createIO();
+    await expect(runCli(['verify', scriptHex, '--json'], jsonIO)).resolves.toBe(0);
+    expect(JSON.parse(jsonIO.out[0])).toEqual({ valid: true, commitment: expect.objectContaining({ url: 'https://files.example/a', fileSize: 4 }) });
+  });
+
+  it('should exit with 1 for an invalid commitment', async () => {
+    const io = createIO();
+    await expect(runCli(['verify', await commitmentScriptHex(1000), '--json'], io)).resolves.toBe(1);
+    expect(JSON.parse(io.out[0])).toEqual(expect.objectContaining({ valid: false, code: 'EXPIRED' }));
+    expect(io.err).toEqual([]);
+  });
+
+  it('should exit with 2 and show the usage for a command line it cannot understand', async () => {
+    for (const argv of [['frobnicate'], ['verify'], ['verify', 'not hex'], ['list', '--colour'], ['commit', 'https://files.example/a', '--days', '0']]) {
+      const io = createIO();
+      await expect(runCli(argv, io)).resolves.toBe(2);
+      expect(io.err.join('\n')).toContain('Usage: icommit');
+    }
+  });
+
+  it('should commit to a URL with the chosen overlay and settings from the environment', async () => {
+    const io = createIO({ COMMITMENT_OUTPUT_AMOUNT: '2500' });
+    await expect(runCli(['commit', 'https://files.example/a', '--days', '7', '--overlay', 'https://a.example/', '--overlay', 'https://b.example', '--json'], io))
+      .resolves.toBe(0);
+
+    expect(JSON.parse(io.out[0])).toEqual({ target: 'https://files.example/a', days: 7, uhrpURL: 'uhrp-url-from-overlay' });
+    const args = (publishCommitment as jest.Mock).mock.calls[0][0];
+    expect(args).toEqual(expect.objectContaining({ url: 'https://files.example/a', hostingMinutes: 7 * 24 * 60 }));
+    expect(args.config).toEqual(expect.objectContaining({ overlayURLs: ['https://a.example', 'https://b.example'], outputAmount: 2500 }));
+    expect(args.signer).toBeInstanceOf(WalletSigner);
+  });
+
+  it('should sign with a keystore file whose passphrase is in the environment', async () => {
+    const keystore = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'icommit-')), 'keystore.json');
+    await expect(runCli(['commit', 'https://files.example/a', '--signer', 'keystore', '--keystore', keystore], createIO())).resolves.toBe(2);
+
+    const io = createIO({ UHRP_KEYSTORE_PASSPHRASE: 'correct horse' });
+    await expect(runCli(['commit', 'https://files.example/a', '--signer', 'keystore', '--keystore', keystore], io)).resolves.toBe(0);
+    expect(io.out[0]).toContain('for 30 days');
+    const { signer } = (publishCommitment as jest.Mock).mock.calls[0][0];
+    const reopened = await LocalKeystoreSigner.unlock('correct horse', new FileKeystoreStorage(keystore), 1000);
+    expect((await signer.getIdentityKey()).toString()).toBe((await reopened.getIdentityKey()).toString());
+  });
+
+  it('should list an empty basket and refuse to revoke a commitment it does not hold', async () => {
+    const io = createIO({ COMMITMENT_BASKET: 'my commitments' });
+    await expect(runCli(['list'], io)).resolves.toBe(0);
+    expect(io.out).toEqual(['No commitments in the my commitments basket.']);
+    expect(getTransactionOutputs).toHaveBeenCalledWith(expect.objectContaining({ basket: 'my commitments' }));
+
+    const revokeIO = createIO();
+    await expect(runCli(['revoke', `${'ab'.repeat(32)}.0`, '--json'], revokeIO)).resolves.toBe(1);
+    expect(JSON.parse(revokeIO.out[0]).error).toContain('There is no unspent commitment');
+  });
+
+  it('should refuse to revoke a commitment locked by a key the wallet does not hold, whichever signer is chosen', async () => {
+    // The commitment was made with a keystore, so its locking key is not the one the wallet derives
+    (getTransactionOutputs as jest.Mock).mockResolvedValue([{
+      txid: 'ab'.repeat(32),
+      vout: 0,
+      amount: 1000,
+      outputScript: await commitmentScriptHex(Math.floor(Date.now() / 1000) + 3600),
+      type: 'custom',
+      spendable: true,
+      envelope: { rawTx: 'cafe', inputs: {} },
+      customInstructions: JSON.stringify({ keyID: '1', protocolID: 'UHRP File Commitment' }),
+    }]);
+    for (const argv of [[], ['--signer', 'wallet'], ['--signer', 'keystore']]) {
+      const io = createIO({ UHRP_KEYSTORE_PASSPHRASE: 'correct horse' });
+      await expect(runCli(['revoke', `${'ab'.repeat(32)}.0`, ...argv], io)).resolves.toBe(1);
+      expect(io.err[0]).toContain('locked by a key the wallet does not hold');
+    }
+    expect(createAction).not.toHaveBeenCalled();
+  });
+});
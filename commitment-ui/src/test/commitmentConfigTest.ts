@@ -0,0 +1,85 @@
+import {
+  CommitmentConfigError, COMMITMENT_SETTINGS_ITEM, DEFAULT_COMMITMENT_CONFIG, SettingsStorage,
+  loadCommitmentConfig, readEnvironmentConfig, resetCommitmentConfig, saveCommitmentConfig, validateCommitmentConfig,
+} from '../config/commitmentConfig';
+
+// In-memory stand-in for localStorage
+const createStorage = (): SettingsStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+describe('validateCommitmentConfig', () => {
+  it('should fill in missing settings and trim overlay URLs', () => {
+    expect(validateCommitmentConfig({ overlayURLs: [' https://a.example/ ', 'http://localhost:8080'], outputAmount: 5000 })).toEqual({
+      ...DEFAULT_COMMITMENT_CONFIG,
+      overlayURLs: ['https://a.example', 'http://localhost:8080'],
+      outputAmount: 5000,
+    });
+  });
+
+  it('should list every problem with the settings', () => {
+    const error = (() => {
+      try {
+        return validateCommitmentConfig({
+          overlayURLs: ['ftp://a.example'], outputAmount: 0.5, minimumOutputAmount: -1, basket: ' ', protocolID: 'uhrp', defaultHostingDays: 0,
+        });
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(CommitmentConfigError);
+    expect((error as CommitmentConfigError).problems).toHaveLength(6);
+  });
+});
+
+describe('readEnvironmentConfig', () => {
+  it('should read several overlay URLs and numeric settings', () => {
+    expect(readEnvironmentConfig({
+      OVERLAY_URL: 'https://a.example, https://b.example',
+      COMMITMENT_OUTPUT_AMOUNT: '2500',
+      MIN_OUTPUT_AMOUNT: '2000',
+      COMMITMENT_BASKET: '',
+      DEFAULT_HOSTING_DAYS: '7',
+    })).toEqual({ overlayURLs: ['https://a.example', 'https://b.example'], outputAmount: 2500, minimumOutputAmount: 2000, defaultHostingDays: 7 });
+  });
+});
+
+describe('loadCommitmentConfig', () => {
+  const env = { OVERLAY_URL: 'http://localhost:8080', COMMITMENT_OUTPUT_AMOUNT: '2000' };
+
+  it('should apply saved settings over those of the environment', () => {
+    const storage = createStorage();
+    expect(loadCommitmentConfig(storage, env)).toEqual({ ...DEFAULT_COMMITMENT_CONFIG, overlayURLs: ['http://localhost:8080'], outputAmount: 2000 });
+
+    saveCommitmentConfig({ ...DEFAULT_COMMITMENT_CONFIG, basket: 'my commitments' }, storage);
+    expect(loadCommitmentConfig(storage, env)).toEqual({ ...DEFAULT_COMMITMENT_CONFIG, basket: 'my commitments' });
+
+    resetCommitmentConfig(storage);
+    expect(storage.items.has(COMMITMENT_SETTINGS_ITEM)).toBe(false);
+    expect(loadCommitmentConfig(storage, env).outputAmount).toBe(2000);
+  });
+
+  it('should ignore saved settings that are no longer valid', () => {
+    const storage = createStorage();
+    storage.setItem(COMMITMENT_SETTINGS_ITEM, JSON.stringify({ outputAmount: -1 }));
+    expect(loadCommitmentConfig(storage, env).outputAmount).toBe(2000);
+    storage.setItem(COMMITMENT_SETTINGS_ITEM, 'not json');
+    expect(loadCommitmentConfig(storage, env).outputAmount).toBe(2000);
+  });
+
+  it('should throw when the environment sets a value that cannot be used', () => {
+    expect(() => loadCommitmentConfig(createStorage(), { COMMITMENT_OUTPUT_AMOUNT: 'lots' })).toThrow(CommitmentConfigError);
+  });
+
+  it('should not save invalid settings', () => {
+    const storage = createStorage();
+    expect(() => saveCommitmentConfig({ ...DEFAULT_COMMITMENT_CONFIG, overlayURLs: [] }, storage)).toThrow('At least one overlay URL is required.');
+    expect(storage.items.size).toBe(0);
+  });
+});
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { getTransactionOutputs, GetTransactionOutputResult } from '@babbage/sdk-ts';
+import { PrivateKey, Script, OP } from '@bsv/sdk';
+import {
+  listCommitments,
+  listRevocations,
+  getCommitmentStatus,
+  formatCountdown,
+  EXPIRING_SOON_SECONDS,
+} from '../utils/listCommitments';
+
+// The wallet is not available in tests, so the basket contents are stubbed out
+jest.mock('@babbage/sdk-ts', () => ({
+  getTransactionOutputs: jest.fn(),
+}));
+
+const HASH = crypto.createHash('sha256').update('hosted file').digest();
+const key = PrivateKey.fromRandom();
+
+// Builds a basket output holding a commitment token with the given operation and expiry
+const createToken = (txid: string, operation: string, expiryTime: number, url = 'https://files.example/a'): GetTransactionOutputResult => {
+  const script = new Script().writeBin(key.toPublicKey().encode(true) as number[]).writeOpCode(OP.OP_CHECKSIG);
+  const fields = ['1UHRPYnMHPuQ5Tgb3AF8JXqwKkmZVy5hG', key.toAddress(), HASH, operation, url, expiryTime.toString(), '2048'];
+  fields.forEach(field => script.writeBin(Array.from(typeof field === 'string' ? Buffer.from(field) : field)));
+  script.writeBin(Array.from(Buffer.alloc(71, 1)));
+  script.writeOpCode(OP.OP_2DROP).writeOpCode(OP.OP_2DROP).writeOpCode(OP.OP_2DROP).writeOpCode(OP.OP_2DROP);
+  return {
+    txid,
+    vout: 0,
+    amount: 1000,
+    outputScript: script.toHex(),
+    type: 'custom',
+    spendable: true,
+    customInstructions: JSON.stringify({ keyID: 'key' }),
+  };
+};
+
+describe('listCommitments', () => {
+  it('should decode the commitments in the tm_uhrp basket, soonest to expire first', async () => {
+    (getTransactionOutputs as jest.Mock).mockResolvedValue([
+      createToken('aa'.repeat(32), 'advertise', 2000, 'https://files.example/later'),
+      createToken('bb'.repeat(32), 'revoke', 1500),
+      createToken('cc'.repeat(32), 'advertise', 1000, 'https://files.example/sooner'),
+      { ...createToken('dd'.repeat(32), 'advertise', 3000), outputScript: '76a914' },
+    ]);
+
+    const commitments = await listCommitments();
+
+    expect(getTransactionOutputs).toHaveBeenCalledWith(expect.objectContaining({ basket: 'tm_uhrp', spendable: true, includeEnvelope: true }));
+    expect(commitments.map(({ token, ...commitment }) => commitment)).toEqual([
+      { txid: 'cc'.repeat(32), vout: 0, url: 'https://files.example/sooner', hash: HASH.toString('hex'), fileSize: 2048, expiryTime: 1000 },
+      { txid: 'aa'.repeat(32), vout: 0, url: 'https://files.example/later', hash: HASH.toString('hex'), fileSize: 2048, expiryTime: 2000 },
+    ]);
+    // The token itself is kept for renewing and revoking
+    expect(commitments[0].token.customInstructions).toBe(JSON.stringify({ keyID: 'key' }));
+  });
+
+  it('should list the revocations still holding satoshis, most recently revoked first', async () => {
+    (getTransactionOutputs as jest.Mock).mockResolvedValue([
+      createToken('aa'.repeat(32), 'advertise', 2000),
+      createToken('bb'.repeat(32), 'revoke', 1500),
+      createToken('cc'.repeat(32), 'revoke', 1700),
+    ]);
+
+    const revocations = await listRevocations();
+
+    expect(revocations.map(revocation => [revocation.txid, revocation.expiryTime, revocation.token.amount])).toEqual([
+      ['cc'.repeat(32), 1700, 1000],
+      ['bb'.repeat(32), 1500, 1000],
+    ]);
+  });
+});
+
+describe('getCommitmentStatus', () => {
+  it('should classify commitments by the time they have left', () => {
+    expect(getCommitmentStatus(1000, 1000)).toBe('expired');
+    expect(getCommitmentStatus(1001, 1000)).toBe('expiring');
+    expect(getCommitmentStatus(1000 + EXPIRING_SOON_SECONDS, 1000)).toBe('expiring');
+    expect(getCommitmentStatus(1001 + EXPIRING_SOON_SECONDS, 1000)).toBe('active');
+  });
+});
+
+describe('formatCountdown', () => {
+  it('should show the two largest units of the time remaining', () => {
+    expect(formatCountdown(3 * 86400 + 4 * 3600 + 59)).toBe('3d 4h');
+    expect(formatCountdown(2 * 3600 + 5 * 60 + 7)).toBe('2h 5m');
+    expect(formatCountdown(3600)).toBe('1h 0m');
+    expect(formatCountdown(45)).toBe('45s');
+    expect(formatCountdown(0)).toBe('Expired');
+  });
+});
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { PrivateKey } from '@bsv/sdk';
+import { createAction } from '@babbage/sdk-ts';
+import { getURLForHash } from 'uhrp-url';
+import { preflightCommitment } from '../utils/preflightCommitment';
+import { publishCommitment } from '../utils/publishCommitment';
+import { DEFAULT_COMMITMENT_CONFIG } from '../config/commitmentConfig';
+
+// The wallet is not available in tests, so transactions are stubbed out
+jest.mock('@babbage/sdk-ts', () => ({
+  createAction: jest.fn().mockResolvedValue({ rawTx: 'beefcafe', txid: 'commitment-txid', inputs: {} }),
+  toBEEFfromEnvelope: jest.fn().mockReturnValue({ beef: [1, 2, 3] }),
+}));
+
+// Signs with a fixed key, so the host address of the commitment is known
+const hostKey = PrivateKey.fromRandom();
+const signer = {
+  getIdentityKey: async () => hostKey.toPublicKey(),
+  getLockingKey: async () => hostKey.toPublicKey(),
+  sign: async (data: number[]) => hostKey.sign(data).toDER() as number[],
+};
+
+const FILE_URL = 'https://files.example/report.pdf';
+const FILE_CONTENT = 'the committed file';
+const fileHash = crypto.createHash('sha256').update(FILE_CONTENT).digest();
+
+describe('preflightCommitment', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fetchMock = jest.fn(async (url: string) => {
+      if (url === FILE_URL) return new Response(FILE_CONTENT);
+      if (url.endsWith('/submit')) return new Response(JSON.stringify({ tm_uhrp: { outputsToAdmit: [0], coinsToRetain: [] } }));
+      return new Response('missing', { status: 404 });
+    });
+    global.fetch = fetchMock;
+  });
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should check the exact commitment without creating a transaction, then publish it as reviewed', async () => {
+    const report = await preflightCommitment({ url: FILE_URL, hostingMinutes: 60, signer, terms: { pricePerGB: 10 } });
+
+    expect(report.ok).toBe(true);
+    expect(report.checks.map(check => [check.name, check.passed])).toEqual([
+      ['reachable', true],
+      ['hash', true],
+      ['commitment', true],
+      ['overlay', true],
+    ]);
+    expect(report.uhrpURL).toBe(getURLForHash(fileHash));
+    expect(report.prepared).toEqual(expect.objectContaining({ url: FILE_URL, contentLength: FILE_CONTENT.length, address: hostKey.toAddress() }));
+    expect(report.outputAmount).toBe(DEFAULT_COMMITMENT_CONFIG.outputAmount);
+    expect(createAction).not.toHaveBeenCalled();
+    expect(fetchMock.mock.calls.filter(([url]) => url.endsWith('/submit'))).toHaveLength(0);
+
+    await expect(publishCommitment({ url: FILE_URL, hostingMinutes: 60, signer, serviceURL: 'https://overlay.example', prepared: report.prepared }))
+      .resolves.toBe(report.uhrpURL);
+    const [output] = (createAction as jest.Mock).mock.calls[0][0].outputs;
+    expect(output.script).toBe(report.prepared?.script);
+    expect(JSON.parse(output.customInstructions).keyID).toBe(report.prepared?.keyID);
+    // The file was only downloaded for the review
+    expect(fetchMock.mock.calls.filter(([url]) => url === FILE_URL)).toHaveLength(1);
+  });
+
+  it('should report a file that cannot be downloaded', async () => {
+    const report = await preflightCommitment({ url: 'https://files.example/missing', hostingMinutes: 60, signer });
+    expect(report.ok).toBe(false);
+    expect(report.checks).toEqual([{ name: 'reachable', passed: false, details: expect.stringContaining('could not be downloaded') }]);
+    expect(report.prepared).toBeUndefined();
+  });
+
+  it('should report a served file that is not the expected one', async () => {
+    const report = await preflightCommitment({
+      url: FILE_URL,
+      hostingMinutes: 60,
+      signer,
+      expectedHash: { hash: crypto.createHash('sha256').update('another file').digest(), contentLength: 12 },
+    });
+    expect(report.ok).toBe(false);
+    expect(report.checks[1]).toEqual({ name: 'hash', passed: false, details: expect.stringContaining('is not the expected one') });
+  });
+
+  it('should report an output amount the overlay would reject', async () => {
+    const report = await preflightCommitment({
+      url: FILE_URL,
+      hostingMinutes: 60,
+      signer,
+      config: { ...DEFAULT_COMMITMENT_CONFIG, outputAmount: 1 },
+    });
+    expect(report.ok).toBe(false);
+    expect(report.checks[3]).toEqual({
+      name: 'overlay',
+      passed: false,
+      details: 'insufficient-amount: Commitment output holds 1 satoshis, below the minimum of 1000.',
+    });
+  });
+
+  it('should hold the commitment to the minimum amount of the overlay node', async () => {
+    const report = await preflightCommitment({ url: FILE_URL, hostingMinutes: 60, signer, minimumOutputAmount: 5000 });
+    expect(report.ok).toBe(false);
+    expect(report.checks[3].details).toBe(`insufficient-amount: Commitment output holds ${DEFAULT_COMMITMENT_CONFIG.outputAmount} satoshis, below the minimum of 5000.`);
+  });
+});
@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import { PrivateKey } from '@bsv/sdk';
+import { createAction } from '@babbage/sdk-ts';
+import pushdrop from 'pushdrop';
+import { getURLForHash } from 'uhrp-url';
+import { publishCommitments, parseCommitmentList } from '../utils/publishCommitments';
+import { OverlayBroadcastError } from '../overlay/OverlayClient';
+import { DEFAULT_COMMITMENT_CONFIG } from '../config/commitmentConfig';
+
+// The wallet is not available in tests, so transactions and scripts are stubbed out
+jest.mock('@babbage/sdk-ts', () => ({
+  createAction: jest.fn().mockResolvedValue({ rawTx: 'beefcafe', txid: 'batch-txid', inputs: {} }),
+  toBEEFfromEnvelope: jest.fn().mockReturnValue({ beef: [1, 2, 3] }),
+}));
+jest.mock('pushdrop', () => ({
+  create: jest.fn(async ({ fields }: { fields: unknown[] }) => `script for ${fields[4]}`),
+}));
+
+// Signs with a fixed key, so the host address of each commitment is known
+const hostKey = PrivateKey.fromRandom();
+const signer = {
+  getIdentityKey: jest.fn(async () => hostKey.toPublicKey()),
+  getLockingKey: jest.fn(async () => hostKey.toPublicKey()),
+  sign: jest.fn(async (data: number[]) => hostKey.sign(data).toDER() as number[]),
+};
+
+const hashOf = (content: string) => ({ hash: crypto.createHash('sha256').update(content).digest(), contentLength: content.length });
+
+describe('parseCommitmentList', () => {
+  it('should read pasted URLs and CSV rows with optional hosting days', () => {
+    expect(parseCommitmentList('url,days\r\nhttps://a.example/1,30\n\n"https://a.example/2"\nhttps://a.example/3, 7 ,\n')).toEqual([
+      { url: 'https://a.example/1', hostingDays: 30 },
+      { url: 'https://a.example/2' },
+      { url: 'https://a.example/3', hostingDays: 7 },
+    ]);
+  });
+
+  it('should name the first line that is not a URL with a whole number of days', () => {
+    expect(() => parseCommitmentList('https://a.example/1\nftp://a.example/2')).toThrow('Line 2 must be a URL');
+    expect(() => parseCommitmentList('https://a.example/1,1.5')).toThrow('Line 1 must be a URL');
+  });
+});
+
+describe('publishCommitments', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+  // The outputs the stubbed overlay node admits
+  let admitted: number[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    admitted = [0];
+    fetchMock = jest.fn(async (url: string) => url.endsWith('/submit')
+      ? new Response(JSON.stringify({ tm_uhrp: { outputsToAdmit: admitted, coinsToRetain: [] } }))
+      : new Response('missing', { status: 404 }));
+    global.fetch = fetchMock;
+  });
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should commit to every file in one transaction and report each file', async () => {
+    const { txid, results } = await publishCommitments({
+      files: [
+        { url: 'https://a.example/1', fileHash: hashOf('one') },
+        { url: 'https://a.example/missing' },
+        { url: 'https://a.example/3', fileHash: hashOf('three'), hostingMinutes: 120 },
+      ],
+      hostingMinutes: 60,
+      signer,
+      serviceURL: 'https://overlay.example',
+    });
+
+    expect(txid).toBe('batch-txid');
+    expect(createAction).toHaveBeenCalledTimes(1);
+    const { outputs } = (createAction as jest.Mock).mock.calls[0][0];
+    expect(outputs.map((output: { script: string }) => output.script)).toEqual(['script for https://a.example/1', 'script for https://a.example/3']);
+    expect(JSON.parse(outputs[1].customInstructions)).toEqual(expect.objectContaining({
+      url: 'https://a.example/3',
+      hostingMinutes: 120,
+      address: hostKey.toPublicKey().toAddress(),
+    }));
+
+    expect(results).toEqual([
+      { url: 'https://a.example/1', uhrpURL: getURLForHash(hashOf('one').hash), outputIndex: 0, admitted: true },
+      { url: 'https://a.example/missing', admitted: false, error: expect.any(String) },
+      {
+        url: 'https://a.example/3',
+        uhrpURL: getURLForHash(hashOf('three').hash),
+        outputIndex: 1,
+        admitted: false,
+        error: 'The overlay did not admit this commitment.',
+      },
+    ]);
+    // The node is asked about every output in the batch, and its partial acknowledgment is not retried
+    expect(fetchMock.mock.calls.filter(([url]) => url.endsWith('/submit'))).toHaveLength(1);
+  });
+
+  it('should append the hosting terms to every commitment', async () => {
+    await publishCommitments({
+      files: [{ url: 'https://a.example/1', fileHash: hashOf('one') }],
+      hostingMinutes: 60,
+      signer,
+      terms: { pricePerGB: 100 },
+    });
+    const { fields } = (pushdrop.create as jest.Mock).mock.calls[0][0];
+    expect(fields.slice(7, 11).map(String)).toEqual(['1', '100', '', '']);
+  });
+
+  it('should create outputs with the configured amount, basket and protocol ID', async () => {
+    await publishCommitments({
+      files: [{ url: 'https://a.example/1', fileHash: hashOf('one') }],
+      hostingMinutes: 60,
+      signer,
+      config: { ...DEFAULT_COMMITMENT_CONFIG, overlayURLs: ['https://overlay.example'], outputAmount: 2500, basket: 'my commitments', protocolID: 'my commitments' },
+    });
+    expect(signer.getLockingKey).toHaveBeenCalledWith('my commitments', expect.any(String));
+    expect(signer.sign).toHaveBeenCalledWith(expect.any(Array), 'my commitments', expect.any(String));
+    const [output] = (createAction as jest.Mock).mock.calls[0][0].outputs;
+    expect(output).toEqual(expect.objectContaining({ satoshis: 2500, basket: 'my commitments' }));
+    expect(JSON.parse(output.customInstructions).protocolID).toBe('my commitments');
+    expect(fetchMock).toHaveBeenCalledWith('https://overlay.example/submit', expect.anything());
+  });
+
+  it('should throw when the overlay admits none of the commitments', async () => {
+    admitted = [];
+    const error = await publishCommitments({
+      files: [{ url: 'https://a.example/1', fileHash: hashOf('one') }],
+      hostingMinutes: 60,
+      signer,
+      serviceURL: 'https://overlay.example',
+    }).catch(e => e);
+    expect(error).toBeInstanceOf(OverlayBroadcastError);
+    expect(error.result.nodes[0].error).toBe('Output 0 was not admitted to tm_uhrp');
+  });
+
+  it('should not create a transaction when no file can be committed to', async () => {
+    await expect(publishCommitments({
+      files: [{ url: 'https://a.example/missing' }],
+      hostingMinutes: 60,
+      signer,
+    })).rejects.toThrow('None of the files could be committed to.');
+    expect(createAction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { getURLForFile } from 'uhrp-url';
+import { PrivateKey, Script, OP, Transaction } from '@bsv/sdk';
+import { resolveUHRP, UHRPResolveError } from '../utils/resolveUHRP';
+
+const UHRP_PROTOCOL_ADDRESS = '1UHRPYnMHPuQ5Tgb3AF8JXqwKkmZVy5hG';
+const OVERLAY_URL = 'https://overlay.test';
+const CONTENT = Buffer.from('content served over UHRP');
+const UHRP_URL = getURLForFile(CONTENT);
+const HASH = crypto.createHash('sha256').update(CONTENT).digest();
+const EXPIRY = Math.floor(Date.now() / 1000) + 3600;
+
+// Builds a transaction holding a storage commitment locked to the key, as the overlay returns it
+const createCommitment = (
+  key: PrivateKey,
+  url: string,
+  expiryTime = EXPIRY,
+  hash = HASH,
+  signer = key
+): { beef: number[]; outputIndex: number } => {
+  const fields = [
+    Buffer.from(UHRP_PROTOCOL_ADDRESS),
+    Buffer.from(key.toAddress()),
+    hash,
+    Buffer.from('advertise'),
+    Buffer.from(url),
+    Buffer.from(expiryTime.toString()),
+    Buffer.from(CONTENT.length.toString()),
+  ];
+  const signature = signer.sign(Array.from(Buffer.concat(fields))).toDER() as number[];
+  const script = new Script().writeBin(key.toPublicKey().encode(true) as number[]).writeOpCode(OP.OP_CHECKSIG);
+  [...fields.map(field => Array.from(field)), signature].forEach(field => script.writeBin(field));
+  script.writeOpCode(OP.OP_2DROP).writeOpCode(OP.OP_2DROP).writeOpCode(OP.OP_2DROP).writeOpCode(OP.OP_2DROP);
+
+  const tx = new Transaction();
+  tx.addOutput({ lockingScript: script, satoshis: 1000 });
+  return { beef: tx.toBEEF(), outputIndex: 0 };
+};
+
+describe('resolveUHRP', () => {
+  const originalFetch = global.fetch;
+  const hostA = PrivateKey.fromRandom();
+  const hostB = PrivateKey.fromRandom();
+  let fetchMock: jest.Mock;
+
+  // Serves a lookup answer from the stub overlay, and the given bodies from the hosts
+  const stubNetwork = (outputs: Array<{ beef: number[]; outputIndex: number }>, hosts: Record<string, Response>) => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url === `${OVERLAY_URL}/lookup`) {
+        return new Response(JSON.stringify({ type: 'output-list', outputs }));
+      }
+      return hosts[url] ?? new Response('not found', { status: 404 });
+    });
+  };
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+  });
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should ask the UHRP lookup service and return the content from a host that serves it', async () => {
+    stubNetwork([createCommitment(hostA, 'https://a.example/file')], {
+      'https://a.example/file': new Response(CONTENT, { headers: { 'Content-Type': 'text/plain' } }),
+    });
+
+    const result = await resolveUHRP(UHRP_URL, { overlayURL: OVERLAY_URL });
+    expect(result.data).toEqual(CONTENT);
+    expect(result.contentType).toBe('text/plain');
+    expect(result.host).toEqual({
+      url: 'https://a.example/file',
+      hostAddress: hostA.toAddress(),
+      expiryTime: EXPIRY,
+      contentLength: CONTENT.length,
+    });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ service: 'ls_uhrp', query: { type: 'uhrpURL', uhrpURL: UHRP_URL } });
+  });
+
+  it('should fall back to the next host when one serves different content or fails', async () => {
+    stubNetwork([
+      createCommitment(hostA, 'https://a.example/broken', EXPIRY + 300),
+      createCommitment(hostA, 'https://a.example/tampered', EXPIRY + 200),
+      createCommitment(hostB, 'https://b.example/file', EXPIRY + 100),
+    ], {
+      'https://a.example/tampered': new Response('something else'),
+      'https://b.example/file': new Response(CONTENT),
+    });
+
+    const result = await resolveUHRP(UHRP_URL, { overlayURL: OVERLAY_URL });
+    expect(result.host.url).toBe('https://b.example/file');
+    expect(result.failures.map(failure => failure.host.url)).toEqual(['https://a.example/broken', 'https://a.example/tampered']);
+    expect(result.failures[0].reason).toBe('HTTP status 404');
+    expect(result.failures[1].reason).toMatch(/^The served content hashes to/);
+  });
+
+  it('should try more reliable hosts first', async () => {
+    stubNetwork([
+      createCommitment(hostA, 'https://a.example/file', EXPIRY + 100),
+      createCommitment(hostB, 'https://b.example/file'),
+    ], {
+      'https://a.example/file': new Response(CONTENT),
+      'https://b.example/file': new Response(CONTENT),
+    });
+
+    const result = await resolveUHRP(UHRP_URL, {
+      overlayURL: OVERLAY_URL,
+      hostReliability: { [hostA.toAddress()]: 0.5 },
+    });
+    expect(result.host.url).toBe('https://b.example/file');
+    expect(result.failures).toEqual([]);
+  });
+
+  it('should ignore commitments that are expired, tampered with or for other content', async () => {
+    stubNetwork([
+      createCommitment(hostA, 'https://a.example/expired', Math.floor(Date.now() / 1000) - 1),
+      createCommitment(hostA, 'https://a.example/other', EXPIRY, crypto.createHash('sha256').update('other').digest()),
+      // Claims to be locked to host B but was signed by host A
+      createCommitment(hostB, 'https://b.example/file', EXPIRY, HASH, hostA),
+    ], {
+      'https://a.example/expired': new Response(CONTENT),
+      'https://a.example/other': new Response(CONTENT),
+      'https://b.example/file': new Response(CONTENT),
+    });
+
+    const error = await resolveUHRP(UHRP_URL, { overlayURL: OVERLAY_URL }).catch(e => e);
+    expect(error).toBeInstanceOf(UHRPResolveError);
+    expect(error.message).toBe(`No hosts are committed to serving ${UHRP_URL}`);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should list why each host failed when none serve the content', async () => {
+    stubNetwork([createCommitment(hostA, 'https://a.example/file')], {});
+
+    const error = await resolveUHRP(UHRP_URL, { overlayURL: OVERLAY_URL }).catch(e => e);
+    expect(error).toBeInstanceOf(UHRPResolveError);
+    expect(error.message).toBe(`None of the 1 hosts served ${UHRP_URL}`);
+    expect(error.failures).toEqual([expect.objectContaining({ reason: 'HTTP status 404' })]);
+  });
+
+  it('should fail when the overlay lookup fails', async () => {
+    fetchMock.mockResolvedValue(new Response('down', { status: 500 }));
+    await expect(resolveUHRP(UHRP_URL, { overlayURL: OVERLAY_URL })).rejects.toThrow('UHRP lookup failed with status 500');
+  });
+});
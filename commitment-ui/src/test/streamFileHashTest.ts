@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import { getURLForFile } from 'uhrp-url';
+import { hashFileFromURL, hashStream, HashProgress } from '../utils/streamFileHash';
+
+// A file large enough to span several chunks
+const FILE = Buffer.alloc(300000);
+for (let i = 0; i < FILE.length; i++) FILE[i] = (i * 31) % 251;
+
+// Streams the file in fixed-size chunks
+const chunkedStream = (file: Buffer, chunkSize: number): ReadableStream<Uint8Array> => {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= file.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(new Uint8Array(file.subarray(offset, offset + chunkSize)));
+      offset += chunkSize;
+    },
+  });
+};
+
+describe('hashStream', () => {
+  it('should produce the same UHRP URL and size as hashing the whole file', async () => {
+    const result = await hashStream(chunkedStream(FILE, 65536));
+
+    expect(result.uhrpURL).toBe(getURLForFile(FILE));
+    expect(result.contentLength).toBe(FILE.length);
+    expect(result.hash).toEqual(crypto.createHash('sha256').update(FILE).digest());
+  });
+
+  it('should report progress after each chunk', async () => {
+    const updates: HashProgress[] = [];
+    await hashStream(chunkedStream(FILE, 100000), { totalBytes: FILE.length, onProgress: update => updates.push(update) });
+
+    expect(updates).toEqual([
+      { bytesHashed: 100000, totalBytes: FILE.length },
+      { bytesHashed: 200000, totalBytes: FILE.length },
+      { bytesHashed: 300000, totalBytes: FILE.length },
+    ]);
+  });
+
+  it('should stop when the signal aborts', async () => {
+    const controller = new AbortController();
+    const stream = chunkedStream(FILE, 1000);
+    const hashing = hashStream(stream, {
+      signal: controller.signal,
+      onProgress: ({ bytesHashed }) => {
+        if (bytesHashed === 5000) controller.abort();
+      },
+    });
+
+    await expect(hashing).rejects.toMatchObject({ name: 'AbortError' });
+    // The stream was cancelled rather than read to the end
+    await expect(stream.getReader().read()).resolves.toEqual({ done: true, value: undefined });
+  });
+});
+
+describe('hashFileFromURL', () => {
+  const originalFetch = global.fetch;
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should hash the response body and use its content length for progress', async () => {
+    global.fetch = jest.fn().mockResolvedValue(new Response(FILE, { headers: { 'content-length': String(FILE.length) } }));
+    const updates: HashProgress[] = [];
+
+    const result = await hashFileFromURL('https://example.com/file', { onProgress: update => updates.push(update) });
+    expect(result.uhrpURL).toBe(getURLForFile(FILE));
+    expect(result.contentLength).toBe(FILE.length);
+    expect(updates[updates.length - 1]).toEqual({ bytesHashed: FILE.length, totalBytes: FILE.length });
+  });
+
+  it('should fail when the file cannot be fetched', async () => {
+    global.fetch = jest.fn().mockResolvedValue(new Response('missing', { status: 404 }));
+
+    await expect(hashFileFromURL('https://example.com/missing')).rejects.toThrow('Failed to fetch the file');
+  });
+});
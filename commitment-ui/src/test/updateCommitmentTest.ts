@@ -0,0 +1,100 @@
+import crypto from 'crypto';
+import { createAction, getPublicKey, GetTransactionOutputResult } from '@babbage/sdk-ts';
+import { PrivateKey, Script, OP } from '@bsv/sdk';
+import { canWalletSpend, reclaimRevocation, renewCommitment, revokeCommitment } from '../utils/updateCommitment';
+import { DEFAULT_COMMITMENT_CONFIG } from '../config/commitmentConfig';
+
+// The wallet is not available in tests, so transactions and signatures are stubbed out
+jest.mock('@babbage/sdk-ts', () => ({
+  createAction: jest.fn().mockResolvedValue({ rawTx: 'beefcafe', txid: 'spending-txid', inputs: {} }),
+  toBEEFfromEnvelope: jest.fn().mockReturnValue({ beef: [1, 2, 3] }),
+  getPublicKey: jest.fn(),
+}));
+jest.mock('pushdrop', () => ({
+  ...jest.requireActual('pushdrop'),
+  create: jest.fn(async ({ fields }: { fields: unknown[] }) => `script for ${fields[3]}`),
+  redeem: jest.fn(async () => 'unlocking script'),
+}));
+
+const HASH = crypto.createHash('sha256').update('hosted file').digest();
+const key = PrivateKey.fromRandom();
+
+// Builds a basket output holding a commitment token with the given operation
+const createToken = (operation: string, amount = 1000): GetTransactionOutputResult => {
+  const script = new Script().writeBin(key.toPublicKey().encode(true) as number[]).writeOpCode(OP.OP_CHECKSIG);
+  const fields = ['1UHRPYnMHPuQ5Tgb3AF8JXqwKkmZVy5hG', key.toAddress(), HASH, operation, 'https://files.example/a', '1000', '2048'];
+  fields.forEach(field => script.writeBin(Array.from(typeof field === 'string' ? Buffer.from(field) : field)));
+  script.writeBin(Array.from(Buffer.alloc(71, 1)));
+  script.writeOpCode(OP.OP_2DROP).writeOpCode(OP.OP_2DROP).writeOpCode(OP.OP_2DROP).writeOpCode(OP.OP_2DROP);
+  return {
+    txid: 'aa'.repeat(32),
+    vout: 0,
+    amount,
+    outputScript: script.toHex(),
+    type: 'custom',
+    spendable: true,
+    envelope: { rawTx: 'cafe', proof: undefined, inputs: {} } as unknown as GetTransactionOutputResult['envelope'],
+    customInstructions: JSON.stringify({ keyID: 'key', protocolID: 'UHRP File Commitment' }),
+  };
+};
+
+describe('updateCommitment', () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+  // The outputs the stubbed overlay node admits
+  let admitted: number[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // The wallet derives the key the tokens are locked by
+    (getPublicKey as jest.Mock).mockResolvedValue(key.toPublicKey().toString());
+    admitted = [0];
+    fetchMock = jest.fn(async () => new Response(JSON.stringify({ tm_uhrp: { outputsToAdmit: admitted, coinsToRetain: [] } })));
+    global.fetch = fetchMock;
+  });
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should keep a revocation in the basket, holding at least the configured amount', async () => {
+    await expect(revokeCommitment({ token: createToken('advertise', 500), serviceURL: 'https://overlay.example' })).resolves.toBe('spending-txid');
+
+    const { inputs, outputs } = (createAction as jest.Mock).mock.calls[0][0];
+    expect(inputs['aa'.repeat(32)].outputsToRedeem).toEqual([expect.objectContaining({ index: 0, unlockingScript: 'unlocking script' })]);
+    expect(outputs).toEqual([expect.objectContaining({
+      satoshis: DEFAULT_COMMITMENT_CONFIG.outputAmount,
+      script: 'script for revoke',
+      basket: DEFAULT_COMMITMENT_CONFIG.basket,
+    })]);
+  });
+
+  it('should reclaim a revocation by spending it into no outputs, telling the overlay it was spent', async () => {
+    admitted = [];
+    await expect(reclaimRevocation({ token: createToken('revoke'), serviceURL: 'https://overlay.example' })).resolves.toBe('spending-txid');
+
+    const { inputs, outputs } = (createAction as jest.Mock).mock.calls[0][0];
+    expect(Object.keys(inputs)).toEqual(['aa'.repeat(32)]);
+    expect(outputs).toEqual([]);
+    expect(fetchMock).toHaveBeenCalledWith('https://overlay.example/submit', expect.anything());
+  });
+
+  it('should leave a commitment locked by a keystore key to the keystore, spending nothing', async () => {
+    const token = createToken('advertise');
+    await expect(canWalletSpend(token)).resolves.toBe(true);
+
+    // The wallet derives a different key for the token's IDs than the keystore key that locks it
+    (getPublicKey as jest.Mock).mockResolvedValue(PrivateKey.fromRandom().toPublicKey().toString());
+    await expect(canWalletSpend(token)).resolves.toBe(false);
+    await expect(renewCommitment({ token, hostingMinutes: 60, serviceURL: 'https://overlay.example' }))
+      .rejects.toThrow('locked by a key the wallet does not hold');
+    await expect(revokeCommitment({ token, serviceURL: 'https://overlay.example' })).rejects.toThrow('locked by a key the wallet does not hold');
+    expect(createAction).not.toHaveBeenCalled();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to reclaim a commitment that has not been revoked', async () => {
+    await expect(reclaimRevocation({ token: createToken('advertise'), serviceURL: 'https://overlay.example' }))
+      .rejects.toThrow('Only revocation tokens can be reclaimed.');
+    expect(createAction).not.toHaveBeenCalled();
+  });
+});
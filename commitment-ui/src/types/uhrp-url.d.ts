@@ -1,6 +1,7 @@
 // src/uhrp-url.d.ts
 declare module 'uhrp-url' {
   export function getURLForFile(dataAsBuffer: Buffer): string;
+  export function getURLForHash(hash: Buffer): string;
   export function getHashFromURL(data: string): Buffer;
   // Add other exports as needed
-}
\ No newline at end of file
+}
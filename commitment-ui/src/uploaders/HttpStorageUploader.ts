@@ -0,0 +1,62 @@
+import { StorageUploader, UploadOptions } from './StorageUploader';
+
+// How to reach a storage host over HTTP
+export interface HttpStorageUploaderConfig {
+  endpoint: string; // Where files are uploaded
+  // PUT sends the raw file to `${endpoint}/${fileName}`; POST sends a multipart form to the endpoint itself
+  method?: 'PUT' | 'POST';
+  fieldName?: string; // Form field holding the file for POST uploads, `file` by default
+  headers?: Record<string, string>; // Extra request headers, such as authorization
+}
+
+/**
+ * Uploads files to a storage host over HTTP.
+ * The public URL is taken from a JSON `url` property in the response, then from the `Location` header,
+ * and for PUT uploads falls back to the URL the file was put to.
+ */
+export class HttpStorageUploader implements StorageUploader {
+  constructor(private readonly config: HttpStorageUploaderConfig) {}
+
+  public async upload(file: Blob, options: UploadOptions = {}): Promise<string> {
+    const method = this.config.method ?? 'PUT';
+    const fileName = options.fileName ?? 'file';
+
+    let target = this.config.endpoint;
+    let body: Blob | FormData;
+    if (method === 'PUT') {
+      target = `${target.replace(/\/+$/, '')}/${encodeURIComponent(fileName)}`;
+      body = file;
+    } else {
+      body = new FormData();
+      body.append(this.config.fieldName ?? 'file', file, fileName);
+    }
+
+    const response = await fetch(target, {
+      method,
+      headers: this.config.headers,
+      body,
+      signal: options.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Upload failed with status ${response.status}`);
+    }
+
+    const url = (await this.readURLFromBody(response)) ?? response.headers.get('location') ?? (method === 'PUT' ? target : null);
+    if (url === null) {
+      throw new Error('The storage host did not say where the file is served.');
+    }
+    // Relative locations are resolved against the upload URL
+    return new URL(url, target).toString();
+  }
+
+  private async readURLFromBody(response: Response): Promise<string | null> {
+    const text = await response.text();
+    if (!text) return null;
+    try {
+      const parsed = JSON.parse(text);
+      return typeof parsed?.url === 'string' ? parsed.url : null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
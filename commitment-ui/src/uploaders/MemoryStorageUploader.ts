@@ -0,0 +1,20 @@
+import { StorageUploader, UploadOptions } from './StorageUploader';
+
+/**
+ * Keeps uploaded files in memory, for tests and for trying the UI without a storage host.
+ * The URLs it returns are not served anywhere.
+ */
+export class MemoryStorageUploader implements StorageUploader {
+  public readonly files = new Map<string, Blob>();
+  private uploadCount = 0;
+
+  constructor(private readonly baseURL: string = 'https://storage.invalid/') {}
+
+  public async upload(file: Blob, options: UploadOptions = {}): Promise<string> {
+    options.signal?.throwIfAborted();
+    this.uploadCount += 1;
+    const url = new URL(`${this.uploadCount}/${encodeURIComponent(options.fileName ?? 'file')}`, this.baseURL).toString();
+    this.files.set(url, file);
+    return url;
+  }
+}
@@ -0,0 +1,19 @@
+// Options for a single upload
+export interface UploadOptions {
+  fileName?: string; // Name to store the file under, when the host lets the client choose
+  signal?: AbortSignal; // Cancels the upload
+}
+
+/**
+ * Uploads a file to a storage host, which then serves it at a public URL.
+ * The host is expected to serve the bytes unchanged, as the commitment is made to their hash.
+ */
+export interface StorageUploader {
+  /**
+   * Uploads a file.
+   * @param {Blob} file - The file to upload.
+   * @param {UploadOptions} options - The file name and abort signal.
+   * @returns {Promise<string>} - The URL the file is served at.
+   */
+  upload(file: Blob, options?: UploadOptions): Promise<string>;
+}
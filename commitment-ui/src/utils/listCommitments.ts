@@ -0,0 +1,127 @@
+import { getTransactionOutputs, GetTransactionOutputResult } from '@babbage/sdk-ts';
+import { Buffer } from 'buffer';
+import { decodePushDrop, Logger, silentLogger, CommitmentTerms, decodeCommitmentTerms, getCommitmentLayout } from 'uhrp-topic-manager';
+import { DEFAULT_COMMITMENT_CONFIG } from '../config/commitmentConfig';
+
+// Commitments ending within this many seconds are shown as expiring soon
+export const EXPIRING_SOON_SECONDS = 24 * 60 * 60;
+
+export type CommitmentStatus = 'active' | 'expiring' | 'expired';
+
+// A storage commitment held in the wallet, decoded for display
+export interface CommitmentSummary {
+  token: GetTransactionOutputResult; // The basket output, kept so the commitment can be renewed or revoked
+  txid: string; // Transaction holding the commitment token
+  vout: number; // Index of the token output in the transaction
+  url: string; // Where the file is hosted
+  hash: string; // Hex-encoded SHA-256 hash of the file
+  fileSize: number; // Size of the file in bytes
+  expiryTime: number; // Unix timestamp, in seconds, when hosting ends, or ended for a revocation
+  terms?: CommitmentTerms; // Hosting terms offered to downloaders, when the commitment carries them
+}
+
+/**
+ * Lists the storage commitments held in the wallet's commitment basket, soonest to expire first.
+ * Revocation tokens share the basket but are not commitments, so they are left out.
+ * @param {Logger} logger - Receives tokens that cannot be decoded, silent by default.
+ * @param {string} basket - The basket commitments are kept in, `tm_uhrp` by default.
+ * @returns {Promise<CommitmentSummary[]>} - The unspent commitments.
+ */
+export async function listCommitments(
+  logger: Logger = silentLogger,
+  basket: string = DEFAULT_COMMITMENT_CONFIG.basket
+): Promise<CommitmentSummary[]> {
+  return listBasketTokens('advertise', logger, basket);
+}
+
+/**
+ * Lists the revocation tokens held in the wallet's commitment basket, most recently revoked first.
+ * Each holds the satoshis of the commitment it revoked until they are reclaimed.
+ * @param {Logger} logger - Receives tokens that cannot be decoded, silent by default.
+ * @param {string} basket - The basket commitments are kept in, `tm_uhrp` by default.
+ * @returns {Promise<CommitmentSummary[]>} - The unspent revocations, whose expiry time is when the commitment was revoked.
+ */
+export async function listRevocations(
+  logger: Logger = silentLogger,
+  basket: string = DEFAULT_COMMITMENT_CONFIG.basket
+): Promise<CommitmentSummary[]> {
+  return (await listBasketTokens('revoke', logger, basket)).reverse();
+}
+
+/**
+ * Decodes the basket tokens carrying the given operation, soonest to expire first.
+ */
+async function listBasketTokens(operation: string, logger: Logger, basket: string): Promise<CommitmentSummary[]> {
+  const tokens = await getTransactionOutputs({
+    basket,
+    spendable: true,
+    includeEnvelope: true,
+    includeCustomInstructions: true,
+  });
+
+  const commitments: CommitmentSummary[] = [];
+  for (const token of tokens) {
+    try {
+      const commitment = decodeCommitmentToken(token, operation);
+      if (commitment !== null) commitments.push(commitment);
+    } catch (error) {
+      logger.warn('Skipping a token that is not a storage commitment', { txid: token.txid, vout: token.vout, error });
+    }
+  }
+  return commitments.sort((a, b) => a.expiryTime - b.expiryTime);
+}
+
+/**
+ * Decodes a `tm_uhrp` basket output into the commitment it advertises.
+ * @param {GetTransactionOutputResult} token - The basket output.
+ * @param {string} operation - The operation the token must carry, `advertise` by default.
+ * @returns {CommitmentSummary | null} - The commitment, or null for a token carrying another operation.
+ * @throws {Error} - If the output is not a storage commitment token.
+ */
+export function decodeCommitmentToken(token: GetTransactionOutputResult, operation = 'advertise'): CommitmentSummary | null {
+  const rawFields = decodePushDrop(token.outputScript).fields;
+  getCommitmentLayout(rawFields.length);
+  const fields = rawFields.map(field => Buffer.from(field));
+  if (fields[3].toString('utf8') !== operation) return null;
+  return {
+    token,
+    txid: token.txid,
+    vout: token.vout,
+    url: fields[4].toString('utf8'),
+    hash: fields[2].toString('hex'),
+    fileSize: parseInt(fields[6].toString('utf8'), 10),
+    expiryTime: parseInt(fields[5].toString('utf8'), 10),
+    terms: decodeCommitmentTerms(rawFields),
+  };
+}
+
+/**
+ * Classifies a commitment by how long it has left.
+ * @param {number} expiryTime - Unix timestamp, in seconds, when hosting ends.
+ * @param {number} now - The current Unix timestamp, in seconds.
+ * @returns {CommitmentStatus} - Expired once the expiry time is reached, expiring within a day of it, otherwise active.
+ */
+export function getCommitmentStatus(expiryTime: number, now: number): CommitmentStatus {
+  if (expiryTime <= now) return 'expired';
+  if (expiryTime - now <= EXPIRING_SOON_SECONDS) return 'expiring';
+  return 'active';
+}
+
+/**
+ * Describes how long remains until a commitment expires, to the two largest units.
+ * @param {number} seconds - Seconds remaining.
+ * @returns {string} - For example `3d 4h`, `2h 5m` or `45s`, or `Expired` when none remain.
+ */
+export function formatCountdown(seconds: number): string {
+  if (seconds <= 0) return 'Expired';
+  const units: Array<[string, number]> = [['d', 86400], ['h', 3600], ['m', 60], ['s', 1]];
+  const parts: string[] = [];
+  let remaining = Math.floor(seconds);
+  for (const [label, size] of units) {
+    const count = Math.floor(remaining / size);
+    remaining -= count * size;
+    if (count > 0 || parts.length > 0) parts.push(`${count}${label}`);
+    if (parts.length === 2) break;
+  }
+  return parts.join(' ');
+}
@@ -0,0 +1,142 @@
+import { Buffer } from 'buffer';
+import { Script, Transaction } from '@bsv/sdk';
+import { getURLForHash } from 'uhrp-url';
+import {
+  CommitmentTerms, DEFAULT_MINIMUM_OUTPUT_AMOUNT, Logger, UHRPOutputRejection, UHRPTopicManager, silentLogger,
+} from 'uhrp-topic-manager';
+import { TopicManager } from '../TopicManager';
+import { CommitmentConfig, DEFAULT_COMMITMENT_CONFIG } from '../config/commitmentConfig';
+import { HostSigner } from '../signers/HostSigner';
+import { hashFileFromURL, HashProgress, StreamedFileHash } from './streamFileHash';
+import { prepareCommitment, PreparedCommitment } from './publishCommitment';
+
+// One check made before a commitment is published
+export interface PreflightCheck {
+  name: 'reachable' | 'hash' | 'commitment' | 'overlay';
+  passed: boolean;
+  details: string; // What was found, or why the check failed
+}
+
+// What publishing a commitment would do, and whether the overlay would admit it
+export interface CommitmentPreflightReport {
+  ok: boolean; // Whether every check passed, so the commitment can be published
+  checks: PreflightCheck[];
+  uhrpURL?: string; // The UHRP URL of the file, once it could be hashed
+  outputAmount: number; // Satoshis the commitment output would hold
+  basket: string; // The wallet basket the output would be kept in
+  overlayURLs: string[]; // The overlay nodes the commitment would be submitted to
+  prepared?: PreparedCommitment; // The signed commitment, to be published as it is once reviewed
+}
+
+/**
+ * Checks a file hosting commitment before it is published, without creating or broadcasting a transaction.
+ * The file is downloaded to confirm it is served and to hash it, then the exact output script is built
+ * and validated by the client's TopicManager and by the overlay's own UHRPTopicManager.
+ * @param {string} url - The URL of the file to be committed.
+ * @param {number} hostingMinutes - Duration for committing to hosting the file at the given url.
+ * @param {HostSigner} signer - Locks and signs the commitment.
+ * @param {CommitmentConfig} config - The output amount, basket, protocol ID and overlay nodes to use, the defaults unless given.
+ * @param {Logger} logger - Receives progress and failures, silent by default.
+ * @param {Function} onProgress - Called as the file is downloaded and hashed.
+ * @param {AbortSignal} signal - Cancels the download.
+ * @param {StreamedFileHash} expectedHash - The hash and size the served file must have, such as those of a file just uploaded.
+ * @param {CommitmentTerms} terms - Hosting terms offered to downloaders.
+ * @param {number} minimumOutputAmount - The fewest satoshis the overlay nodes admit in a commitment output, the topic manager's default unless given.
+ * @returns {Promise<CommitmentPreflightReport>} - The checks made, and the prepared commitment when the file could be hashed.
+ * @throws {Error} - Only if the signer fails or the signal aborts; failed checks are reported instead.
+ */
+export async function preflightCommitment({
+  url,
+  hostingMinutes,
+  signer,
+  config = DEFAULT_COMMITMENT_CONFIG,
+  logger = silentLogger,
+  onProgress,
+  signal,
+  expectedHash,
+  terms,
+  minimumOutputAmount = DEFAULT_MINIMUM_OUTPUT_AMOUNT,
+}: {
+  url: string;
+  hostingMinutes: number;
+  signer: HostSigner;
+  config?: CommitmentConfig;
+  logger?: Logger;
+  onProgress?: (progress: HashProgress) => void;
+  signal?: AbortSignal;
+  expectedHash?: Pick<StreamedFileHash, 'hash' | 'contentLength'>;
+  terms?: CommitmentTerms;
+  minimumOutputAmount?: number;
+}): Promise<CommitmentPreflightReport> {
+  const checks: PreflightCheck[] = [];
+  const report = (prepared?: PreparedCommitment): CommitmentPreflightReport => ({
+    ok: checks.every(check => check.passed),
+    checks,
+    uhrpURL: prepared ? getURLForHash(prepared.hash) : undefined,
+    outputAmount: config.outputAmount,
+    basket: config.basket,
+    overlayURLs: config.overlayURLs,
+    prepared,
+  });
+
+  let fileHash: StreamedFileHash;
+  try {
+    fileHash = await hashFileFromURL(url, { onProgress, signal });
+    checks.push({ name: 'reachable', passed: true, details: `${url} served ${fileHash.contentLength} bytes.` });
+  } catch (error) {
+    signal?.throwIfAborted();
+    checks.push({ name: 'reachable', passed: false, details: `${url} could not be downloaded: ${error instanceof Error ? error.message : error}` });
+    return report();
+  }
+
+  if (expectedHash && !(expectedHash.hash.equals(fileHash.hash) && expectedHash.contentLength === fileHash.contentLength)) {
+    checks.push({
+      name: 'hash',
+      passed: false,
+      details: `The served file (${fileHash.contentLength} bytes, ${fileHash.uhrpURL}) is not the expected one `
+        + `(${expectedHash.contentLength} bytes, ${getURLForHash(expectedHash.hash)}).`,
+    });
+  } else {
+    checks.push({
+      name: 'hash',
+      passed: true,
+      details: expectedHash ? 'The served file matches the expected hash.' : `The commitment will be to the served file, ${fileHash.uhrpURL}.`,
+    });
+  }
+
+  const prepared = await prepareCommitment({ url, hostingMinutes, signer, config, logger, fileHash, terms });
+  const script = Buffer.from(prepared.script, 'hex');
+
+  const validation = TopicManager.validateCommitment(script, logger);
+  checks.push(validation.valid
+    ? { name: 'commitment', passed: true, details: `A valid commitment from ${validation.commitment.host}, until ${new Date(validation.commitment.expiryTime * 1000).toISOString()}.` }
+    : { name: 'commitment', passed: false, details: `${validation.code}: ${validation.details}` });
+
+  checks.push(await checkOverlayAdmittance(prepared.script, config.outputAmount, minimumOutputAmount, logger));
+  logger.info('Commitment preflight finished', { url, checks });
+  return report(prepared);
+}
+
+/**
+ * Runs the overlay's UHRPTopicManager over a transaction holding only the commitment output, as an overlay node would on submission.
+ * The transaction is neither funded nor signed, as the topic manager only judges its outputs.
+ * @param {string} script - The commitment's locking script, as hex.
+ * @param {number} outputAmount - The satoshis the output would hold.
+ * @param {number} minimumOutputAmount - The fewest satoshis the overlay admits in a commitment output.
+ * @param {Logger} logger - Receives the topic manager's diagnostics.
+ * @returns {Promise<PreflightCheck>} - Whether the overlay would admit the commitment, with its reasons if not.
+ */
+async function checkOverlayAdmittance(script: string, outputAmount: number, minimumOutputAmount: number, logger: Logger): Promise<PreflightCheck> {
+  const transaction = new Transaction(1, [], [{ lockingScript: Script.fromHex(script), satoshis: outputAmount }], 0);
+  const rejections: UHRPOutputRejection[] = [];
+  const { outputsToAdmit } = await new UHRPTopicManager(logger, minimumOutputAmount)
+    .identifyAdmissibleOutputs(transaction.toBEEF(), [], rejection => rejections.push(rejection));
+  if (outputsToAdmit.includes(0)) {
+    return { name: 'overlay', passed: true, details: 'The overlay would admit this commitment.' };
+  }
+  return {
+    name: 'overlay',
+    passed: false,
+    details: rejections.map(({ reason, message }) => `${reason}: ${message}`).join(' ') || 'The overlay would not admit this commitment.',
+  };
+}
@@ -1,103 +1,207 @@
 import { createAction, toBEEFfromEnvelope, EnvelopeEvidenceApi } from '@babbage/sdk-ts';
-import { getURLForFile, getHashFromURL } from 'uhrp-url';
 import pushdrop from 'pushdrop';
 import { Buffer } from 'buffer';
 import { v4 as uuidv4 } from 'uuid'; // Import uuidv4 to generate unique key IDs
+import { Logger, silentLogger, CommitmentTerms, UHRP_PROTOCOL_ADDRESS, encodeCommitmentTerms } from 'uhrp-topic-manager';
+import { getURLForHash } from 'uhrp-url';
+import { hashFileFromURL, HashProgress, StreamedFileHash } from './streamFileHash';
+import { OverlayClient, OverlayBroadcastError, OverlayBroadcastResult } from '../overlay/OverlayClient';
+import { CommitmentConfig, DEFAULT_COMMITMENT_CONFIG } from '../config/commitmentConfig';
+import { HostSigner } from '../signers/HostSigner';
 
-// Define the expected structure of the result
-interface UHRPResponse {
-  uhrpURL: string; // The UHRP URL returned from the server
-}
+// The protocol ID commitments were created under before it could be configured
+export const COMMITMENT_PROTOCOL_ID = DEFAULT_COMMITMENT_CONFIG.protocolID;
 
 // 1. Generate a unique key ID for each commitment
 const generateUniqueKeyID = () => {
   return uuidv4();
 };
 
+/**
+ * Builds the PushDrop locking script of a commitment.
+ * The commitment names its host by the P2PKH address of the key that locks it, which is also the key that signs it,
+ * as the overlay only admits commitments whose host address belongs to the locking key.
+ * @param {HostSigner} signer - Supplies the locking key and signs the fields.
+ * @param {string} protocolID - The protocol ID the commitment is created under.
+ * @param {string} keyID - The key ID of the commitment, recorded so the token can later be redeemed.
+ * @param {(string | Buffer)[]} fields - The fields that follow the protocol and host addresses, in order.
+ * @returns {Promise<{ script: string; address: string }>} - The script as hex, and the host address it names.
+ */
+export async function createCommitmentScript({
+  signer,
+  protocolID,
+  keyID,
+  fields,
+}: {
+  signer: HostSigner;
+  protocolID: string;
+  keyID: string;
+  fields: (string | Buffer)[];
+}): Promise<{ script: string; address: string }> {
+  const lockingKey = await signer.getLockingKey(protocolID, keyID);
+  const address = lockingKey.toAddress();
+  const allFields = [UHRP_PROTOCOL_ADDRESS, address, ...fields].map(field => (typeof field === 'string' ? Buffer.from(field, 'utf8') : field));
+  const signature = await signer.sign(Array.from(Buffer.concat(allFields)), protocolID, keyID);
+  // The fields are signed above, so pushdrop only lays out the script
+  const script = await pushdrop.create({
+    fields: [...allFields, Buffer.from(signature)],
+    ownerKey: lockingKey.toString(),
+    disableSignature: true,
+  });
+  return { script, address };
+}
+
+// A commitment whose output script is built and signed, ready to be funded and broadcast
+export interface PreparedCommitment {
+  url: string; // The URL of the file committed to
+  hash: Buffer; // SHA-256 hash of the file
+  contentLength: number; // Size of the file in bytes
+  hostingMinutes: number; // How long the file is hosted for, from when the commitment was prepared
+  expiryTime: number; // Unix timestamp, in seconds, when hosting ends
+  keyID: string; // The key ID the commitment is locked under
+  protocolID: string; // The protocol ID the commitment is locked under
+  address: string; // The host address the commitment names
+  script: string; // The PushDrop locking script, as hex
+}
+
+/**
+ * Builds and signs the output script of a file hosting commitment, without creating a transaction.
+ * @param {string} url - The URL of the file to be committed.
+ * @param {number} hostingMinutes - Duration for committing to hosting the file at the given url.
+ * @param {HostSigner} signer - Locks and signs the commitment, which names its host by the locking key's address.
+ * @param {CommitmentConfig} config - The protocol ID to lock the commitment under, from the defaults unless given.
+ * @param {Logger} logger - Receives progress and failures, silent by default.
+ * @param {Function} onProgress - Called as the file is downloaded and hashed.
+ * @param {AbortSignal} signal - Cancels the download.
+ * @param {StreamedFileHash} fileHash - The hash and size of the file, when already known, so it is not downloaded again.
+ * @param {CommitmentTerms} terms - Hosting terms offered to downloaders, appended after the seven base fields when given.
+ * @returns {Promise<PreparedCommitment>} - The signed script, and what it commits to.
+ */
+export async function prepareCommitment({
+  url,
+  hostingMinutes,
+  signer,
+  config = DEFAULT_COMMITMENT_CONFIG,
+  logger = silentLogger,
+  onProgress,
+  signal,
+  fileHash,
+  terms,
+}: {
+  url: string;
+  hostingMinutes: number;
+  signer: HostSigner;
+  config?: CommitmentConfig;
+  logger?: Logger;
+  onProgress?: (progress: HashProgress) => void;
+  signal?: AbortSignal;
+  fileHash?: Pick<StreamedFileHash, 'hash' | 'contentLength'>;
+  terms?: CommitmentTerms;
+}): Promise<PreparedCommitment> {
+  // The file is hashed as it downloads, so large files are never held in memory
+  logger.debug('Step 1: Hashing the file, unless it was hashed before upload', { url, alreadyHashed: fileHash !== undefined });
+  const { hash, contentLength } = fileHash ?? await hashFileFromURL(url, { onProgress, signal });
+  logger.debug('File hashed', { size: contentLength, hash: hash.toString('hex') });
+
+  logger.debug('Step 2: Calculating expiry time');
+  const currentTime = Math.floor(Date.now() / 1000); // Current time in seconds
+  const expiryTime = currentTime + hostingMinutes * 60;
+  logger.debug('Expiry time calculated', { expiryTime });
+
+  // Validate if the expiry time is in the past or invalid
+  if (expiryTime <= currentTime) {
+    throw new Error('Invalid or expired timestamp.');
+  }
+
+  logger.debug('Step 3: Generating unique key ID for the commitment');
+  const keyID = generateUniqueKeyID();
+  logger.debug('Key ID generated', { keyID });
+
+  logger.debug('Step 4: Creating output script using pushdrop');
+  const { script, address } = await createCommitmentScript({
+    signer,
+    protocolID: config.protocolID,
+    keyID,
+    fields: [
+      hash,
+      'advertise',
+      url,
+      expiryTime.toString(),
+      contentLength.toString(),
+      ...(terms ? encodeCommitmentTerms(terms) : []), // Versioned hosting terms, when offered
+    ],
+  });
+  logger.debug('Output script created', { outputScript: script, address });
+
+  return { url, hash, contentLength, hostingMinutes, expiryTime, keyID, protocolID: config.protocolID, address, script };
+}
+
 /**
  * Publishes a file hosting commitment.
  * @param {string} url - The URL of the file to be committed.
  * @param {number} hostingMinutes - Duration for committing to hosting the file at the given url.
- * @param {string} address - Address associated with the commitment.
- * @param {string} serviceURL - The overlay service URL where the commitment is submitted.
+ * @param {HostSigner} signer - Locks and signs the commitment, which names its host by the locking key's address.
+ * @param {CommitmentConfig} config - The output amount, basket, protocol ID and overlay nodes to use, the defaults unless given.
+ * @param {string | string[]} serviceURL - The overlay service URL where the commitment is submitted, or several to broadcast to, overriding the config's.
+ * @param {Logger} logger - Receives progress and failures, silent by default.
+ * @param {Function} onProgress - Called as the file is downloaded and hashed.
+ * @param {AbortSignal} signal - Cancels the commitment until the transaction is created.
+ * @param {StreamedFileHash} fileHash - The hash and size of the file, when already known, so it is not downloaded again.
+ * @param {CommitmentTerms} terms - Hosting terms offered to downloaders, appended after the seven base fields when given.
+ * @param {PreparedCommitment} prepared - A commitment already prepared, such as one reviewed with preflightCommitment, published as it is.
  * @returns {Promise<string>} - The UHRP URL of the published commitment.
  */
 export async function publishCommitment({
   url,
   hostingMinutes,
-  address,
-  serviceURL = 'https://staging-overlay.babbage.systems',
+  signer,
+  config = DEFAULT_COMMITMENT_CONFIG,
+  serviceURL = config.overlayURLs,
+  logger = silentLogger,
+  onProgress,
+  signal,
+  fileHash,
+  terms,
+  prepared,
 }: {
   url: string;
   hostingMinutes: number;
-  address: string;
-  serviceURL?: string;
+  signer: HostSigner;
+  config?: CommitmentConfig;
+  serviceURL?: string | string[];
+  logger?: Logger;
+  onProgress?: (progress: HashProgress) => void;
+  signal?: AbortSignal;
+  fileHash?: Pick<StreamedFileHash, 'hash' | 'contentLength'>;
+  terms?: CommitmentTerms;
+  prepared?: PreparedCommitment;
 }): Promise<string> {
-  console.log('publishCommitment function is being called');
   try {
-    console.log('Step 1: Fetching file from URL:', url);
-    const response = await fetch(url);
-    if (!response.ok) throw new Error('Failed to fetch the file');
-    const fileBlob = await response.blob();
-    console.log('File fetched successfully, size:', fileBlob.size);
-
-    console.log('Step 2: Converting Blob to Buffer');
-    const arrayBuffer = await fileBlob.arrayBuffer();
-    const fileBuffer = Buffer.from(arrayBuffer);
-    console.log('Buffer created, size:', fileBuffer.length);
-
-    console.log('Step 3: Generating UHRP URL');
-    const uhrpURL = getURLForFile(fileBuffer);
-    console.log('UHRP URL generated:', uhrpURL);
-
-    console.log('Step 4: Generating hash from UHRP URL');
-    const hash = getHashFromURL(uhrpURL);
-    console.log('Hash generated:', hash);
-
-    console.log('Step 5: Calculating expiry time');
-    const currentTime = Math.floor(Date.now() / 1000); // Current time in seconds
-    const expiryTime = currentTime + hostingMinutes * 60;
-    console.log('Expiry time calculated:', expiryTime);
-
-    // Validate if the expiry time is in the past or invalid
-    if (expiryTime <= currentTime) {
-      console.log('Invalid or expired timestamp:', expiryTime);
-      throw new Error('Invalid or expired timestamp.');
-    }
-
-    console.log('Step 6: Generating unique key ID for the commitment');
-    const keyID = generateUniqueKeyID();
-    console.log('Key ID generated:', keyID);
-
-    console.log('Step 7: Creating output script using pushdrop');
-    const outputScript = await pushdrop.create({
-      fields: [
-        '1UHRPYnMHPuQ5Tgb3AF8JXqwKkmZVy5hG', // Add UHRP protocol address as the first field
-        address,
-        hash,
-        'advertise',
-        url,
-        expiryTime.toString(),
-        fileBuffer.length.toString(),
-      ],
-      protocolID: 'UHRP File Commitment',
-      keyID,
-    });
-    console.log('Output script created:', outputScript.toString('hex'));
+    const { hash, keyID, protocolID, address, script: outputScript } = prepared
+      ?? await prepareCommitment({ url, hostingMinutes, signer, config, logger, onProgress, signal, fileHash, terms });
 
-    console.log('Step 8: Building blockchain transaction using createAction');
+    // Once the transaction is created the commitment can no longer be cancelled
+    signal?.throwIfAborted();
+    logger.debug('Step 5: Building blockchain transaction using createAction');
     const action = await createAction({
       outputs: [
         {
-          satoshis: 1000,
+          satoshis: config.outputAmount,
           script: outputScript,
-          basket: 'tm_uhrp',
-          customInstructions: JSON.stringify({ url, hostingMinutes, address }),
+          basket: config.basket,
+          // The key ID and protocol ID are kept so the token can later be renewed or revoked
+          customInstructions: JSON.stringify({
+            url: prepared?.url ?? url,
+            hostingMinutes: prepared?.hostingMinutes ?? hostingMinutes,
+            address,
+            keyID,
+            protocolID,
+          }),
         },
       ],
       description: 'Submitting a new file storage commitment',
     });
-    console.log('Action created:', action);
+    logger.debug('Action created', { txid: action.txid });
 
     // Check if action includes rawTx, inputs, and txid
     if (!action.rawTx || !action.txid) {
@@ -108,66 +212,54 @@ export async function publishCommitment({
       ? (action.inputs as Record<string, EnvelopeEvidenceApi>)
       : {};
 
-    console.log('Action rawTx:', action.rawTx);
-    console.log('Action inputs:', inputs);
-    console.log('Action txid:', action.txid);
-
     // Convert the action to BEEF format before submitting
-    console.log('Step 9: Converting action to BEEF format');
+    logger.debug('Step 6: Converting action to BEEF format');
     const beef = toBEEFfromEnvelope({
       rawTx: action.rawTx,
       inputs: inputs,
       txid: action.txid,
     }).beef;
 
-    console.log('BEEF format generated:', beef);
-    console.log('BEEF data to submit:', beef);
-    console.log('Submitting to serviceURL:', serviceURL);
+    logger.debug('BEEF format generated', { beef });
 
     // Submitting UHRP advertisement token data to the overlay in BEEF format
-    console.log('Step 10: Submitting BEEF data to overlay');
-    console.log('BEEF data being submitted:', beef);
-    console.log('Request Headers:', {
-      'Content-Type': 'application/octet-stream',
-      'X-Topics': JSON.stringify(['tm_uhrp']),
-    });
-    console.log('Submitting to serviceURL:', `${serviceURL}/submit`);
-
-    const responseData = await fetch(`${serviceURL}/submit`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/octet-stream',
-        'X-Topics': JSON.stringify(['tm_uhrp']),
-      },
-      body: Buffer.isBuffer(beef) ? beef : Buffer.from(beef), 
-    });
-
-    console.log('Response status:', responseData.status);
-    console.log('Response headers:', responseData.headers);
-
-    const responseBody = await responseData.text();
-    console.log('Response body:', responseBody);
+    logger.debug('Step 7: Submitting BEEF data to overlay', { serviceURL });
+    // The commitment output is the first output of the action
+    const result = await submitToOverlay(beef, serviceURL, logger, 0);
+    const uhrpURL = getURLForHash(hash);
+    logger.info('Published file storage commitment', { txid: action.txid, uhrpURL, accepted: result.accepted });
 
-    if (!responseData.ok) {
-      console.log('Error details: Response not OK, status:', responseData.status);
-      throw new Error('Failed to submit UHRP advertisement');
-    }
-
-    let result: UHRPResponse;
-    try {
-      result = JSON.parse(responseBody) as UHRPResponse;
-    } catch (error) {
-      console.error('Failed to parse response as JSON:', error);
-      throw new Error('Unexpected response format');
-    }
-
-    console.log('Response received from overlay:', result);
-
-    return result.uhrpURL;
+    return uhrpURL;
 
   } catch (error) {
-    console.error('Error creating commitment:', error);
+    logger.error('Error creating commitment', error);
     throw error;
   }
 }
 
+/**
+ * Submits a transaction containing a UHRP token to the overlay, and confirms that the token was admitted.
+ * @param {number[] | Buffer} beef - The transaction in BEEF format.
+ * @param {string | string[]} serviceURL - The overlay service URL, or several to broadcast to.
+ * @param {Logger} logger - Receives the submission attempts and outcomes, silent by default.
+ * @param {number | number[]} outputIndex - The index of the UHRP token output in the transaction, or of each one; none when the transaction only spends tokens.
+ * @returns {Promise<OverlayBroadcastResult>} - Which overlay nodes admitted the token, and how each one answered.
+ * @throws {OverlayBroadcastError} - If no overlay node admitted the token to `tm_uhrp`.
+ */
+export async function submitToOverlay(
+  beef: number[] | Buffer,
+  serviceURL: string | string[],
+  logger: Logger = silentLogger,
+  outputIndex: number | number[] = 0
+): Promise<OverlayBroadcastResult> {
+  const hosts = Array.isArray(serviceURL) ? serviceURL : [serviceURL];
+  logger.debug('Submitting to overlay', { hosts, outputIndex });
+
+  const result = await new OverlayClient({ hosts, logger }).broadcast(beef, { topics: ['tm_uhrp'], outputIndex });
+  if (result.accepted.length === 0) {
+    throw new OverlayBroadcastError('Failed to submit UHRP advertisement', result);
+  }
+
+  logger.debug('Overlay nodes admitted the token', { accepted: result.accepted });
+  return result;
+}
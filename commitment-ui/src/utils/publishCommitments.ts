@@ -0,0 +1,178 @@
+import { createAction, toBEEFfromEnvelope, EnvelopeEvidenceApi } from '@babbage/sdk-ts';
+import { v4 as uuidv4 } from 'uuid';
+import { getURLForHash } from 'uhrp-url';
+import { Logger, silentLogger, CommitmentTerms, encodeCommitmentTerms } from 'uhrp-topic-manager';
+import { createCommitmentScript } from './publishCommitment';
+import { hashFileFromURL, HashProgress, StreamedFileHash } from './streamFileHash';
+import { OverlayClient, OverlayBroadcastError } from '../overlay/OverlayClient';
+import { CommitmentConfig, DEFAULT_COMMITMENT_CONFIG } from '../config/commitmentConfig';
+import { HostSigner } from '../signers/HostSigner';
+
+// One file to commit to as part of a batch
+export interface BatchCommitmentFile {
+  url: string; // The URL of the file to be committed
+  hostingMinutes?: number; // Hosting time for this file, overriding the batch's
+  fileHash?: Pick<StreamedFileHash, 'hash' | 'contentLength'>; // The hash and size, when already known
+}
+
+// What became of one file in a batch
+export interface BatchCommitmentResult {
+  url: string; // The URL of the file
+  uhrpURL?: string; // The UHRP URL of the file, once it was hashed
+  outputIndex?: number; // Index of the file's commitment output in the batch transaction
+  admitted: boolean; // Whether an overlay node admitted the file's commitment
+  error?: string; // Why the file was not committed, or not admitted
+}
+
+// The outcome of publishing a batch of commitments
+export interface BatchCommitmentResponse {
+  txid: string; // The transaction holding every commitment in the batch
+  results: BatchCommitmentResult[]; // One result per file, in the order given
+}
+
+// A line of a commitment list, before the hosting time is converted to minutes
+export interface CommitmentListEntry {
+  url: string; // The URL of the file
+  hostingDays?: number; // Hosting time for this file, when the line gives one
+}
+
+/**
+ * Parses a list of files to commit to, as pasted URLs or an imported CSV.
+ * Each line holds a URL, optionally followed by a comma and the hosting time in days. Blank lines and a `url` header are skipped.
+ * @param {string} text - The list, one file per line.
+ * @returns {CommitmentListEntry[]} - The files, in order.
+ * @throws {Error} - Naming the first line that does not hold a URL and an optional whole number of days.
+ */
+export function parseCommitmentList(text: string): CommitmentListEntry[] {
+  const entries: CommitmentListEntry[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    const [url, days, ...rest] = line.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+    if (!url || (i === 0 && url.toLowerCase() === 'url')) return;
+    if (rest.some(cell => cell !== '') || !/^https?:\/\//i.test(url) || (days && !/^[1-9]\d*$/.test(days))) {
+      throw new Error(`Line ${i + 1} must be a URL, optionally followed by a whole number of hosting days.`);
+    }
+    entries.push(days ? { url, hostingDays: parseInt(days, 10) } : { url });
+  });
+  return entries;
+}
+
+/**
+ * Publishes hosting commitments for many files in a single transaction, with one commitment output per file.
+ * Files that cannot be hashed are left out of the transaction, and the overlay may admit only some of the outputs,
+ * so each file's result is reported separately.
+ * @param {BatchCommitmentFile[]} files - The files to commit to.
+ * @param {number} hostingMinutes - Hosting time for files that do not give their own.
+ * @param {HostSigner} signer - Locks and signs each commitment, which names its host by the locking key's address.
+ * @param {CommitmentConfig} config - The output amount, basket, protocol ID and overlay nodes to use, the defaults unless given.
+ * @param {string | string[]} serviceURL - The overlay service URL where the batch is submitted, or several to broadcast to, overriding the config's.
+ * @param {Logger} logger - Receives progress and failures, silent by default.
+ * @param {Function} onProgress - Called as each file is downloaded and hashed, with the file's index.
+ * @param {AbortSignal} signal - Cancels the batch until the transaction is created.
+ * @param {CommitmentTerms} terms - Hosting terms offered for every file in the batch.
+ * @returns {Promise<BatchCommitmentResponse>} - The batch transaction, and what became of each file.
+ * @throws {OverlayBroadcastError} - If no overlay node admitted any of the commitments.
+ */
+export async function publishCommitments({
+  files,
+  hostingMinutes,
+  signer,
+  config = DEFAULT_COMMITMENT_CONFIG,
+  serviceURL = config.overlayURLs,
+  logger = silentLogger,
+  onProgress,
+  signal,
+  terms,
+}: {
+  files: BatchCommitmentFile[];
+  hostingMinutes: number;
+  signer: HostSigner;
+  config?: CommitmentConfig;
+  serviceURL?: string | string[];
+  logger?: Logger;
+  onProgress?: (fileIndex: number, progress: HashProgress) => void;
+  signal?: AbortSignal;
+  terms?: CommitmentTerms;
+}): Promise<BatchCommitmentResponse> {
+  if (files.length === 0) {
+    throw new Error('At least one file is required.');
+  }
+  const termFields = terms ? encodeCommitmentTerms(terms) : [];
+  const results: BatchCommitmentResult[] = files.map(({ url }) => ({ url, admitted: false }));
+  const outputs: { script: string; satoshis: number; basket: string; customInstructions: string }[] = [];
+
+  // Files are hashed one at a time, so a large batch does not download everything at once
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    signal?.throwIfAborted();
+    const fileHostingMinutes = file.hostingMinutes ?? hostingMinutes;
+    try {
+      if (!(fileHostingMinutes > 0)) {
+        throw new Error('Hosting time must be greater than 0.');
+      }
+      const { hash, contentLength } = file.fileHash
+        ?? await hashFileFromURL(file.url, { onProgress: progress => onProgress?.(i, progress), signal });
+      results[i].uhrpURL = getURLForHash(hash);
+
+      const expiryTime = Math.floor(Date.now() / 1000) + fileHostingMinutes * 60;
+      const keyID = uuidv4();
+      const { script, address } = await createCommitmentScript({
+        signer,
+        protocolID: config.protocolID,
+        keyID,
+        fields: [hash, 'advertise', file.url, expiryTime.toString(), contentLength.toString(), ...termFields],
+      });
+      results[i].outputIndex = outputs.length;
+      outputs.push({
+        script,
+        satoshis: config.outputAmount,
+        basket: config.basket,
+        // The key ID and protocol ID are kept so the token can later be renewed or revoked
+        customInstructions: JSON.stringify({ url: file.url, hostingMinutes: fileHostingMinutes, address, keyID, protocolID: config.protocolID }),
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      results[i].error = error instanceof Error ? error.message : String(error);
+      logger.warn('Leaving a file out of the commitment batch', { url: file.url, error: results[i].error });
+    }
+  }
+  if (outputs.length === 0) {
+    throw new Error('None of the files could be committed to.');
+  }
+
+  // Once the transaction is created the batch can no longer be cancelled
+  signal?.throwIfAborted();
+  const action = await createAction({
+    outputs,
+    description: `Submitting ${outputs.length} file storage commitments`,
+  });
+  if (!action.rawTx || !action.txid) {
+    throw new Error('Missing values in action: rawTx or txid');
+  }
+  const beef = toBEEFfromEnvelope({
+    rawTx: action.rawTx,
+    inputs: (action.inputs || {}) as Record<string, EnvelopeEvidenceApi>,
+    txid: action.txid,
+  }).beef;
+
+  const outputIndices = outputs.map((_, index) => index);
+  const hosts = Array.isArray(serviceURL) ? serviceURL : [serviceURL];
+  const broadcast = await new OverlayClient({ hosts, logger }).broadcast(beef, { topics: ['tm_uhrp'], outputIndex: outputIndices });
+
+  // An output counts as admitted once any overlay node admitted it
+  const admittedIndices = new Set(broadcast.nodes.flatMap(node => node.steak?.tm_uhrp?.outputsToAdmit ?? []));
+  if (!outputIndices.some(index => admittedIndices.has(index))) {
+    throw new OverlayBroadcastError('Failed to submit UHRP advertisements', broadcast);
+  }
+  for (const result of results) {
+    if (result.outputIndex === undefined) continue;
+    result.admitted = admittedIndices.has(result.outputIndex);
+    if (!result.admitted) result.error = 'The overlay did not admit this commitment.';
+  }
+
+  logger.info('Published file storage commitment batch', {
+    txid: action.txid,
+    committed: outputs.length,
+    admitted: results.filter(result => result.admitted).length,
+  });
+  return { txid: action.txid, results };
+}
@@ -0,0 +1,138 @@
+import { publishCommitment } from './publishCommitment';
+import { preflightCommitment, CommitmentPreflightReport } from './preflightCommitment';
+import { hashFile, HashProgress } from './streamFileHash';
+import { StorageUploader } from '../uploaders/StorageUploader';
+import { Logger, silentLogger, CommitmentTerms } from 'uhrp-topic-manager';
+import { CommitmentConfig } from '../config/commitmentConfig';
+import { HostSigner } from '../signers/HostSigner';
+
+// The stage a local-file commitment has reached
+export type LocalFilePhase = 'hashing' | 'uploading' | 'checking' | 'publishing';
+
+/**
+ * Publishes a hosting commitment for a local file: hashes it in the browser, uploads it, then commits to the uploaded URL.
+ * The hash computed here is committed to directly, so the file is not downloaded again.
+ * @param {File} file - The file chosen by the user.
+ * @param {StorageUploader} uploader - Uploads the file to the storage host.
+ * @param {number} hostingMinutes - Duration for committing to hosting the file.
+ * @param {HostSigner} signer - Locks and signs the commitment.
+ * @param {CommitmentConfig} config - The output amount, basket, protocol ID and overlay nodes to use, the defaults unless given.
+ * @param {string | string[]} serviceURL - The overlay service URL where the commitment is submitted, or several to broadcast to.
+ * @param {Logger} logger - Receives progress and failures, silent by default.
+ * @param {Function} onPhase - Called as each stage starts.
+ * @param {Function} onProgress - Called as the file is hashed.
+ * @param {AbortSignal} signal - Cancels the commitment until the transaction is created.
+ * @param {CommitmentTerms} terms - Hosting terms offered to downloaders.
+ * @returns {Promise<string>} - The UHRP URL of the published commitment.
+ */
+export async function publishLocalFileCommitment({
+  file,
+  uploader,
+  hostingMinutes,
+  signer,
+  config,
+  serviceURL,
+  logger = silentLogger,
+  onPhase,
+  onProgress,
+  signal,
+  terms,
+}: {
+  file: File;
+  uploader: StorageUploader;
+  hostingMinutes: number;
+  signer: HostSigner;
+  config?: CommitmentConfig;
+  serviceURL?: string | string[];
+  logger?: Logger;
+  onPhase?: (phase: LocalFilePhase) => void;
+  onProgress?: (progress: HashProgress) => void;
+  signal?: AbortSignal;
+  terms?: CommitmentTerms;
+}): Promise<string> {
+  onPhase?.('hashing');
+  const fileHash = await hashFile(file, { onProgress, signal });
+  logger.debug('Local file hashed', { name: file.name, size: fileHash.contentLength, uhrpURL: fileHash.uhrpURL });
+
+  onPhase?.('uploading');
+  const url = await uploader.upload(file, { fileName: file.name, signal });
+  logger.debug('Local file uploaded', { url });
+
+  onPhase?.('publishing');
+  return publishCommitment({
+    url,
+    hostingMinutes,
+    signer,
+    config,
+    serviceURL,
+    logger,
+    signal,
+    fileHash,
+    terms,
+  });
+}
+
+/**
+ * Prepares a hosting commitment for a local file for review: hashes it in the browser, uploads it,
+ * then checks the uploaded copy as preflightCommitment does, without creating or broadcasting a transaction.
+ * The uploaded copy is downloaded once to confirm it is served and matches the hash computed here.
+ * @param {File} file - The file chosen by the user.
+ * @param {StorageUploader} uploader - Uploads the file to the storage host.
+ * @param {number} hostingMinutes - Duration for committing to hosting the file.
+ * @param {HostSigner} signer - Locks and signs the commitment.
+ * @param {CommitmentConfig} config - The output amount, basket, protocol ID and overlay nodes to use, the defaults unless given.
+ * @param {Logger} logger - Receives progress and failures, silent by default.
+ * @param {Function} onPhase - Called as each stage starts.
+ * @param {Function} onProgress - Called as the file is hashed, and again as the uploaded copy is checked.
+ * @param {AbortSignal} signal - Cancels hashing, uploading and checking.
+ * @param {CommitmentTerms} terms - Hosting terms offered to downloaders.
+ * @param {number} minimumOutputAmount - The fewest satoshis the overlay nodes admit in a commitment output, the topic manager's default unless given.
+ * @returns {Promise<CommitmentPreflightReport>} - The checks made, and the prepared commitment to the uploaded URL.
+ */
+export async function preflightLocalFileCommitment({
+  file,
+  uploader,
+  hostingMinutes,
+  signer,
+  config,
+  logger = silentLogger,
+  onPhase,
+  onProgress,
+  signal,
+  terms,
+  minimumOutputAmount,
+}: {
+  file: File;
+  uploader: StorageUploader;
+  hostingMinutes: number;
+  signer: HostSigner;
+  config?: CommitmentConfig;
+  logger?: Logger;
+  onPhase?: (phase: LocalFilePhase) => void;
+  onProgress?: (progress: HashProgress) => void;
+  signal?: AbortSignal;
+  terms?: CommitmentTerms;
+  minimumOutputAmount?: number;
+}): Promise<CommitmentPreflightReport> {
+  onPhase?.('hashing');
+  const fileHash = await hashFile(file, { onProgress, signal });
+  logger.debug('Local file hashed', { name: file.name, size: fileHash.contentLength, uhrpURL: fileHash.uhrpURL });
+
+  onPhase?.('uploading');
+  const url = await uploader.upload(file, { fileName: file.name, signal });
+  logger.debug('Local file uploaded', { url });
+
+  onPhase?.('checking');
+  return preflightCommitment({
+    url,
+    hostingMinutes,
+    signer,
+    config,
+    logger,
+    onProgress,
+    signal,
+    expectedHash: fileHash,
+    terms,
+    minimumOutputAmount,
+  });
+}
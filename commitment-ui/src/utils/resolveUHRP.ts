@@ -0,0 +1,166 @@
+import { Hash, Transaction } from '@bsv/sdk';
+import { getHashFromURL } from 'uhrp-url';
+import { Buffer } from 'buffer';
+import { Logger, silentLogger } from 'uhrp-topic-manager';
+import { TopicManager } from '../TopicManager';
+import { DEFAULT_COMMITMENT_CONFIG } from '../config/commitmentConfig';
+
+// A host that has committed to serving the content
+export interface UHRPHost {
+  url: string; // Where the host serves the content
+  hostAddress: string; // The host as its commitment names it, usually a P2PKH address, as indexed by the overlay
+  expiryTime: number; // Unix timestamp, in seconds, when hosting ends
+  contentLength: number; // Size of the content in bytes, as committed
+}
+
+// Why a host could not be used
+export interface UHRPHostFailure {
+  host: UHRPHost;
+  reason: string;
+}
+
+// Content that was downloaded and matched its UHRP URL
+export interface ResolvedUHRPContent {
+  data: Buffer; // The content
+  contentType: string | null; // The MIME type reported by the host
+  host: UHRPHost; // The host that served it
+  failures: UHRPHostFailure[]; // Hosts tried before it
+}
+
+export interface ResolveUHRPOptions {
+  overlayURL?: string; // The overlay service URL to look up hosts on
+  // Reliability of each host by host address, from 0 to 1, such as from an availability audit.
+  // More reliable hosts are tried first; hosts not listed count as fully reliable.
+  hostReliability?: Record<string, number>;
+  logger?: Logger; // Receives lookup and download failures, silent by default
+  signal?: AbortSignal; // Cancels the lookup and downloads
+}
+
+// Thrown when no host could serve content matching a UHRP URL
+export class UHRPResolveError extends Error {
+  constructor(message: string, public readonly failures: UHRPHostFailure[]) {
+    super(message);
+    this.name = 'UHRPResolveError';
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, UHRPResolveError.prototype);
+  }
+}
+
+/**
+ * Finds the hosts of the content behind a UHRP URL and downloads it from the first one that serves it intact.
+ * Hosts are tried from the most reliable, then by the latest expiry, and any whose content does not match the hash is skipped.
+ * @param {string} uhrpURL - The UHRP URL of the content.
+ * @param {ResolveUHRPOptions} options - The overlay to ask, host reliability, logger and abort signal.
+ * @returns {Promise<ResolvedUHRPContent>} - The verified content and the host that served it.
+ * @throws {UHRPResolveError} - If no host serves the content, listing why each host failed.
+ */
+export async function resolveUHRP(
+  uhrpURL: string,
+  {
+    overlayURL = DEFAULT_COMMITMENT_CONFIG.overlayURLs[0],
+    hostReliability = {},
+    logger = silentLogger,
+    signal,
+  }: ResolveUHRPOptions = {}
+): Promise<ResolvedUHRPContent> {
+  const hash = Buffer.from(getHashFromURL(uhrpURL)).toString('hex');
+  const hosts = (await lookupUHRPHosts(uhrpURL, { overlayURL, logger, signal }))
+    .sort((a, b) => {
+      const reliability = (hostReliability[b.hostAddress] ?? 1) - (hostReliability[a.hostAddress] ?? 1);
+      return reliability !== 0 ? reliability : b.expiryTime - a.expiryTime;
+    });
+
+  const failures: UHRPHostFailure[] = [];
+  for (const host of hosts) {
+    try {
+      const response = await fetch(host.url, { signal });
+      if (!response.ok) {
+        throw new Error(`HTTP status ${response.status}`);
+      }
+      const data = Buffer.from(await response.arrayBuffer());
+      const served = Buffer.from(Hash.sha256(Array.from(data))).toString('hex');
+      if (served !== hash) {
+        throw new Error(`The served content hashes to ${served}`);
+      }
+      logger.debug('Resolved UHRP content', { uhrpURL, url: host.url, size: data.length });
+      return { data, contentType: response.headers.get('content-type'), host, failures };
+    } catch (error) {
+      signal?.throwIfAborted();
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn('UHRP host failed, trying the next one', { url: host.url, reason });
+      failures.push({ host, reason });
+    }
+  }
+
+  throw new UHRPResolveError(
+    hosts.length === 0 ? `No hosts are committed to serving ${uhrpURL}` : `None of the ${hosts.length} hosts served ${uhrpURL}`,
+    failures
+  );
+}
+
+/**
+ * Finds the hosts committed to serving the content behind a UHRP URL, without downloading it.
+ * Commitments the overlay returns for other content are left out.
+ * @param {string} uhrpURL - The UHRP URL of the content.
+ * @param {ResolveUHRPOptions} options - The overlay to ask, logger and abort signal.
+ * @returns {Promise<UHRPHost[]>} - The committed hosts, in the order the overlay returned them.
+ */
+export async function lookupUHRPHosts(
+  uhrpURL: string,
+  { overlayURL = DEFAULT_COMMITMENT_CONFIG.overlayURLs[0], logger = silentLogger, signal }: Omit<ResolveUHRPOptions, 'hostReliability'> = {}
+): Promise<UHRPHost[]> {
+  const hash = Buffer.from(getHashFromURL(uhrpURL)).toString('hex');
+  return (await findUHRPHosts(uhrpURL, overlayURL, logger, signal))
+    .filter(commitment => {
+      if (commitment.hash === hash) return true;
+      logger.warn('Overlay returned a commitment to different content', { uhrpURL, url: commitment.host.url });
+      return false;
+    })
+    .map(commitment => commitment.host);
+}
+
+/**
+ * Asks the overlay's UHRP lookup service for unexpired commitments to a UHRP URL.
+ * Each returned token is validated again, so hosts are only trusted for what they signed.
+ * @param {string} uhrpURL - The UHRP URL of the content.
+ * @param {string} overlayURL - The overlay service URL.
+ * @param {Logger} logger - Receives tokens that fail validation.
+ * @param {AbortSignal} signal - Cancels the lookup.
+ * @returns {Promise<Array<{ hash: string; host: UHRPHost }>>} - The committed hosts, with the hash each committed to.
+ */
+async function findUHRPHosts(
+  uhrpURL: string,
+  overlayURL: string,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<Array<{ hash: string; host: UHRPHost }>> {
+  const response = await fetch(`${overlayURL}/lookup`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ service: 'ls_uhrp', query: { type: 'uhrpURL', uhrpURL } }),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`UHRP lookup failed with status ${response.status}`);
+  }
+  const answer = await response.json();
+  if (answer?.type !== 'output-list' || !Array.isArray(answer.outputs)) {
+    throw new Error('Unexpected UHRP lookup response format');
+  }
+
+  const commitments: Array<{ hash: string; host: UHRPHost }> = [];
+  for (const output of answer.outputs as Array<{ beef: number[]; outputIndex: number }>) {
+    try {
+      const script = Transaction.fromBEEF(output.beef).outputs[output.outputIndex].lockingScript.toBinary();
+      const result = TopicManager.validateCommitment(Buffer.from(script), logger);
+      if (!result.valid) {
+        throw new Error(`${result.code}: ${result.details}`);
+      }
+      const { hash, host, url, expiryTime, fileSize } = result.commitment;
+      commitments.push({ hash, host: { url, hostAddress: host, expiryTime, contentLength: fileSize } });
+    } catch (error) {
+      logger.warn('Ignoring an invalid UHRP commitment from the overlay', { outputIndex: output.outputIndex, error });
+    }
+  }
+  return commitments;
+}
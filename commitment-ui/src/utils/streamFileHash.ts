@@ -0,0 +1,88 @@
+import { Hash } from '@bsv/sdk';
+import { getURLForHash } from 'uhrp-url';
+import { Buffer } from 'buffer';
+
+// How far hashing a file has got
+export interface HashProgress {
+  bytesHashed: number; // Bytes hashed so far
+  totalBytes?: number; // The file size, when the server reports it
+}
+
+// Options for hashing a file as it streams in
+export interface StreamHashOptions {
+  onProgress?: (progress: HashProgress) => void; // Called after each chunk is hashed
+  signal?: AbortSignal; // Cancels the download and hashing
+}
+
+// The hash of a file, as committed to in its UHRP URL
+export interface StreamedFileHash {
+  hash: Buffer; // SHA-256 hash of the file
+  uhrpURL: string; // The UHRP URL for the hash
+  contentLength: number; // Number of bytes hashed
+}
+
+/**
+ * Downloads a file and hashes it as it arrives, without holding the whole file in memory.
+ * @param {string} url - The URL of the file.
+ * @param {StreamHashOptions} options - Progress callback and abort signal.
+ * @returns {Promise<StreamedFileHash>} - The hash, UHRP URL and size of the file.
+ * @throws {Error} - If the file cannot be fetched, or an AbortError if the signal aborts.
+ */
+export async function hashFileFromURL(url: string, options: StreamHashOptions = {}): Promise<StreamedFileHash> {
+  const response = await fetch(url, { signal: options.signal });
+  if (!response.ok) throw new Error('Failed to fetch the file');
+
+  const lengthHeader = response.headers.get('content-length');
+  const totalBytes = lengthHeader !== null && /^\d+$/.test(lengthHeader) ? parseInt(lengthHeader, 10) : undefined;
+
+  if (!response.body) {
+    // Without a readable body the file can only be read whole
+    const file = new Uint8Array(await response.arrayBuffer());
+    return hashStream(new Blob([file]).stream(), { ...options, totalBytes });
+  }
+  return hashStream(response.body, { ...options, totalBytes });
+}
+
+/**
+ * Hashes a local file, such as one chosen with a file picker, a chunk at a time.
+ * @param {Blob} file - The file to hash.
+ * @param {StreamHashOptions} options - Progress callback and abort signal.
+ * @returns {Promise<StreamedFileHash>} - The hash, UHRP URL and size of the file.
+ */
+export async function hashFile(file: Blob, options: StreamHashOptions = {}): Promise<StreamedFileHash> {
+  return hashStream(file.stream(), { ...options, totalBytes: file.size });
+}
+
+/**
+ * Hashes a stream of bytes incrementally, reporting progress after each chunk.
+ * @param {ReadableStream<Uint8Array>} stream - The bytes to hash.
+ * @param {StreamHashOptions & { totalBytes?: number }} options - Progress callback, abort signal and expected size.
+ * @returns {Promise<StreamedFileHash>} - The hash, UHRP URL and number of bytes hashed.
+ */
+export async function hashStream(
+  stream: ReadableStream<Uint8Array>,
+  { onProgress, signal, totalBytes }: StreamHashOptions & { totalBytes?: number } = {}
+): Promise<StreamedFileHash> {
+  const sha256 = new Hash.SHA256();
+  const reader = stream.getReader();
+  let bytesHashed = 0;
+  try {
+    for (;;) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) break;
+      // The chunk is hashed as it is, as copying it into an array of numbers is slow and takes several times its size
+      sha256.update(value);
+      bytesHashed += value.length;
+      onProgress?.({ bytesHashed, totalBytes });
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+
+  const hash = Buffer.from(sha256.digest());
+  return { hash, uhrpURL: getURLForHash(hash), contentLength: bytesHashed };
+}
@@ -0,0 +1,280 @@
+import {
+  createAction, toBEEFfromEnvelope, CreateActionInput, CreateActionResult, EnvelopeEvidenceApi, GetTransactionOutputResult,
+} from '@babbage/sdk-ts';
+import pushdrop from 'pushdrop';
+import { Buffer } from 'buffer';
+import { COMMITMENT_PROTOCOL_ID, submitToOverlay } from './publishCommitment';
+import { decodePushDrop, Logger, silentLogger } from 'uhrp-topic-manager';
+import { CommitmentConfig, DEFAULT_COMMITMENT_CONFIG } from '../config/commitmentConfig';
+import { WalletSigner } from '../signers/WalletSigner';
+
+/**
+ * Revokes a file hosting commitment before it expires.
+ * The commitment token is spent into a `revoke` token, which the overlay only admits when it is locked by the same host key.
+ * The revocation token holds the commitment's satoshis in the basket until they are returned with `reclaimRevocation`.
+ * @param {GetTransactionOutputResult} token - The commitment token from the `tm_uhrp` basket, including its envelope and custom instructions.
+ * @param {CommitmentConfig} config - The output amount, basket and overlay nodes to use, the defaults unless given.
+ * @param {string | string[]} serviceURL - The overlay service URL where the revocation is submitted, or several to broadcast to, overriding the config's.
+ * @param {Logger} logger - Receives the overlay submission details, silent by default.
+ * @returns {Promise<string>} - The txid of the revocation transaction.
+ * @throws {Error} - If the wallet does not hold the key locking the token, as for commitments made with a keystore.
+ */
+export async function revokeCommitment({
+  token,
+  config = DEFAULT_COMMITMENT_CONFIG,
+  serviceURL = config.overlayURLs,
+  logger = silentLogger,
+}: {
+  token: GetTransactionOutputResult;
+  config?: CommitmentConfig;
+  serviceURL?: string | string[];
+  logger?: Logger;
+}): Promise<string> {
+  // The expiry of a revocation records when the commitment ended
+  const revokedAt = Math.floor(Date.now() / 1000);
+  return replaceCommitment({
+    token,
+    operation: 'revoke',
+    expiryTime: revokedAt,
+    description: 'Revoking a file storage commitment',
+    config,
+    serviceURL,
+    logger,
+  });
+}
+
+/**
+ * Renews a file hosting commitment, extending its expiry time.
+ * The commitment token is spent into a new `advertise` token for the same file, URL and host key.
+ * @param {GetTransactionOutputResult} token - The commitment token from the `tm_uhrp` basket, including its envelope and custom instructions.
+ * @param {number} hostingMinutes - How many minutes to extend the commitment by. Lapsed commitments are extended from now.
+ * @param {CommitmentConfig} config - The output amount, basket and overlay nodes to use, the defaults unless given.
+ * @param {string | string[]} serviceURL - The overlay service URL where the renewal is submitted, or several to broadcast to, overriding the config's.
+ * @param {Logger} logger - Receives the overlay submission details, silent by default.
+ * @returns {Promise<string>} - The txid of the renewal transaction.
+ * @throws {Error} - If the wallet does not hold the key locking the token, as for commitments made with a keystore.
+ */
+export async function renewCommitment({
+  token,
+  hostingMinutes,
+  config = DEFAULT_COMMITMENT_CONFIG,
+  serviceURL = config.overlayURLs,
+  logger = silentLogger,
+}: {
+  token: GetTransactionOutputResult;
+  hostingMinutes: number;
+  config?: CommitmentConfig;
+  serviceURL?: string | string[];
+  logger?: Logger;
+}): Promise<string> {
+  if (!(hostingMinutes > 0)) {
+    throw new Error('Hosting time must be greater than 0.');
+  }
+  const { fields } = pushdrop.decode({ script: token.outputScript, fieldFormat: 'buffer' });
+  const currentExpiry = parseInt(fields[5].toString('utf8'), 10);
+  const now = Math.floor(Date.now() / 1000);
+  return replaceCommitment({
+    token,
+    operation: 'advertise',
+    expiryTime: Math.max(currentExpiry, now) + hostingMinutes * 60,
+    description: 'Renewing a file storage commitment',
+    config,
+    serviceURL,
+    logger,
+  });
+}
+
+/**
+ * Returns the satoshis held by a revocation token to the wallet.
+ * A revocation must hold the overlay's minimum amount to be admitted, so these satoshis stay in the basket until reclaimed.
+ * The token is spent into no outputs, leaving its satoshis as change, and the overlay is told that it was spent.
+ * @param {GetTransactionOutputResult} token - The revocation token from the `tm_uhrp` basket, including its envelope and custom instructions.
+ * @param {CommitmentConfig} config - The overlay nodes to use, the defaults unless given.
+ * @param {string | string[]} serviceURL - The overlay service URL the spend is submitted to, or several to broadcast to, overriding the config's.
+ * @param {Logger} logger - Receives the overlay submission details, silent by default.
+ * @returns {Promise<string>} - The txid of the transaction spending the revocation.
+ * @throws {Error} - If the token is not a revocation, since spending a commitment this way would end it without revoking it.
+ */
+export async function reclaimRevocation({
+  token,
+  config = DEFAULT_COMMITMENT_CONFIG,
+  serviceURL = config.overlayURLs,
+  logger = silentLogger,
+}: {
+  token: GetTransactionOutputResult;
+  config?: CommitmentConfig;
+  serviceURL?: string | string[];
+  logger?: Logger;
+}): Promise<string> {
+  const { fields } = pushdrop.decode({ script: token.outputScript, fieldFormat: 'buffer' });
+  if (fields[3].toString('utf8') !== 'revoke') {
+    throw new Error('Only revocation tokens can be reclaimed.');
+  }
+  const description = 'Reclaiming a revoked file storage commitment';
+  const { keyID, protocolID } = await readWalletTokenKeys(token);
+  const action = await createAction({
+    inputs: await redeemToken(token, keyID, protocolID, description),
+    outputs: [],
+    description,
+  });
+  // Nothing is admitted, but the overlay stops holding the revocation as unspent
+  return submitAction(action, serviceURL, logger, description, []);
+}
+
+/**
+ * Checks whether the wallet holds the key locking a commitment token, so it can renew, revoke or reclaim it.
+ * Commitments made with the keystore signer record a key ID too, but are locked by the keystore's key.
+ * @param {GetTransactionOutputResult} token - The token from the `tm_uhrp` basket, including its custom instructions.
+ * @returns {Promise<boolean>} - Whether the token's locking key is the one the wallet derives for the IDs it records.
+ */
+export async function canWalletSpend(token: GetTransactionOutputResult): Promise<boolean> {
+  let keys: { keyID: string; protocolID: string };
+  try {
+    keys = readTokenKeys(token);
+  } catch (error) {
+    return false;
+  }
+  const walletKey = await new WalletSigner().getLockingKey(keys.protocolID, keys.keyID);
+  return decodePushDrop(token.outputScript).lockingPublicKey === walletKey.toString();
+}
+
+/**
+ * Spends a commitment token into a new token carrying the given operation and expiry time.
+ * The new token reuses the key ID and protocol ID of the old one, so both are locked by the same host key.
+ * It holds at least the configured output amount, so tokens created below the overlay's minimum are topped up.
+ */
+async function replaceCommitment({
+  token,
+  operation,
+  expiryTime,
+  description,
+  config,
+  serviceURL,
+  logger,
+}: {
+  token: GetTransactionOutputResult;
+  operation: 'advertise' | 'revoke';
+  expiryTime: number;
+  description: string;
+  config: CommitmentConfig;
+  serviceURL: string | string[];
+  logger: Logger;
+}): Promise<string> {
+  const { instructions, keyID, protocolID } = await readWalletTokenKeys(token);
+
+  const { fields } = pushdrop.decode({ script: token.outputScript, fieldFormat: 'buffer' });
+  const outputScript = await pushdrop.create({
+    fields: [
+      fields[0], // UHRP protocol address
+      fields[1], // Host address
+      fields[2], // File hash
+      operation,
+      fields[4], // File URL
+      expiryTime.toString(),
+      fields[6], // File size
+      ...fields.slice(7), // Hosting terms, when the commitment carries them
+    ],
+    protocolID,
+    keyID,
+  });
+
+  const action = await createAction({
+    inputs: await redeemToken(token, keyID, protocolID, description),
+    outputs: [
+      {
+        satoshis: Math.max(token.amount, config.outputAmount),
+        script: outputScript,
+        basket: config.basket,
+        customInstructions: JSON.stringify({ ...instructions, keyID, protocolID, operation, expiryTime }),
+      },
+    ],
+    description,
+  });
+
+  return submitAction(action, serviceURL, logger, description, 0);
+}
+
+/**
+ * Reads the key ID and protocol ID a token was created with from its custom instructions.
+ * @throws {Error} - If the token cannot be spent, lacking its envelope or key ID.
+ */
+function readTokenKeys(token: GetTransactionOutputResult): { instructions: Record<string, unknown>; keyID: string; protocolID: string } {
+  if (!token.envelope) {
+    throw new Error('The commitment token must include its envelope to be spent.');
+  }
+  const instructions = token.customInstructions ? JSON.parse(token.customInstructions) : {};
+  const keyID: string | undefined = instructions.keyID;
+  if (!keyID) {
+    throw new Error('The commitment token does not record the key ID it was created with, so it cannot be spent.');
+  }
+  // Tokens from before the protocol ID was recorded were all created under the original one
+  const protocolID: string = instructions.protocolID ?? COMMITMENT_PROTOCOL_ID;
+  return { instructions, keyID, protocolID };
+}
+
+/**
+ * Reads the key ID and protocol ID of a token the wallet is about to spend.
+ * @throws {Error} - If the token cannot be spent, or is locked by a key the wallet does not hold.
+ */
+async function readWalletTokenKeys(token: GetTransactionOutputResult): Promise<{ instructions: Record<string, unknown>; keyID: string; protocolID: string }> {
+  const keys = readTokenKeys(token);
+  if (!(await canWalletSpend(token))) {
+    throw new Error('The commitment token is locked by a key the wallet does not hold, such as that of a keystore, so the wallet cannot spend it.');
+  }
+  return keys;
+}
+
+/**
+ * Builds the action inputs that spend a token, unlocked with the key it was locked by.
+ */
+async function redeemToken(
+  token: GetTransactionOutputResult,
+  keyID: string,
+  protocolID: string,
+  description: string
+): Promise<Record<string, CreateActionInput>> {
+  const unlockingScript = await pushdrop.redeem({
+    prevTxId: token.txid,
+    outputIndex: token.vout,
+    lockingScript: token.outputScript,
+    outputAmount: token.amount,
+    protocolID,
+    keyID,
+  });
+  return {
+    [token.txid]: {
+      ...token.envelope,
+      outputsToRedeem: [{
+        index: token.vout,
+        unlockingScript,
+        spendingDescription: description,
+      }],
+    },
+  };
+}
+
+/**
+ * Submits a transaction spending a token to the overlay.
+ * @returns {Promise<string>} - The txid of the transaction.
+ */
+async function submitAction(
+  action: CreateActionResult,
+  serviceURL: string | string[],
+  logger: Logger,
+  description: string,
+  outputIndex: number | number[]
+): Promise<string> {
+  if (!action.rawTx || !action.txid) {
+    throw new Error('Missing values in action: rawTx or txid');
+  }
+
+  const beef = toBEEFfromEnvelope({
+    rawTx: action.rawTx,
+    inputs: (action.inputs || {}) as Record<string, EnvelopeEvidenceApi>,
+    txid: action.txid,
+  }).beef;
+
+  await submitToOverlay(Buffer.from(beef), serviceURL, logger, outputIndex);
+  logger.info(`${description} succeeded`, { txid: action.txid });
+  return action.txid;
+}
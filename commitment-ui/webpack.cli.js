@@ -0,0 +1,33 @@
+const path = require('path')
+const { BannerPlugin } = require('webpack')
+
+// Bundles the icommit command-line tool for Node, from the same sources as the web app
+module.exports = {
+  mode: 'production',
+  target: 'node',
+  entry: './src/cli/index.ts',
+  output: {
+    path: path.join(__dirname, '/build/cli'),
+    filename: 'icommit.js'
+  },
+  plugins: [
+    new BannerPlugin({ banner: '#!/usr/bin/env node', raw: true })
+  ],
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        exclude: /node_modules/,
+        use: {
+          loader: 'ts-loader'
+        }
+      }
+    ]
+  },
+  resolve: {
+    extensions: ['.ts', '.js']
+  },
+  optimization: {
+    minimize: false
+  }
+}
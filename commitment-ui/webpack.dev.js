@@ -1,4 +1,5 @@
 const { merge } = require('webpack-merge')
+const { DefinePlugin } = require('webpack')
 const common = require('./webpack.common.js')
 
 module.exports = merge(common, {
@@ -14,5 +15,16 @@ module.exports = merge(common, {
     },
     static: './public'
   },
-  devtool: 'inline-source-map'
+  devtool: 'inline-source-map',
+  plugins: [
+    // Talk to a local overlay node (lookup-service `npm start`) unless told otherwise
+    new DefinePlugin({
+      'process.env.OVERLAY_URL': JSON.stringify(process.env.OVERLAY_URL || 'http://localhost:8080'),
+      'process.env.COMMITMENT_OUTPUT_AMOUNT': JSON.stringify(process.env.COMMITMENT_OUTPUT_AMOUNT || ''),
+      'process.env.MIN_OUTPUT_AMOUNT': JSON.stringify(process.env.MIN_OUTPUT_AMOUNT || ''),
+      'process.env.COMMITMENT_BASKET': JSON.stringify(process.env.COMMITMENT_BASKET || ''),
+      'process.env.COMMITMENT_PROTOCOL_ID': JSON.stringify(process.env.COMMITMENT_PROTOCOL_ID || ''),
+      'process.env.DEFAULT_HOSTING_DAYS': JSON.stringify(process.env.DEFAULT_HOSTING_DAYS || '')
+    })
+  ]
 })
@@ -1,6 +1,17 @@
 const { merge } = require('webpack-merge')
+const { DefinePlugin } = require('webpack')
 const common = require('./webpack.common.js')
 
 module.exports = merge(common, {
-  mode: 'production'
+  mode: 'production',
+  plugins: [
+    new DefinePlugin({
+      'process.env.OVERLAY_URL': JSON.stringify(process.env.OVERLAY_URL || ''),
+      'process.env.COMMITMENT_OUTPUT_AMOUNT': JSON.stringify(process.env.COMMITMENT_OUTPUT_AMOUNT || ''),
+      'process.env.MIN_OUTPUT_AMOUNT': JSON.stringify(process.env.MIN_OUTPUT_AMOUNT || ''),
+      'process.env.COMMITMENT_BASKET': JSON.stringify(process.env.COMMITMENT_BASKET || ''),
+      'process.env.COMMITMENT_PROTOCOL_ID': JSON.stringify(process.env.COMMITMENT_PROTOCOL_ID || ''),
+      'process.env.DEFAULT_HOSTING_DAYS': JSON.stringify(process.env.DEFAULT_HOSTING_DAYS || '')
+    })
+  ]
 })
@@ -0,0 +1,15 @@
+import type { Knex } from 'knex'
+
+/**
+ * Knex configuration for the UHRP lookup index.
+ * Defaults to a SQLite file under `data/`, so no external database is needed.
+ */
+const config: Knex.Config = {
+  client: 'better-sqlite3',
+  connection: {
+    filename: process.env.UHRP_DB_FILE ?? './data/uhrp.sqlite'
+  },
+  useNullAsDefault: true
+}
+
+export default config
@@ -0,0 +1,255 @@
+import { createHash } from 'node:crypto'
+import type { UHRPStorage } from './storage/UHRPStorage.js'
+import type { Clock, UHRPRecord, UHRPRecordFilter } from './types.js'
+
+/**
+ * The outcome of checking one commitment against the content its host serves
+ * - `available`: the content was served as committed
+ * - `hash-mismatch`: the content was served with the committed size but a different hash
+ * - `size-mismatch`: the content was shorter or longer than the committed size
+ * - `range-unsupported`: the host ignored a range request while sampling
+ * - `unreachable`: the request failed, timed out or returned an error status
+ */
+export type UHRPAvailabilityStatus = 'available' | 'hash-mismatch' | 'size-mismatch' | 'range-unsupported' | 'unreachable'
+
+/**
+ * The result of checking a single commitment
+ */
+export interface UHRPAvailabilityCheck {
+  txid: string
+  outputIndex: number
+  url: string
+  host: string
+  status: UHRPAvailabilityStatus
+  /** Why the check failed, when it did */
+  detail?: string
+  /** How many bytes of content were downloaded */
+  bytesRead: number
+}
+
+type CheckOutcome = Pick<UHRPAvailabilityCheck, 'status' | 'detail' | 'bytesRead'>
+
+/**
+ * How reliably one host serves the content it has committed to
+ */
+export interface UHRPHostReliability {
+  host: string
+  /** Number of commitments checked */
+  checked: number
+  /** Number of commitments whose content was served as committed */
+  available: number
+  /** The fraction of checked commitments that were available, from 0 to 1 */
+  reliability: number
+  /** Number of failed checks by status */
+  failures: Partial<Record<Exclude<UHRPAvailabilityStatus, 'available'>, number>>
+}
+
+/**
+ * The outcome of an audit of advertised hosts
+ */
+export interface UHRPAvailabilityReport {
+  /** The UNIX timestamp, in seconds, the audit started at */
+  checkedAt: number
+  checks: UHRPAvailabilityCheck[]
+  /** One entry per host, least reliable first */
+  hosts: UHRPHostReliability[]
+}
+
+/**
+ * Controls how content is checked
+ */
+export interface UHRPVerifierOptions {
+  /**
+   * `full` downloads and hashes the whole content. `sample` only requests a few byte ranges,
+   * which confirms the host serves content of the committed size but cannot confirm its hash.
+   */
+  mode?: 'full' | 'sample'
+  /** Number of ranges requested per commitment when sampling */
+  samples?: number
+  /** Size of each sampled range, in bytes */
+  sampleSize?: number
+  /** How long a single commitment may take to check, in milliseconds */
+  timeoutMs?: number
+  /** How many commitments are checked at once */
+  concurrency?: number
+  /** Source of the current time, used to skip expired commitments */
+  clock?: Clock
+  /** Picks sample offsets, returning a number in [0, 1) */
+  random?: () => number
+}
+
+/**
+ * Audits advertised hosts by downloading the content behind their commitments
+ * and comparing it with the committed hash and size
+ */
+export class UHRPAvailabilityVerifier {
+  private readonly options: Required<UHRPVerifierOptions>
+
+  /**
+   * Constructs a new verifier
+   * @param storage - The lookup index to take commitments from
+   * @param options - How content is checked
+   */
+  constructor (public storage: UHRPStorage, options: UHRPVerifierOptions = {}) {
+    this.options = {
+      mode: 'full',
+      samples: 3,
+      sampleSize: 1024,
+      timeoutMs: 30 * 1000,
+      concurrency: 4,
+      clock: () => Math.floor(Date.now() / 1000),
+      random: Math.random,
+      ...options
+    }
+  }
+
+  /**
+   * Checks every unexpired commitment in the index that matches a filter
+   * @param filter - Narrows the commitments checked, for instance to one host
+   * @returns The checks and a per-host reliability report
+   */
+  async audit (filter: UHRPRecordFilter = {}): Promise<UHRPAvailabilityReport> {
+    const checkedAt = this.options.clock()
+    const records = await this.storage.findRecords({
+      ...filter,
+      expiresFrom: Math.max(filter.expiresFrom ?? 0, checkedAt + 1)
+    })
+    const checks = await this.checkRecords(records)
+    return { checkedAt, checks, hosts: summarizeHosts(checks) }
+  }
+
+  /**
+   * Checks the given commitments, a few at a time
+   * @param records - The commitments to check
+   * @returns One check per record, in the same order
+   */
+  async checkRecords (records: UHRPRecord[]): Promise<UHRPAvailabilityCheck[]> {
+    const checks: UHRPAvailabilityCheck[] = new Array(records.length)
+    let next = 0
+    const worker = async (): Promise<void> => {
+      while (next < records.length) {
+        const index = next++
+        checks[index] = await this.checkRecord(records[index])
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(this.options.concurrency, records.length) }, worker))
+    return checks
+  }
+
+  /**
+   * Checks that a host serves the content it committed to
+   * @param record - The commitment to check
+   * @returns The outcome of the check. Network failures are reported rather than thrown.
+   */
+  async checkRecord (record: UHRPRecord): Promise<UHRPAvailabilityCheck> {
+    const signal = AbortSignal.timeout(this.options.timeoutMs)
+    const base = {
+      txid: record.txid,
+      outputIndex: record.outputIndex,
+      url: record.url,
+      host: record.host
+    }
+    try {
+      const outcome = this.options.mode === 'sample' && record.contentLength > 0
+        ? await this.sampleContent(record, signal)
+        : await this.downloadContent(record, signal)
+      return { ...base, ...outcome }
+    } catch (error) {
+      return {
+        ...base,
+        status: 'unreachable',
+        detail: error instanceof Error ? error.message : String(error),
+        bytesRead: 0
+      }
+    }
+  }
+
+  private async downloadContent (record: UHRPRecord, signal: AbortSignal): Promise<CheckOutcome> {
+    const response = await fetch(record.url, { signal })
+    if (!response.ok || response.body === null) {
+      throw new Error(`HTTP status ${response.status}`)
+    }
+
+    const hash = createHash('sha256')
+    const reader = response.body.getReader()
+    let bytesRead = 0
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      bytesRead += value.length
+      if (bytesRead > record.contentLength) {
+        // No need to keep downloading content that is already too long
+        await reader.cancel().catch(() => {})
+        return { status: 'size-mismatch', detail: `More than the committed ${record.contentLength} bytes were served.`, bytesRead }
+      }
+      hash.update(value)
+    }
+
+    if (bytesRead !== record.contentLength) {
+      return { status: 'size-mismatch', detail: `${bytesRead} bytes were served, ${record.contentLength} were committed.`, bytesRead }
+    }
+    const served = hash.digest('hex')
+    if (served !== record.hash) {
+      return { status: 'hash-mismatch', detail: `The served content hashes to ${served}.`, bytesRead }
+    }
+    return { status: 'available', bytesRead }
+  }
+
+  private async sampleContent (record: UHRPRecord, signal: AbortSignal): Promise<CheckOutcome> {
+    const size = Math.min(this.options.sampleSize, record.contentLength)
+    let bytesRead = 0
+    for (let i = 0; i < this.options.samples; i++) {
+      // The first sample is taken from the end, which catches truncated content
+      const start = i === 0
+        ? record.contentLength - size
+        : Math.floor(this.options.random() * (record.contentLength - size + 1))
+      const end = start + size - 1
+      const response = await fetch(record.url, { signal, headers: { Range: `bytes=${start}-${end}` } })
+      if (response.status === 200) {
+        await response.body?.cancel().catch(() => {})
+        return { status: 'range-unsupported', detail: 'The host answered a range request with the whole content.', bytesRead }
+      }
+      if (response.status === 416) {
+        return { status: 'size-mismatch', detail: `The host cannot serve bytes ${start}-${end}.`, bytesRead }
+      }
+      if (response.status !== 206) {
+        throw new Error(`HTTP status ${response.status}`)
+      }
+
+      const body = new Uint8Array(await response.arrayBuffer())
+      bytesRead += body.length
+      const total = /\/(\d+)$/.exec(response.headers.get('content-range') ?? '')?.[1]
+      if (total !== undefined && Number(total) !== record.contentLength) {
+        return { status: 'size-mismatch', detail: `The host reports ${total} bytes, ${record.contentLength} were committed.`, bytesRead }
+      }
+      if (body.length !== size) {
+        return { status: 'size-mismatch', detail: `Bytes ${start}-${end} were requested but ${body.length} bytes were served.`, bytesRead }
+      }
+    }
+    return { status: 'available', bytesRead }
+  }
+}
+
+/**
+ * Groups checks by host into reliability figures, least reliable host first
+ */
+function summarizeHosts (checks: UHRPAvailabilityCheck[]): UHRPHostReliability[] {
+  const hosts = new Map<string, UHRPHostReliability>()
+  for (const check of checks) {
+    let host = hosts.get(check.host)
+    if (host === undefined) {
+      host = { host: check.host, checked: 0, available: 0, reliability: 0, failures: {} }
+      hosts.set(check.host, host)
+    }
+    host.checked++
+    if (check.status === 'available') {
+      host.available++
+    } else {
+      host.failures[check.status] = (host.failures[check.status] ?? 0) + 1
+    }
+    host.reliability = host.available / host.checked
+  }
+  return [...hosts.values()].sort((a, b) => a.reliability !== b.reliability
+    ? a.reliability - b.reliability
+    : a.host.localeCompare(b.host))
+}
@@ -0,0 +1,68 @@
+import { Logger, silentLogger } from 'uhrp-topic-manager'
+import type { UHRPStorage } from './storage/UHRPStorage.js'
+import type { Clock } from './types.js'
+
+/**
+ * The outcome of a single sweep of the lookup index
+ */
+export interface UHRPSweepReport {
+  /** The UNIX timestamp, in seconds, the sweep was performed at */
+  sweptAt: number
+  /** The number of lapsed commitments removed from the index */
+  purged: number
+}
+
+/**
+ * Periodically purges commitments whose expiry time has passed from a UHRP storage engine,
+ * so that lookups stop pointing downloaders at hosts that no longer promise anything.
+ */
+export class UHRPExpirySweeper {
+  private timer?: ReturnType<typeof setInterval>
+
+  /**
+   * Constructs a new sweeper
+   * @param storage - The storage engine to purge
+   * @param intervalMs - How often to sweep once started, in milliseconds
+   * @param clock - Source of the current time, defaults to the system clock
+   * @param onSweep - Called with the report of every scheduled sweep
+   * @param logger - Receives failed scheduled sweeps, silent by default
+   */
+  constructor (
+    public storage: UHRPStorage,
+    public intervalMs: number = 60 * 60 * 1000,
+    private readonly clock: Clock = () => Math.floor(Date.now() / 1000),
+    private readonly onSweep?: (report: UHRPSweepReport) => void,
+    private readonly logger: Logger = silentLogger
+  ) { }
+
+  /**
+   * Removes every commitment that has expired as of the current clock time
+   * @returns A report of the sweep
+   */
+  async sweep (): Promise<UHRPSweepReport> {
+    const sweptAt = this.clock()
+    const purged = await this.storage.deleteExpiredRecords(sweptAt)
+    return { sweptAt, purged }
+  }
+
+  /**
+   * Starts sweeping on a fixed interval. Failed sweeps are logged and retried on the next tick.
+   */
+  start (): void {
+    if (this.timer !== undefined) return
+    this.timer = setInterval(() => {
+      this.sweep()
+        .then(report => this.onSweep?.(report))
+        .catch(error => this.logger.error('UHRP expiry sweep failed', { error }))
+    }, this.intervalMs)
+  }
+
+  /**
+   * Stops any scheduled sweeping
+   */
+  stop (): void {
+    if (this.timer === undefined) return
+    clearInterval(this.timer)
+    this.timer = undefined
+  }
+}
@@ -1,6 +1,12 @@
 import { LookupService, LookupQuestion, LookupAnswer, LookupFormula } from '@bsv/overlay'
-import { Script } from '@bsv/sdk'
-// import pushdrop from 'pushdrop'
+import { Script, Utils } from '@bsv/sdk'
+import {
+  Logger, silentLogger, Counter, Histogram, MetricsRegistry, noopMetrics, OverlayMetaData, decodePushDrop, getCommitmentLayout
+} from 'uhrp-topic-manager'
+import { getLookupServiceDocumentation, LOOKUP_SERVICE_METADATA } from './documentation.js'
+import type { UHRPStorage } from './storage/UHRPStorage.js'
+import type { Clock, UHRPIndexStatistics, UHRPLookupQuery, UHRPRecord, UHRPRecordFilter } from './types.js'
+import { getHashFromUHRPURL, validateLookupQuery } from './validateLookupQuery.js'
 
 /**
  * Implements a UHRP lookup service
@@ -8,11 +14,44 @@ import { Script } from '@bsv/sdk'
  * @public
  */
 export class UHRPLookupService implements LookupService {
+  private readonly queries: Counter
+  private readonly queryDuration: Histogram
+
   /**
    * Constructs a new UHRP Lookup Service instance
    * @param storage - The storage instance to use for managing records
+   * @param clock - Source of the current time when deciding which commitments have expired
+   * @param logger - Receives indexing and lookup diagnostics, silent by default
+   * @param metrics - Counts and times lookups by query type, and reports the size of the index when collected. Discarded by default
    */
-  constructor(public storage: UHRPStorage) { }
+  constructor (
+    public storage: UHRPStorage,
+    private readonly clock: Clock = () => Math.floor(Date.now() / 1000),
+    private readonly logger: Logger = silentLogger,
+    metrics: MetricsRegistry = noopMetrics
+  ) {
+    this.queries = metrics.counter({ name: 'uhrp_lookup_queries_total', help: 'ls_uhrp lookups, by query type and outcome' })
+    this.queryDuration = metrics.histogram({ name: 'uhrp_lookup_duration_seconds', help: 'Time taken to answer ls_uhrp lookups, by query type' })
+    const statistics = async (): Promise<UHRPIndexStatistics> => await this.storage.getStatistics(this.clock())
+    metrics.gauge({
+      name: 'uhrp_index_records',
+      help: 'Records in the ls_uhrp index',
+      collect: async () => [{ value: (await statistics()).records }]
+    })
+    metrics.gauge({
+      name: 'uhrp_index_commitments',
+      help: 'Commitments in the ls_uhrp index, by whether they have expired',
+      collect: async () => {
+        const { active, expired } = await statistics()
+        return [{ labels: { state: 'active' }, value: active }, { labels: { state: 'expired' }, value: expired }]
+      }
+    })
+    metrics.gauge({
+      name: 'uhrp_index_hosts',
+      help: 'Distinct hosts with a commitment in the ls_uhrp index',
+      collect: async () => [{ value: (await statistics()).hosts }]
+    })
+  }
 
   /**
    * Notifies the lookup service of a new output added.
@@ -25,18 +64,29 @@ export class UHRPLookupService implements LookupService {
    * @returns {Promise<void>} A promise that resolves when the processing is complete.
    * @throws Will throw an error if there is an issue with storing the record in the storage engine.
    */
-  async outputAdded?(txid: string, outputIndex: number, outputScript: Script, topic: string): Promise<void> {
-    throw new Error('Method not implemented.')
+  async outputAdded? (txid: string, outputIndex: number, outputScript: Script, topic: string): Promise<void> {
+    if (topic !== 'tm_uhrp') return
+    const { operation, record } = this.decodeCommitment(txid, outputIndex, outputScript)
+    // A revocation only records the end of the commitment it spent, which outputSpent removes
+    if (operation === 'revoke') {
+      this.logger.debug('Skipping UHRP revocation', { txid, outputIndex })
+      return
+    }
+    await this.storage.insertRecord(record)
+    this.logger.debug('Indexed UHRP commitment', { txid, outputIndex, hash: record.hash, url: record.url })
   }
 
   /**
-   * Notifies the lookup service that an output was spent
+   * Notifies the lookup service that an output was spent.
+   * Renewing or revoking a commitment spends its token, so the record is dropped; a renewal's new token is added separately.
    * @param txid - The transaction ID of the spent output
    * @param outputIndex - The index of the spent output
    * @param topic - The topic associated with the spent output
    */
-  async outputSpent?(txid: string, outputIndex: number, topic: string): Promise<void> {
-    throw new Error('Method not implemented.')
+  async outputSpent? (txid: string, outputIndex: number, topic: string): Promise<void> {
+    if (topic !== 'tm_uhrp') return
+    await this.storage.deleteRecord(txid, outputIndex)
+    this.logger.debug('Removed spent UHRP commitment', { txid, outputIndex })
   }
 
   /**
@@ -45,39 +95,113 @@ export class UHRPLookupService implements LookupService {
    * @param outputIndex - The index of the deleted output
    * @param topic - The topic associated with the deleted output
    */
-  async outputDeleted?(txid: string, outputIndex: number, topic: string): Promise<void> {
-    throw new Error('Method not implemented.')
+  async outputDeleted? (txid: string, outputIndex: number, topic: string): Promise<void> {
+    if (topic !== 'tm_uhrp') return
+    await this.storage.deleteRecord(txid, outputIndex)
+    this.logger.debug('Removed deleted UHRP commitment', { txid, outputIndex })
   }
 
   /**
    * Answers a lookup query
-   * @param question - The lookup question to be answered
-   * @returns A promise that resolves to a lookup answer or formula
+   * @param question - The lookup question to be answered, whose query must be a {@link UHRPLookupQuery}
+   * @returns A promise that resolves to a lookup formula listing the matching commitment outputs.
+   * Expired commitments are left out unless the query sets `includeExpired`.
+   * @throws If the question is not for this service, or its query is malformed
    */
-  async lookup(question: LookupQuestion): Promise<LookupAnswer | LookupFormula> {
-    throw new Error('Method not implemented.')
+  async lookup (question: LookupQuestion): Promise<LookupAnswer | LookupFormula> {
+    const started = performance.now()
+    // Queries that fail validation have no type of their own
+    let type = 'invalid'
+    let outcome = 'error'
+    try {
+      if (question.service !== 'ls_uhrp') {
+        throw new Error(`Lookup service "${question.service}" is not supported by the UHRP lookup service.`)
+      }
+      const query = validateLookupQuery(question.query)
+      type = query.type
+
+      const filter = this.toFilter(query)
+      if (query.includeExpired !== true) {
+        // A commitment is expired once its expiry time is reached, so only later expiry times are live
+        filter.expiresFrom = Math.max(filter.expiresFrom ?? 0, this.clock() + 1)
+      }
+
+      const records = await this.storage.findRecords(filter, {
+        limit: query.limit,
+        skip: query.skip,
+        sortOrder: query.sortOrder
+      })
+      this.logger.debug('Answered UHRP lookup', { query, results: records.length })
+      outcome = 'success'
+      return records.map(({ txid, outputIndex }) => ({ txid, outputIndex }))
+    } finally {
+      this.queries.inc({ type, outcome })
+      this.queryDuration.observe((performance.now() - started) / 1000, { type })
+    }
   }
 
   /**
    * Returns documentation specific to this overlay lookup service
    * @returns A promise that resolves to the documentation string
    */
-  async getDocumentation(): Promise<string> {
-    throw new Error('Method not implemented.')
+  async getDocumentation (): Promise<string> {
+    return getLookupServiceDocumentation()
   }
 
   /**
    * Returns metadata associated with this lookup service
    * @returns A promise that resolves to an object containing metadata
-   * @throws An error indicating the method is not implemented
    */
-  async getMetaData(): Promise<{
-    name: string
-    shortDescription: string
-    iconURL?: string
-    version?: string
-    informationURL?: string
-  }> {
-    throw new Error('Method not implemented.')
+  async getMetaData (): Promise<OverlayMetaData> {
+    return LOOKUP_SERVICE_METADATA
+  }
+
+  /**
+   * Translates a validated lookup query into the storage filter that answers it
+   * @param query - The validated lookup query
+   * @returns The storage filter
+   */
+  private toFilter (query: UHRPLookupQuery): UHRPRecordFilter {
+    switch (query.type) {
+      case 'hash':
+        return { hash: query.hash }
+      case 'uhrpURL':
+        return { hash: getHashFromUHRPURL(query.uhrpURL) }
+      case 'host':
+        return { host: query.host }
+      case 'url':
+        return { url: query.url }
+      case 'expiry':
+        return { expiresFrom: query.from, expiresTo: query.to }
+    }
+  }
+
+  /**
+   * Extracts the indexed commitment details from an admitted PushDrop output script.
+   * The topic manager has already validated the commitment, so only its layout is relied upon here.
+   * @param txid - The transaction ID containing the output
+   * @param outputIndex - The index of the output in the transaction
+   * @param outputScript - The PushDrop locking script of the commitment
+   * @returns The commitment operation, and the record to store
+   * @throws If the script is not a PushDrop token following a commitment layout
+   */
+  private decodeCommitment (txid: string, outputIndex: number, outputScript: Script): { operation: string, record: UHRPRecord } {
+    const { fields } = decodePushDrop(outputScript.toBinary())
+    // Fields are read by their position in the base layout, which commitments with hosting terms extend
+    getCommitmentLayout(fields.length)
+
+    return {
+      operation: Utils.toUTF8(fields[3]),
+      record: {
+        txid,
+        outputIndex,
+        hash: Utils.toHex(fields[2]),
+        url: Utils.toUTF8(fields[4]),
+        // Indexed as committed, so a host is found by the address or key it names itself by
+        host: Utils.toUTF8(fields[1]),
+        expiryTime: parseInt(Utils.toUTF8(fields[5]), 10),
+        contentLength: parseInt(Utils.toUTF8(fields[6]), 10)
+      }
+    }
   }
 }
@@ -0,0 +1,182 @@
+import { readdir, readFile, stat } from 'node:fs/promises'
+import { join } from 'node:path'
+import { Transaction, Utils } from '@bsv/sdk'
+import { UHRPTopicManager, UHRPRejectionReason, Logger, silentLogger } from 'uhrp-topic-manager'
+import { UHRPLookupService } from './UHRPLookupService.js'
+import { MemoryUHRPStorage } from './storage/MemoryUHRPStorage.js'
+import type { UHRPStorage } from './storage/UHRPStorage.js'
+import type { UHRPRecord } from './types.js'
+
+/**
+ * How the replayed index differs from the index it rebuilds
+ */
+export interface UHRPIndexDiff {
+  /** Records the replay indexed that the current index lacks */
+  added: UHRPRecord[]
+  /** Records in the current index that the replay did not index, or indexed differently */
+  removed: UHRPRecord[]
+  /** Number of records the replay indexed exactly as the current index holds them */
+  unchanged: number
+}
+
+/**
+ * The outcome of replaying an archive of transactions
+ */
+export interface UHRPReindexReport {
+  /** Number of transactions replayed */
+  transactions: number
+  /** Number of outputs admitted by the topic manager and passed to the lookup service */
+  added: number
+  /**
+   * Number of commitment outputs not admitted, by reason. A transaction that cannot be parsed counts once, as `malformed-transaction`.
+   * Outputs that are not commitments, such as change, are not counted.
+   */
+  rejected: Partial<Record<UHRPRejectionReason, number>>
+  /** Number of admitted outputs spent by later transactions in the archive */
+  spent: number
+  diff: UHRPIndexDiff
+  /** Whether the diff was left unapplied */
+  dryRun: boolean
+}
+
+const RECORD_FIELDS: Array<keyof UHRPRecord> = ['txid', 'outputIndex', 'hash', 'url', 'host', 'expiryTime', 'contentLength']
+
+/**
+ * Reads an archive of BEEF transactions, in the order they are to be replayed.
+ * A directory holds one transaction per file, as raw bytes or hex, replayed in file name order.
+ * Any other file holds one hex-encoded transaction per line; blank lines are skipped.
+ * @param path - The directory or archive file
+ * @returns The transactions, in order
+ */
+export async function readBEEFArchive (path: string): Promise<number[][]> {
+  if ((await stat(path)).isDirectory()) {
+    const names = (await readdir(path)).sort()
+    const transactions: number[][] = []
+    for (const name of names) {
+      const contents = await readFile(join(path, name))
+      const text = contents.toString('utf8').trim()
+      transactions.push(/^([0-9a-f]{2})+$/i.test(text) ? Utils.toArray(text, 'hex') : [...contents])
+    }
+    return transactions
+  }
+  const lines = (await readFile(path, 'utf8')).split(/\r?\n/)
+  return lines
+    .map(line => line.trim())
+    .filter(line => line !== '')
+    .map(line => Utils.toArray(line, 'hex'))
+}
+
+/**
+ * Rebuilds a UHRP lookup index by replaying archived transactions through the current topic manager rules,
+ * for when the index is lost or the rules change. Only the `ls_uhrp` index is rebuilt, not the overlay engine's own records.
+ */
+export class UHRPReindexer {
+  /**
+   * Constructs a new reindexer
+   * @param storage - The lookup index to rebuild
+   * @param topicManager - Decides which outputs are admitted, as the overlay node would
+   * @param logger - Receives progress of the replay, silent by default
+   */
+  constructor (
+    public storage: UHRPStorage,
+    private readonly topicManager: UHRPTopicManager = new UHRPTopicManager(),
+    private readonly logger: Logger = silentLogger
+  ) { }
+
+  /**
+   * Replays transactions in order into a fresh index, then brings the lookup index in line with it.
+   * Each transaction's spends of earlier admitted outputs are applied before its own outputs are added.
+   * @param transactions - The BEEF transactions, in the order they were submitted
+   * @param options - `dryRun` reports the diff against the current index without writing it
+   * @returns A report of the replay and the diff
+   */
+  async reindex (transactions: number[][], options: { dryRun?: boolean } = {}): Promise<UHRPReindexReport> {
+    const replayed = new MemoryUHRPStorage()
+    const lookupService = new UHRPLookupService(replayed, undefined, this.logger)
+    // Outpoints admitted during the replay that are not yet spent
+    const unspent = new Set<string>()
+    const report: UHRPReindexReport = { transactions: 0, added: 0, rejected: {}, spent: 0, diff: { added: [], removed: [], unchanged: 0 }, dryRun: options.dryRun === true }
+
+    for (const beef of transactions) {
+      report.transactions++
+      let tx: Transaction | undefined
+      try {
+        tx = Transaction.fromBEEF(beef)
+      } catch (e) {
+        // The topic manager reports the transaction as malformed below
+      }
+
+      const previousCoins: number[] = []
+      const spends: string[] = []
+      tx?.inputs.forEach((input, inputIndex) => {
+        const outpoint = `${input.sourceTXID ?? input.sourceTransaction?.id('hex') ?? ''}.${input.sourceOutputIndex}`
+        if (unspent.has(outpoint)) {
+          previousCoins.push(inputIndex)
+          spends.push(outpoint)
+        }
+      })
+
+      const { outputsToAdmit } = await this.topicManager.identifyAdmissibleOutputs(beef, previousCoins, ({ reason }) => {
+        report.rejected[reason] = (report.rejected[reason] ?? 0) + 1
+      })
+      if (tx === undefined) continue
+      const txid = tx.id('hex')
+
+      for (const outpoint of spends) {
+        const [spentTXID, outputIndex] = outpoint.split('.')
+        await lookupService.outputSpent?.(spentTXID, Number(outputIndex), 'tm_uhrp')
+        unspent.delete(outpoint)
+        report.spent++
+      }
+      for (const outputIndex of outputsToAdmit) {
+        await lookupService.outputAdded?.(txid, outputIndex, tx.outputs[outputIndex].lockingScript, 'tm_uhrp')
+        unspent.add(`${txid}.${outputIndex}`)
+        report.added++
+      }
+    }
+
+    report.diff = await this.diff(replayed)
+    this.logger.info('Replayed UHRP transactions', {
+      transactions: report.transactions,
+      added: report.added,
+      rejected: report.rejected,
+      spent: report.spent,
+      diff: { added: report.diff.added.length, removed: report.diff.removed.length, unchanged: report.diff.unchanged }
+    })
+
+    if (!report.dryRun) {
+      for (const record of report.diff.removed) {
+        await this.storage.deleteRecord(record.txid, record.outputIndex)
+      }
+      for (const record of report.diff.added) {
+        await this.storage.insertRecord(record)
+      }
+      this.logger.info('Rebuilt the UHRP lookup index', { inserted: report.diff.added.length, deleted: report.diff.removed.length })
+    }
+    return report
+  }
+
+  /**
+   * Compares the replayed index with the current one. A record that differs is both removed and added, so it is rewritten.
+   * @param replayed - The index built by the replay
+   * @returns The diff
+   */
+  private async diff (replayed: UHRPStorage): Promise<UHRPIndexDiff> {
+    const key = (record: UHRPRecord): string => `${record.txid}.${record.outputIndex}`
+    const current = new Map((await this.storage.findRecords({})).map(record => [key(record), record]))
+    const diff: UHRPIndexDiff = { added: [], removed: [], unchanged: 0 }
+
+    for (const record of await replayed.findRecords({})) {
+      const existing = current.get(key(record))
+      current.delete(key(record))
+      if (existing !== undefined && RECORD_FIELDS.every(field => existing[field] === record[field])) {
+        diff.unchanged++
+        continue
+      }
+      if (existing !== undefined) diff.removed.push(existing)
+      diff.added.push(record)
+    }
+    diff.removed.push(...current.values())
+    return diff
+  }
+}
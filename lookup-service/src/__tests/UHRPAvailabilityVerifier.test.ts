@@ -0,0 +1,129 @@
+import { createServer, Server } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { createHash } from 'node:crypto'
+import { UHRPAvailabilityVerifier } from '../UHRPAvailabilityVerifier.js'
+import { MemoryUHRPStorage } from '../storage/MemoryUHRPStorage.js'
+import type { UHRPRecord } from '../types.js'
+
+const content = Buffer.alloc(5000, 'uhrp')
+const contentHash = createHash('sha256').update(content).digest('hex')
+
+/**
+ * Serves the fixture content in the ways a host might, honest or not
+ */
+const fixtures: Record<string, { body: Buffer, ranges: boolean }> = {
+  '/good': { body: content, ranges: true },
+  '/tampered': { body: Buffer.alloc(content.length, 'evil'), ranges: true },
+  '/truncated': { body: content.subarray(0, 4000), ranges: true },
+  '/no-ranges': { body: content, ranges: false }
+}
+
+const startFixtureServer = async (): Promise<Server> => {
+  const server = createServer((req, res) => {
+    const fixture = fixtures[req.url ?? '']
+    if (fixture === undefined) {
+      res.writeHead(404).end()
+      return
+    }
+    const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? '')
+    if (range === null || !fixture.ranges) {
+      res.writeHead(200, { 'Content-Length': fixture.body.length }).end(fixture.body)
+      return
+    }
+    const start = Number(range[1])
+    const end = Math.min(Number(range[2]), fixture.body.length - 1)
+    if (start >= fixture.body.length) {
+      res.writeHead(416, { 'Content-Range': `bytes */${fixture.body.length}` }).end()
+      return
+    }
+    res.writeHead(206, { 'Content-Range': `bytes ${start}-${end}/${fixture.body.length}` }).end(fixture.body.subarray(start, end + 1))
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return server
+}
+
+describe('UHRPAvailabilityVerifier', () => {
+  const now = 1700000000
+  let server: Server
+  let baseURL: string
+
+  const record = (path: string, host: string, overrides: Partial<UHRPRecord> = {}): UHRPRecord => ({
+    txid: createHash('sha256').update(path + host).digest('hex'),
+    outputIndex: 0,
+    hash: contentHash,
+    url: `${baseURL}${path}`,
+    host,
+    expiryTime: now + 3600,
+    contentLength: content.length,
+    ...overrides
+  })
+
+  beforeAll(async () => {
+    server = await startFixtureServer()
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('downloads and hashes content in full', async () => {
+    const verifier = new UHRPAvailabilityVerifier(new MemoryUHRPStorage())
+    const checks = await verifier.checkRecords([
+      record('/good', 'aa'),
+      record('/tampered', 'aa'),
+      record('/truncated', 'aa'),
+      record('/missing', 'aa')
+    ])
+    expect(checks.map(({ status, bytesRead }) => ({ status, bytesRead }))).toEqual([
+      { status: 'available', bytesRead: 5000 },
+      { status: 'hash-mismatch', bytesRead: 5000 },
+      { status: 'size-mismatch', bytesRead: 4000 },
+      { status: 'unreachable', bytesRead: 0 }
+    ])
+    expect(checks[3].detail).toBe('HTTP status 404')
+  })
+
+  it('samples byte ranges to check size and availability', async () => {
+    const verifier = new UHRPAvailabilityVerifier(new MemoryUHRPStorage(), { mode: 'sample', samples: 3, sampleSize: 100 })
+    const checks = await verifier.checkRecords([
+      record('/good', 'aa'),
+      record('/truncated', 'aa'),
+      record('/no-ranges', 'aa'),
+      // Sampling cannot see that the bytes differ
+      record('/tampered', 'aa')
+    ])
+    expect(checks.map(({ status, bytesRead }) => ({ status, bytesRead }))).toEqual([
+      { status: 'available', bytesRead: 300 },
+      { status: 'size-mismatch', bytesRead: 0 },
+      { status: 'range-unsupported', bytesRead: 0 },
+      { status: 'available', bytesRead: 300 }
+    ])
+  })
+
+  it('reports unreachable hosts', async () => {
+    const verifier = new UHRPAvailabilityVerifier(new MemoryUHRPStorage(), { timeoutMs: 1000 })
+    const [check] = await verifier.checkRecords([record('/good', 'aa', { url: 'http://127.0.0.1:1/good' })])
+    expect(check.status).toBe('unreachable')
+  })
+
+  it('audits unexpired commitments from the index into a per-host report', async () => {
+    const storage = new MemoryUHRPStorage()
+    await storage.insertRecord(record('/good', 'aa'))
+    await storage.insertRecord(record('/tampered', 'aa'))
+    await storage.insertRecord(record('/good', 'bb'))
+    await storage.insertRecord(record('/missing', 'cc'))
+    await storage.insertRecord(record('/missing', 'dd', { expiryTime: now }))
+
+    const verifier = new UHRPAvailabilityVerifier(storage, { clock: () => now })
+    const report = await verifier.audit()
+
+    expect(report.checkedAt).toBe(now)
+    expect(report.checks).toHaveLength(4)
+    expect(report.hosts).toEqual([
+      { host: 'cc', checked: 1, available: 0, reliability: 0, failures: { unreachable: 1 } },
+      { host: 'aa', checked: 2, available: 1, reliability: 0.5, failures: { 'hash-mismatch': 1 } },
+      { host: 'bb', checked: 1, available: 1, reliability: 1, failures: {} }
+    ])
+  })
+})
@@ -0,0 +1,100 @@
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Hash, LockingScript, OP, P2PKH, PrivateKey, Script, Transaction, UnlockingScript, Utils } from '@bsv/sdk'
+import { UHRP_PROTOCOL_ADDRESS } from 'uhrp-topic-manager'
+import { MemoryUHRPStorage } from '../storage/MemoryUHRPStorage.js'
+import { readBEEFArchive, UHRPReindexer } from '../UHRPReindexer.js'
+
+const hostKey = PrivateKey.fromRandom()
+const now = Math.floor(Date.now() / 1000)
+
+/**
+ * Builds a signed UHRP commitment script, the way pushdrop.create lays it out
+ */
+const commitmentScript = (content: string, operation: string, expiryTime: number): LockingScript => {
+  const fields = [
+    Utils.toArray(UHRP_PROTOCOL_ADDRESS, 'utf8'),
+    Utils.toArray(hostKey.toPublicKey().toAddress(), 'utf8'),
+    Hash.sha256(Utils.toArray(content, 'utf8')),
+    Utils.toArray(operation, 'utf8'),
+    Utils.toArray(`https://example.com/${content}`, 'utf8'),
+    Utils.toArray(String(expiryTime), 'utf8'),
+    Utils.toArray(String(content.length), 'utf8')
+  ]
+  const signature = hostKey.sign(fields.flat()).toDER() as number[]
+  const script = new Script().writeBin(hostKey.toPublicKey().encode(true) as number[]).writeOpCode(OP.OP_CHECKSIG)
+  for (const field of [...fields, signature]) script.writeBin(field)
+  for (let i = 0; i < 4; i++) script.writeOpCode(OP.OP_2DROP)
+  return new LockingScript(script.chunks)
+}
+
+const createTransaction = (lockingScripts: LockingScript[], spends: Transaction[] = []): Transaction => {
+  const tx = new Transaction()
+  for (const sourceTransaction of spends) {
+    tx.addInput({ sourceTransaction, sourceOutputIndex: 0, unlockingScript: new UnlockingScript(), sequence: 0xffffffff })
+  }
+  for (const lockingScript of lockingScripts) tx.addOutput({ lockingScript, satoshis: 1000 })
+  // Returned to the wallet, as in every commitment transaction it funds
+  tx.addOutput({ lockingScript: new P2PKH().lock(hostKey.toPublicKey().toAddress()), satoshis: 42 })
+  return tx
+}
+
+describe('UHRPReindexer', () => {
+  const first = createTransaction([commitmentScript('a', 'advertise', now + 3600), new LockingScript([{ op: OP.OP_RETURN }])])
+  const second = createTransaction([commitmentScript('b', 'advertise', now + 3600), commitmentScript('c', 'advertise', now - 10)])
+  const renewal = createTransaction([commitmentScript('a', 'advertise', now + 7200)], [first])
+  const revocation = createTransaction([commitmentScript('b', 'revoke', now)], [second])
+  const archive = [first, second, renewal, revocation].map(tx => tx.toBEEF())
+
+  it('replays transactions in order and reports what was added, rejected and spent', async () => {
+    const reindexer = new UHRPReindexer(new MemoryUHRPStorage())
+    const report = await reindexer.reindex([...archive, [1, 2, 3]])
+
+    expect(report).toEqual(expect.objectContaining({
+      transactions: 5,
+      added: 4,
+      rejected: { 'invalid-expiryTime': 1, 'malformed-transaction': 1 },
+      spent: 2,
+      dryRun: false
+    }))
+    await expect(reindexer.storage.findRecords({})).resolves.toEqual([
+      expect.objectContaining({ txid: renewal.id('hex'), outputIndex: 0, url: 'https://example.com/a', expiryTime: now + 7200 })
+    ])
+  })
+
+  it('shows the diff against the current index without writing in a dry run', async () => {
+    const storage = new MemoryUHRPStorage()
+    // Left over from a commitment the current rules would not admit
+    const stale = { txid: 'aa'.repeat(32), outputIndex: 0, hash: 'bb'.repeat(32), url: 'https://example.com/stale', host: hostKey.toPublicKey().toString(), expiryTime: now + 60, contentLength: 1 }
+    await storage.insertRecord(stale)
+    const reindexer = new UHRPReindexer(storage)
+
+    const dryRun = await reindexer.reindex(archive, { dryRun: true })
+    expect(dryRun.dryRun).toBe(true)
+    expect(dryRun.diff).toEqual({
+      added: [expect.objectContaining({ txid: renewal.id('hex'), outputIndex: 0 })],
+      removed: [stale],
+      unchanged: 0
+    })
+    await expect(storage.findRecords({})).resolves.toEqual([stale])
+
+    await reindexer.reindex(archive)
+    const rebuilt = await storage.findRecords({})
+    expect(rebuilt).toEqual([expect.objectContaining({ txid: renewal.id('hex'), outputIndex: 0 })])
+    await expect(reindexer.reindex(archive, { dryRun: true })).resolves.toEqual(expect.objectContaining({
+      diff: { added: [], removed: [], unchanged: 1 }
+    }))
+  })
+
+  it('reads archives from a directory of files or one transaction per line', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'uhrp-archive-'))
+    writeFileSync(join(dir, '001.beef'), Buffer.from(archive[0]))
+    writeFileSync(join(dir, '002.hex'), `${Utils.toHex(archive[1])}\n`)
+    await expect(readBEEFArchive(dir)).resolves.toEqual(archive.slice(0, 2))
+
+    const file = join(mkdtempSync(join(tmpdir(), 'uhrp-archive-')), 'archive.txt')
+    writeFileSync(file, archive.map(beef => Utils.toHex(beef)).join('\r\n\n'))
+    await expect(readBEEFArchive(file)).resolves.toEqual(archive)
+  })
+})
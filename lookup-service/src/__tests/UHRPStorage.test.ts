@@ -0,0 +1,329 @@
+import knex, { Knex } from 'knex'
+import { OP, PrivateKey, Script, Utils } from '@bsv/sdk'
+import { UHRPLookupService } from '../UHRPLookupService.js'
+import { MemoryUHRPStorage } from '../storage/MemoryUHRPStorage.js'
+import { KnexUHRPStorage } from '../storage/knex/KnexUHRPStorage.js'
+import { UHRPExpirySweeper } from '../UHRPExpirySweeper.js'
+import { TestLogSink, MemoryMetricsRegistry, encodeCommitmentTerms } from 'uhrp-topic-manager'
+import type { UHRPStorage } from '../storage/UHRPStorage.js'
+import type { UHRPRecord } from '../types.js'
+import { LOOKUP_OPTIONS, LOOKUP_QUERY_TYPES } from '../validateLookupQuery.js'
+import packageJson from '../../package.json'
+
+const makeRecord = (overrides: Partial<UHRPRecord> = {}): UHRPRecord => ({
+  txid: 'aa'.repeat(32),
+  outputIndex: 0,
+  hash: 'bb'.repeat(32),
+  url: 'https://example.com/file.txt',
+  host: PrivateKey.fromRandom().toPublicKey().toString(),
+  expiryTime: 1900000000,
+  contentLength: 1024,
+  ...overrides
+})
+
+const storageSuite = (name: string, createStorage: () => Promise<UHRPStorage>, teardown: () => Promise<void>): void => {
+  describe(name, () => {
+    let storage: UHRPStorage
+
+    beforeEach(async () => {
+      storage = await createStorage()
+    })
+
+    afterEach(teardown)
+
+    it('inserts and finds a record by outpoint', async () => {
+      const record = makeRecord()
+      await storage.insertRecord(record)
+      await expect(storage.findRecord(record.txid, 0)).resolves.toEqual(record)
+      await expect(storage.findRecord(record.txid, 1)).resolves.toBeUndefined()
+    })
+
+    it('replaces the record when an outpoint is inserted again', async () => {
+      const first = makeRecord({ outputIndex: 0 })
+      const second = makeRecord({ outputIndex: 1, expiryTime: first.expiryTime })
+      await storage.insertRecord(first)
+      await storage.insertRecord(second)
+      const replacement = { ...first, url: 'https://mirror.example.com/file.txt', contentLength: 2048 }
+      await storage.insertRecord(replacement)
+
+      await expect(storage.findRecord(first.txid, 0)).resolves.toEqual(replacement)
+      await expect(storage.findRecords({})).resolves.toEqual([replacement, second])
+      await expect(storage.getStatistics(0)).resolves.toEqual(expect.objectContaining({ records: 2 }))
+    })
+
+    it('finds records by hash, URL and host', async () => {
+      const first = makeRecord()
+      const second = makeRecord({ outputIndex: 1, url: 'https://mirror.example.com/file.txt' })
+      const other = makeRecord({ txid: 'cc'.repeat(32), hash: 'dd'.repeat(32), host: first.host })
+      await storage.insertRecord(first)
+      await storage.insertRecord(second)
+      await storage.insertRecord(other)
+
+      await expect(storage.findRecords({ hash: first.hash })).resolves.toEqual([first, second])
+      await expect(storage.findRecords({ url: second.url })).resolves.toEqual([second])
+      await expect(storage.findRecords({ host: first.host })).resolves.toEqual([first, other])
+      await expect(storage.findRecords({ hash: first.hash, host: first.host })).resolves.toEqual([first])
+    })
+
+    it('filters by expiry window and pages in expiry order', async () => {
+      const records = [300, 100, 200, 400].map((expiryTime, outputIndex) => makeRecord({ outputIndex, expiryTime }))
+      for (const record of records) await storage.insertRecord(record)
+
+      await expect(storage.findRecords({ expiresFrom: 150, expiresTo: 300 })).resolves.toEqual([records[2], records[0]])
+      await expect(storage.findRecords({}, { sortOrder: 'desc', limit: 2 })).resolves.toEqual([records[3], records[0]])
+      await expect(storage.findRecords({}, { skip: 1, limit: 2 })).resolves.toEqual([records[2], records[0]])
+      await expect(storage.findRecords({}, { skip: 3 })).resolves.toEqual([records[3]])
+    })
+
+    it('deletes expired records and reports how many were removed', async () => {
+      const records = [100, 200, 300].map((expiryTime, outputIndex) => makeRecord({ outputIndex, expiryTime }))
+      for (const record of records) await storage.insertRecord(record)
+
+      await expect(storage.deleteExpiredRecords(200)).resolves.toBe(2)
+      await expect(storage.findRecords({})).resolves.toEqual([records[2]])
+    })
+
+    it('counts records, active and expired commitments and distinct hosts', async () => {
+      await expect(storage.getStatistics(200)).resolves.toEqual({ records: 0, active: 0, expired: 0, hosts: 0 })
+      const host = makeRecord().host
+      await storage.insertRecord(makeRecord({ outputIndex: 0, expiryTime: 100, host }))
+      await storage.insertRecord(makeRecord({ outputIndex: 1, expiryTime: 200, host }))
+      await storage.insertRecord(makeRecord({ outputIndex: 2, expiryTime: 300 }))
+      await expect(storage.getStatistics(200)).resolves.toEqual({ records: 3, active: 1, expired: 2, hosts: 2 })
+    })
+
+    it('deletes a record by outpoint', async () => {
+      const record = makeRecord()
+      await storage.insertRecord(record)
+      await storage.deleteRecord(record.txid, record.outputIndex)
+      await expect(storage.findRecords({ hash: record.hash })).resolves.toEqual([])
+    })
+  })
+}
+
+let db: Knex
+storageSuite('MemoryUHRPStorage', async () => new MemoryUHRPStorage(), async () => {})
+storageSuite('KnexUHRPStorage', async () => {
+  db = knex({ client: 'better-sqlite3', connection: { filename: ':memory:' }, useNullAsDefault: true })
+  const storage = new KnexUHRPStorage(db)
+  await storage.migrate()
+  return storage
+}, async () => {
+  await db.destroy()
+})
+
+describe('UHRPLookupService', () => {
+  const hostKey = PrivateKey.fromRandom().toPublicKey()
+  const commitmentScript = (operation: string, terms: string[] = []): Script => {
+    const script = new Script()
+      .writeBin(hostKey.encode(true) as number[])
+      .writeOpCode(OP.OP_CHECKSIG)
+    for (const field of ['1UHRPYnMHPuQ5Tgb3AF8JXqwKkmZVy5hG', hostKey.toAddress(), 'ee'.repeat(32), operation, 'https://example.com/a', '1900000000', '42', ...terms]) {
+      script.writeBin(Utils.toArray(field, field === 'ee'.repeat(32) ? 'hex' : 'utf8'))
+    }
+    script.writeBin([0x30])
+    // Drops the fields and the signature, two at a time
+    const pushes = 8 + terms.length
+    for (let i = 0; i < Math.floor(pushes / 2); i++) script.writeOpCode(OP.OP_2DROP)
+    return pushes % 2 === 0 ? script : script.writeOpCode(OP.OP_DROP)
+  }
+
+  it('indexes admitted commitments and forgets spent ones', async () => {
+    const storage = new MemoryUHRPStorage()
+    const service = new UHRPLookupService(storage)
+
+    await service.outputAdded?.('ff'.repeat(32), 2, commitmentScript('advertise'), 'tm_uhrp')
+    await expect(storage.findRecord('ff'.repeat(32), 2)).resolves.toEqual({
+      txid: 'ff'.repeat(32),
+      outputIndex: 2,
+      hash: 'ee'.repeat(32),
+      url: 'https://example.com/a',
+      host: hostKey.toAddress(),
+      expiryTime: 1900000000,
+      contentLength: 42
+    })
+
+    await service.outputSpent?.('ff'.repeat(32), 2, 'tm_uhrp')
+    await expect(storage.findRecord('ff'.repeat(32), 2)).resolves.toBeUndefined()
+  })
+
+  it('does not index revocations as hosting commitments', async () => {
+    const storage = new MemoryUHRPStorage()
+    const service = new UHRPLookupService(storage)
+
+    await service.outputAdded?.('ff'.repeat(32), 0, commitmentScript('revoke'), 'tm_uhrp')
+    await expect(storage.findRecords({})).resolves.toEqual([])
+  })
+
+  it('indexes commitments carrying hosting terms, and refuses scripts that follow no commitment layout', async () => {
+    const storage = new MemoryUHRPStorage()
+    const service = new UHRPLookupService(storage)
+
+    await service.outputAdded?.('ff'.repeat(32), 0, commitmentScript('advertise', encodeCommitmentTerms({ pricePerGB: 10 })), 'tm_uhrp')
+    await expect(storage.findRecord('ff'.repeat(32), 0)).resolves.toEqual(expect.objectContaining({ url: 'https://example.com/a', contentLength: 42 }))
+
+    await expect(service.outputAdded?.('ff'.repeat(32), 1, commitmentScript('advertise', ['1']), 'tm_uhrp')).rejects.toThrow('Expected 7 or 11 fields, found 8.')
+    await expect(service.outputAdded?.('ff'.repeat(32), 2, Script.fromASM('OP_FALSE OP_RETURN 00'), 'tm_uhrp')).rejects.toThrow()
+    await expect(storage.findRecords({})).resolves.toHaveLength(1)
+  })
+
+  it('logs what it indexes and removes', async () => {
+    const logs = new TestLogSink()
+    const service = new UHRPLookupService(new MemoryUHRPStorage(), undefined, logs)
+
+    await service.outputAdded?.('ff'.repeat(32), 1, commitmentScript('advertise'), 'tm_uhrp')
+    await service.outputDeleted?.('ff'.repeat(32), 1, 'tm_uhrp')
+    expect(logs.entries).toEqual([
+      { level: 'debug', message: 'Indexed UHRP commitment', data: { txid: 'ff'.repeat(32), outputIndex: 1, hash: 'ee'.repeat(32), url: 'https://example.com/a' } },
+      { level: 'debug', message: 'Removed deleted UHRP commitment', data: { txid: 'ff'.repeat(32), outputIndex: 1 } }
+    ])
+  })
+
+  it('describes itself with the package version', async () => {
+    await expect(new UHRPLookupService(new MemoryUHRPStorage()).getMetaData()).resolves.toEqual({
+      name: 'UHRP Lookup Service',
+      shortDescription: expect.any(String),
+      version: packageJson.version,
+      informationURL: packageJson.homepage
+    })
+  })
+
+  it('documents every query type, property and option it accepts', async () => {
+    const documentation = await new UHRPLookupService(new MemoryUHRPStorage()).getDocumentation()
+    for (const [type, { properties }] of Object.entries(LOOKUP_QUERY_TYPES)) {
+      expect(documentation).toContain(`### \`${type}\``)
+      for (const [property, value] of Object.entries(properties)) {
+        expect(documentation).toContain(`| \`${property}\` | ${value} |`)
+      }
+    }
+    for (const [option, value] of Object.entries(LOOKUP_OPTIONS)) {
+      expect(documentation).toContain(`| \`${option}\` | ${value} |`)
+    }
+    expect(documentation).toContain('## Commitment output')
+  })
+})
+
+describe('UHRPLookupService.lookup', () => {
+  const storage = new MemoryUHRPStorage()
+  let now = 50
+  const service = new UHRPLookupService(storage, () => now)
+  const host = PrivateKey.fromRandom().toPublicKey().toAddress()
+  // UHRP URL of the hash 'bb'.repeat(32), as produced by uhrp-url's getURLForHash
+  const uhrpURL = Utils.toBase58Check(Utils.toArray('bb'.repeat(32), 'hex'), [0xce, 0x00])
+
+  beforeAll(async () => {
+    await storage.insertRecord(makeRecord({ outputIndex: 0, expiryTime: 300, host }))
+    await storage.insertRecord(makeRecord({ outputIndex: 1, expiryTime: 100 }))
+    await storage.insertRecord(makeRecord({ outputIndex: 2, expiryTime: 200, hash: 'cc'.repeat(32), url: 'https://other.example.com/x', host }))
+  })
+
+  const lookup = async (query: unknown): Promise<unknown> => await service.lookup({ service: 'ls_uhrp', query })
+  const outpoint = (outputIndex: number): { txid: string, outputIndex: number } => ({ txid: 'aa'.repeat(32), outputIndex })
+
+  it('finds hosts by hash and UHRP URL, ordered by expiry', async () => {
+    await expect(lookup({ type: 'hash', hash: 'BB'.repeat(32) })).resolves.toEqual([outpoint(1), outpoint(0)])
+    await expect(lookup({ type: 'uhrpURL', uhrpURL: `uhrp://${uhrpURL}` })).resolves.toEqual([outpoint(1), outpoint(0)])
+    await expect(lookup({ type: 'hash', hash: 'bb'.repeat(32), sortOrder: 'desc' })).resolves.toEqual([outpoint(0), outpoint(1)])
+  })
+
+  it('finds commitments by host, URL and expiry window', async () => {
+    await expect(lookup({ type: 'host', host })).resolves.toEqual([outpoint(2), outpoint(0)])
+    // Addresses are matched as committed, and must carry a valid checksum
+    await expect(lookup({ type: 'host', host: host.toLowerCase() })).rejects.toThrow('"host" must be a Base58Check-encoded P2PKH address')
+    await expect(lookup({ type: 'url', url: 'https://other.example.com/x' })).resolves.toEqual([outpoint(2)])
+    await expect(lookup({ type: 'expiry', from: 150, to: 300 })).resolves.toEqual([outpoint(2), outpoint(0)])
+  })
+
+  it('pages through results', async () => {
+    await expect(lookup({ type: 'expiry', from: 0, to: 1000, limit: 2 })).resolves.toEqual([outpoint(1), outpoint(2)])
+    await expect(lookup({ type: 'expiry', from: 0, to: 1000, limit: 2, skip: 2 })).resolves.toEqual([outpoint(0)])
+  })
+
+  it('leaves out expired commitments unless asked to include them', async () => {
+    now = 200
+    await expect(lookup({ type: 'hash', hash: 'bb'.repeat(32) })).resolves.toEqual([outpoint(0)])
+    await expect(lookup({ type: 'expiry', from: 0, to: 250 })).resolves.toEqual([])
+    await expect(lookup({ type: 'expiry', from: 0, to: 250, includeExpired: true })).resolves.toEqual([outpoint(1), outpoint(2)])
+    now = 50
+  })
+
+  it('counts and times lookups by query type', async () => {
+    const metrics = new MemoryMetricsRegistry()
+    const measured = new UHRPLookupService(storage, () => now, undefined, metrics)
+    await measured.lookup({ service: 'ls_uhrp', query: { type: 'hash', hash: 'bb'.repeat(32) } })
+    await measured.lookup({ service: 'ls_uhrp', query: { type: 'hash', hash: 'cc'.repeat(32) } })
+    await expect(measured.lookup({ service: 'ls_uhrp', query: { type: 'name' } })).rejects.toThrow()
+
+    expect(metrics.getValue('uhrp_lookup_queries_total', { type: 'hash', outcome: 'success' })).toBe(2)
+    expect(metrics.getValue('uhrp_lookup_queries_total', { type: 'invalid', outcome: 'error' })).toBe(1)
+    expect(metrics.getValue('uhrp_lookup_duration_seconds', { type: 'hash' })).toBe(2)
+    const text = await metrics.render()
+    expect(text).toContain('uhrp_index_records 3')
+    expect(text).toContain('uhrp_index_commitments{state="expired"} 0')
+    expect(text).toContain('uhrp_index_hosts 2')
+  })
+
+  it('rejects malformed questions with descriptive errors', async () => {
+    await expect(service.lookup({ service: 'ls_other', query: {} })).rejects.toThrow('not supported')
+    await expect(lookup('hash')).rejects.toThrow('must be an object')
+    await expect(lookup({ type: 'name' })).rejects.toThrow('type must be one of')
+    await expect(lookup({ type: 'hash', hash: 'xyz' })).rejects.toThrow('"hash" must be')
+    await expect(lookup({ type: 'hash', hash: 'bb'.repeat(32), url: 'https://a.b' })).rejects.toThrow('Unknown property "url"')
+    await expect(lookup({ type: 'uhrpURL', uhrpURL: 'uhrp://notavalidurl' })).rejects.toThrow('"uhrpURL"')
+    await expect(lookup({ type: 'url', url: 'ftp://example.com/file' })).rejects.toThrow('"url" must be')
+    await expect(lookup({ type: 'expiry', from: 10, to: 5 })).rejects.toThrow('"from" must not be later')
+    await expect(lookup({ type: 'expiry', from: 0, to: 5, limit: 0 })).rejects.toThrow('"limit" must be')
+    await expect(lookup({ type: 'expiry', from: 0, to: 5, sortOrder: 'up' })).rejects.toThrow('"sortOrder" must be')
+    await expect(lookup({ type: 'expiry', from: 0, to: 5, includeExpired: 'yes' })).rejects.toThrow('"includeExpired" must be')
+  })
+})
+
+describe('UHRPExpirySweeper', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('purges lapsed commitments according to its clock', async () => {
+    const storage = new MemoryUHRPStorage()
+    for (const [outputIndex, expiryTime] of [100, 200, 300].entries()) {
+      await storage.insertRecord(makeRecord({ outputIndex, expiryTime }))
+    }
+    let now = 150
+    const sweeper = new UHRPExpirySweeper(storage, 1000, () => now)
+
+    await expect(sweeper.sweep()).resolves.toEqual({ sweptAt: 150, purged: 1 })
+    await expect(sweeper.sweep()).resolves.toEqual({ sweptAt: 150, purged: 0 })
+    now = 300
+    await expect(sweeper.sweep()).resolves.toEqual({ sweptAt: 300, purged: 2 })
+  })
+
+  it('sweeps on its interval until stopped', async () => {
+    jest.useFakeTimers()
+    const storage = new MemoryUHRPStorage()
+    await storage.insertRecord(makeRecord({ expiryTime: 100 }))
+    const reports: unknown[] = []
+    const sweeper = new UHRPExpirySweeper(storage, 1000, () => 500, report => reports.push(report))
+
+    sweeper.start()
+    await jest.advanceTimersByTimeAsync(999)
+    expect(reports).toEqual([])
+    await jest.advanceTimersByTimeAsync(1)
+    expect(reports).toEqual([{ sweptAt: 500, purged: 1 }])
+    sweeper.stop()
+    await jest.advanceTimersByTimeAsync(5000)
+    expect(reports).toHaveLength(1)
+  })
+
+  it('logs scheduled sweeps that fail', async () => {
+    jest.useFakeTimers()
+    const storage = new MemoryUHRPStorage()
+    jest.spyOn(storage, 'deleteExpiredRecords').mockRejectedValue(new Error('database is locked'))
+    const logs = new TestLogSink()
+    const sweeper = new UHRPExpirySweeper(storage, 1000, () => 500, undefined, logs)
+
+    sweeper.start()
+    await jest.advanceTimersByTimeAsync(1000)
+    sweeper.stop()
+    expect(logs.entries).toEqual([{ level: 'error', message: 'UHRP expiry sweep failed', data: { error: { name: 'Error', message: 'database is locked' } } }])
+  })
+})
@@ -0,0 +1,135 @@
+import knex, { Knex } from 'knex'
+import { Hash, LockingScript, MerklePath, OP, PrivateKey, Script, Transaction, Utils } from '@bsv/sdk'
+import { createOverlayEngine } from '../createOverlayEngine.js'
+import { loadConfig } from '../config.js'
+import { UHRP_PROTOCOL_ADDRESS, MemoryMetricsRegistry } from 'uhrp-topic-manager'
+
+const hostKey = PrivateKey.fromRandom()
+const fileHash = Hash.sha256(Utils.toArray('hello world', 'utf8'))
+const expiryTime = Math.floor(Date.now() / 1000) + 3600
+
+/**
+ * Builds a transaction holding one signed UHRP commitment, the way pushdrop.create lays it out
+ */
+const createCommitmentTransaction = (): Transaction => {
+  const fields = [
+    Utils.toArray(UHRP_PROTOCOL_ADDRESS, 'utf8'),
+    Utils.toArray(hostKey.toPublicKey().toAddress(), 'utf8'),
+    fileHash,
+    Utils.toArray('advertise', 'utf8'),
+    Utils.toArray('https://example.com/file.txt', 'utf8'),
+    Utils.toArray(String(expiryTime), 'utf8'),
+    Utils.toArray('11', 'utf8')
+  ]
+  const signature = hostKey.sign(fields.flat()).toDER() as number[]
+  const script = new Script().writeBin(hostKey.toPublicKey().encode(true) as number[]).writeOpCode(OP.OP_CHECKSIG)
+  for (const field of [...fields, signature]) script.writeBin(field)
+  for (let i = 0; i < 4; i++) script.writeOpCode(OP.OP_2DROP)
+
+  const tx = new Transaction()
+  tx.addOutput({ lockingScript: new LockingScript(script.chunks), satoshis: 1000 })
+  // Mined alone in a block, so a scripts-only node accepts it without its inputs
+  tx.merklePath = new MerklePath(1000, [[{ offset: 0, hash: tx.id('hex'), txid: true }, { offset: 1, duplicate: true }]])
+  return tx
+}
+
+describe('createOverlayEngine', () => {
+  let db: Knex
+
+  beforeEach(() => {
+    db = knex({ client: 'better-sqlite3', connection: { filename: ':memory:' }, useNullAsDefault: true })
+  })
+
+  afterEach(async () => {
+    await db.destroy()
+  })
+
+  it('hosts tm_uhrp and ls_uhrp', async () => {
+    const { engine } = await createOverlayEngine(db, { network: 'local', hostingURL: 'http://localhost:8080' })
+    await expect(engine.listTopicManagers()).resolves.toEqual(['tm_uhrp'])
+    await expect(engine.listLookupServiceProviders()).resolves.toEqual(['ls_uhrp'])
+  })
+
+  it('admits submitted commitments and answers lookups for them', async () => {
+    const { engine, uhrpStorage } = await createOverlayEngine(db, { network: 'local', hostingURL: 'http://localhost:8080' })
+    const tx = createCommitmentTransaction()
+
+    const steak = await engine.submit({ beef: tx.toBEEF(), topics: ['tm_uhrp'] })
+    expect(steak).toEqual({ tm_uhrp: { outputsToAdmit: [0], coinsToRetain: [] } })
+    await expect(uhrpStorage.findRecord(tx.id('hex'), 0)).resolves.toEqual(expect.objectContaining({
+      hash: Utils.toHex(fileHash),
+      url: 'https://example.com/file.txt',
+      expiryTime
+    }))
+
+    const answer = await engine.lookup({ service: 'ls_uhrp', query: { type: 'hash', hash: Utils.toHex(fileHash) } })
+    expect(answer.type).toBe('output-list')
+    expect(answer.type === 'output-list' && answer.outputs.map(output => output.outputIndex)).toEqual([0])
+  })
+
+  it('reports admission, lookup and index metrics in the Prometheus text format', async () => {
+    const metrics = new MemoryMetricsRegistry()
+    const { engine } = await createOverlayEngine(db, { network: 'local', hostingURL: 'http://localhost:8080' }, undefined, metrics)
+    await engine.submit({ beef: createCommitmentTransaction().toBEEF(), topics: ['tm_uhrp'] })
+    await engine.lookup({ service: 'ls_uhrp', query: { type: 'hash', hash: Utils.toHex(fileHash) } })
+
+    const text = await metrics.render()
+    expect(text).toContain('uhrp_outputs_admitted_total{operation="advertise"} 1')
+    expect(text).toContain('uhrp_lookup_queries_total{type="hash",outcome="success"} 1')
+    expect(text).toContain('uhrp_lookup_duration_seconds_count{type="hash"} 1')
+    expect(text).toContain('uhrp_index_records 1')
+    expect(text).toContain('uhrp_index_commitments{state="active"} 1')
+    expect(text).toContain('uhrp_index_hosts 1')
+  })
+
+  it('can be created again over an existing database', async () => {
+    await createOverlayEngine(db, { network: 'local', hostingURL: 'http://localhost:8080' })
+    await expect(createOverlayEngine(db, { network: 'local', hostingURL: 'http://localhost:8080' })).resolves.toBeDefined()
+  })
+})
+
+describe('loadConfig', () => {
+  it('defaults to a local development node', () => {
+    expect(loadConfig({})).toEqual({
+      port: 8080,
+      hostingURL: 'http://localhost:8080',
+      dbFile: './data/uhrp.sqlite',
+      network: 'local',
+      logLevel: 'info',
+      sweepIntervalMs: 3600000,
+      corsOrigin: '*',
+      minOutputAmount: 1000
+    })
+  })
+
+  it('reads settings from the environment', () => {
+    expect(loadConfig({
+      PORT: '3000',
+      HOSTING_URL: 'https://overlay.example.com',
+      UHRP_DB_FILE: '/var/lib/uhrp.sqlite',
+      NETWORK: 'main',
+      LOG_LEVEL: 'debug',
+      SWEEP_INTERVAL_MS: '60000',
+      CORS_ORIGIN: 'http://localhost:8090',
+      MIN_OUTPUT_AMOUNT: '5000'
+    })).toEqual({
+      port: 3000,
+      hostingURL: 'https://overlay.example.com',
+      dbFile: '/var/lib/uhrp.sqlite',
+      network: 'main',
+      logLevel: 'debug',
+      sweepIntervalMs: 60000,
+      corsOrigin: 'http://localhost:8090',
+      minOutputAmount: 5000
+    })
+  })
+
+  it('names the variable that is set to an unusable value', () => {
+    expect(() => loadConfig({ PORT: 'eighty' })).toThrow('PORT must be a whole number.')
+    expect(() => loadConfig({ PORT: '70000' })).toThrow('PORT must be between 1 and 65535.')
+    expect(() => loadConfig({ NETWORK: 'regtest' })).toThrow('NETWORK must be one of: local, main, test.')
+    expect(() => loadConfig({ LOG_LEVEL: 'verbose' })).toThrow('LOG_LEVEL must be one of: debug, info, warn, error.')
+    expect(() => loadConfig({ SWEEP_INTERVAL_MS: '10' })).toThrow('SWEEP_INTERVAL_MS must be at least 1000.')
+    expect(() => loadConfig({ MIN_OUTPUT_AMOUNT: '0.5' })).toThrow('MIN_OUTPUT_AMOUNT must be a whole number.')
+  })
+})
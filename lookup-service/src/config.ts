@@ -0,0 +1,77 @@
+import { DEFAULT_MINIMUM_OUTPUT_AMOUNT, LogLevel } from 'uhrp-topic-manager'
+
+/**
+ * Settings for a local UHRP overlay node, read from the environment
+ */
+export interface OverlayNodeConfig {
+  /** Port the HTTP server listens on (`PORT`, default 8080) */
+  port: number
+  /** Public URL of this node (`HOSTING_URL`, default `http://localhost:<port>`) */
+  hostingURL: string
+  /** SQLite database file holding the overlay and lookup state (`UHRP_DB_FILE`, default `./data/uhrp.sqlite`) */
+  dbFile: string
+  /**
+   * How submitted transactions are verified (`NETWORK`, default `local`).
+   * `local` only checks scripts, so development transactions need no merkle proofs; `main` and `test` check proofs with WhatsOnChain.
+   */
+  network: 'local' | 'main' | 'test'
+  /** Least severe diagnostics written to the console (`LOG_LEVEL`, default `info`) */
+  logLevel: LogLevel
+  /** How often lapsed commitments are purged from the lookup index, in milliseconds (`SWEEP_INTERVAL_MS`, default one hour) */
+  sweepIntervalMs: number
+  /** Origin allowed to call the node from a browser (`CORS_ORIGIN`, default `*`) */
+  corsOrigin: string
+  /** Fewest satoshis a commitment output must hold to be admitted, so dust commitments are rejected (`MIN_OUTPUT_AMOUNT`, default 1000) */
+  minOutputAmount: number
+}
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+const NETWORKS: Array<OverlayNodeConfig['network']> = ['local', 'main', 'test']
+
+/**
+ * Reads the overlay node configuration from environment variables
+ * @param env - The environment to read, defaults to `process.env`
+ * @returns The configuration, with defaults for anything unset
+ * @throws If a variable is set to a value that cannot be used, naming the variable
+ */
+export function loadConfig (env: NodeJS.ProcessEnv = process.env): OverlayNodeConfig {
+  const port = readInteger(env, 'PORT', 8080)
+  if (port < 1 || port > 65535) {
+    throw new Error('PORT must be between 1 and 65535.')
+  }
+
+  const network = env.NETWORK ?? 'local'
+  if (!(NETWORKS as string[]).includes(network)) {
+    throw new Error(`NETWORK must be one of: ${NETWORKS.join(', ')}.`)
+  }
+
+  const logLevel = env.LOG_LEVEL ?? 'info'
+  if (!(LOG_LEVELS as string[]).includes(logLevel)) {
+    throw new Error(`LOG_LEVEL must be one of: ${LOG_LEVELS.join(', ')}.`)
+  }
+
+  const sweepIntervalMs = readInteger(env, 'SWEEP_INTERVAL_MS', 60 * 60 * 1000)
+  if (sweepIntervalMs < 1000) {
+    throw new Error('SWEEP_INTERVAL_MS must be at least 1000.')
+  }
+
+  return {
+    port,
+    hostingURL: env.HOSTING_URL ?? `http://localhost:${port}`,
+    dbFile: env.UHRP_DB_FILE ?? './data/uhrp.sqlite',
+    network: network as OverlayNodeConfig['network'],
+    logLevel: logLevel as LogLevel,
+    sweepIntervalMs,
+    corsOrigin: env.CORS_ORIGIN ?? '*',
+    minOutputAmount: readInteger(env, 'MIN_OUTPUT_AMOUNT', DEFAULT_MINIMUM_OUTPUT_AMOUNT)
+  }
+}
+
+function readInteger (env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = env[name]
+  if (value === undefined || value === '') return fallback
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${name} must be a whole number.`)
+  }
+  return parseInt(value, 10)
+}
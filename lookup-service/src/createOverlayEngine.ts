@@ -0,0 +1,57 @@
+import { Engine, KnexStorage } from '@bsv/overlay'
+import { ChainTracker, WhatsOnChain } from '@bsv/sdk'
+import { Knex } from 'knex'
+import { UHRPTopicManager, Logger, silentLogger, MetricsRegistry, noopMetrics } from 'uhrp-topic-manager'
+import { UHRPLookupService } from './UHRPLookupService.js'
+import { KnexUHRPStorage } from './storage/knex/KnexUHRPStorage.js'
+import overlayMigrations from './storage/knex/overlay-migrations.js'
+import type { Migration } from './storage/knex/all-migrations.js'
+import type { OverlayNodeConfig } from './config.js'
+
+/**
+ * A UHRP overlay engine, together with the lookup index it keeps
+ */
+export interface UHRPOverlay {
+  engine: Engine
+  /** The `ls_uhrp` lookup index, exposed for sweeping and auditing */
+  uhrpStorage: KnexUHRPStorage
+}
+
+/**
+ * Builds an overlay engine that admits UHRP commitments under `tm_uhrp` and answers `ls_uhrp` lookups.
+ * Overlay state and the lookup index share one database, whose schema is brought up to date first.
+ * @param knex - The database to keep overlay state and the lookup index in
+ * @param config - The node configuration, of which the network, hosting URL and minimum output amount are used
+ * @param logger - Receives diagnostics from the topic manager and lookup service, silent by default
+ * @param metrics - Receives admission and lookup metrics from the topic manager and lookup service, discarded by default
+ * @returns The engine and its lookup index
+ */
+export async function createOverlayEngine (
+  knex: Knex,
+  config: Pick<OverlayNodeConfig, 'network' | 'hostingURL'> & Partial<Pick<OverlayNodeConfig, 'minOutputAmount'>>,
+  logger: Logger = silentLogger,
+  metrics: MetricsRegistry = noopMetrics
+): Promise<UHRPOverlay> {
+  const migrationSource: Knex.MigrationSource<Migration> = {
+    getMigrations: async () => overlayMigrations,
+    getMigrationName: migration => migration.name,
+    getMigration: async migration => migration
+  }
+  await knex.migrate.latest({ tableName: 'overlay_knex_migrations', migrationSource })
+
+  const uhrpStorage = new KnexUHRPStorage(knex)
+  await uhrpStorage.migrate()
+
+  const chainTracker: ChainTracker | 'scripts only' = config.network === 'local'
+    ? 'scripts only'
+    : new WhatsOnChain(config.network)
+
+  const engine = new Engine(
+    { tm_uhrp: new UHRPTopicManager(logger, config.minOutputAmount, metrics) },
+    { ls_uhrp: new UHRPLookupService(uhrpStorage, undefined, logger, metrics) },
+    new KnexStorage(knex),
+    chainTracker,
+    config.hostingURL
+  )
+  return { engine, uhrpStorage }
+}
@@ -0,0 +1,46 @@
+import packageJson from '../package.json' with { type: 'json' }
+import { describeCommitmentLayout, markdownTable, OverlayMetaData } from 'uhrp-topic-manager'
+import { LOOKUP_OPTIONS, LOOKUP_QUERY_TYPES } from './validateLookupQuery.js'
+
+export const LOOKUP_SERVICE_METADATA: OverlayMetaData = {
+  name: 'UHRP Lookup Service',
+  shortDescription: 'Finds the hosts committed to serving content by its hash, UHRP URL, host, URL or expiry time.',
+  version: packageJson.version,
+  informationURL: packageJson.homepage
+}
+
+/**
+ * Generates the documentation served for the `ls_uhrp` lookup service, from the query schema it validates against
+ * @returns A markdown document
+ */
+export function getLookupServiceDocumentation (): string {
+  const queryTypes = Object.entries(LOOKUP_QUERY_TYPES).map(([type, { description, properties }]) => `### \`${type}\`
+
+${description}.
+
+${markdownTable(
+  ['Property', 'Value'],
+  Object.entries(properties).map(([property, value]) => [`\`${property}\``, value])
+)}
+`)
+
+  return `# ${LOOKUP_SERVICE_METADATA.name} (\`ls_uhrp\`)
+
+${LOOKUP_SERVICE_METADATA.shortDescription}
+
+Outputs admitted to the \`tm_uhrp\` topic are indexed as they are added, and dropped once spent by a renewal or revocation.
+
+## Queries
+
+A query is a JSON object whose \`type\` is one of ${Object.keys(LOOKUP_QUERY_TYPES).map(type => `\`${type}\``).join(', ')}, together with the properties of that type and any of the options below. Unknown properties are rejected. Answers list the matching commitment outputs.
+
+${queryTypes.join('\n')}
+### Options
+
+${markdownTable(
+  ['Option', 'Value'],
+  Object.entries(LOOKUP_OPTIONS).map(([option, value]) => [`\`${option}\``, value])
+)}
+
+${describeCommitmentLayout()}`
+}
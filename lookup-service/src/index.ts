@@ -0,0 +1,49 @@
+import { mkdirSync } from 'node:fs'
+import { dirname } from 'node:path'
+import knex from 'knex'
+import knexConfig from '../knexfile.js'
+import { createConsoleLogger, MemoryMetricsRegistry } from 'uhrp-topic-manager'
+import { loadConfig } from './config.js'
+import { createOverlayEngine } from './createOverlayEngine.js'
+import { createOverlayServer } from './server.js'
+import { UHRPExpirySweeper } from './UHRPExpirySweeper.js'
+
+/**
+ * Runs a local UHRP overlay node, configured from the environment (see {@link loadConfig})
+ */
+async function main (): Promise<void> {
+  const config = loadConfig()
+  const logger = createConsoleLogger(config.logLevel)
+
+  mkdirSync(dirname(config.dbFile), { recursive: true })
+  const db = knex({ ...knexConfig, connection: { filename: config.dbFile } })
+  const metrics = new MemoryMetricsRegistry()
+  const { engine, uhrpStorage } = await createOverlayEngine(db, config, logger, metrics)
+
+  const sweeper = new UHRPExpirySweeper(uhrpStorage, config.sweepIntervalMs, undefined, report => {
+    if (report.purged > 0) logger.info('Purged lapsed UHRP commitments', report)
+  }, logger)
+  sweeper.start()
+
+  const server = createOverlayServer(engine, config.corsOrigin, logger, metrics).listen(config.port, () => {
+    logger.info('UHRP overlay node listening', {
+      url: config.hostingURL,
+      network: config.network,
+      dbFile: config.dbFile
+    })
+  })
+
+  const shutdown = (): void => {
+    sweeper.stop()
+    server.close(() => {
+      db.destroy().finally(() => process.exit(0))
+    })
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main().catch(error => {
+  console.error('Failed to start the UHRP overlay node:', error)
+  process.exit(1)
+})
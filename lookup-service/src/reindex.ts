@@ -0,0 +1,45 @@
+import { mkdirSync } from 'node:fs'
+import { dirname } from 'node:path'
+import knex from 'knex'
+import knexConfig from '../knexfile.js'
+import { UHRPTopicManager, createConsoleLogger } from 'uhrp-topic-manager'
+import { loadConfig } from './config.js'
+import { KnexUHRPStorage } from './storage/knex/KnexUHRPStorage.js'
+import { readBEEFArchive, UHRPReindexer } from './UHRPReindexer.js'
+
+const USAGE = 'Usage: npm run reindex -- <directory|archive> [--dry-run]'
+
+/**
+ * Rebuilds the lookup index of the node configured from the environment (see {@link loadConfig})
+ * from an archive of BEEF transactions, printing the report as JSON
+ */
+async function main (): Promise<void> {
+  const args = process.argv.slice(2)
+  const dryRun = args.includes('--dry-run')
+  const paths = args.filter(arg => arg !== '--dry-run')
+  if (paths.length !== 1 || paths[0].startsWith('--')) {
+    console.error(USAGE)
+    process.exit(2)
+  }
+
+  const config = loadConfig()
+  const logger = createConsoleLogger(config.logLevel)
+  const transactions = await readBEEFArchive(paths[0])
+
+  mkdirSync(dirname(config.dbFile), { recursive: true })
+  const db = knex({ ...knexConfig, connection: { filename: config.dbFile } })
+  try {
+    const storage = new KnexUHRPStorage(db)
+    await storage.migrate()
+    const reindexer = new UHRPReindexer(storage, new UHRPTopicManager(logger, config.minOutputAmount), logger)
+    const report = await reindexer.reindex(transactions, { dryRun })
+    console.log(JSON.stringify(report, null, 2))
+  } finally {
+    await db.destroy()
+  }
+}
+
+main().catch(error => {
+  console.error('Failed to rebuild the UHRP lookup index:', error)
+  process.exit(1)
+})
@@ -0,0 +1,93 @@
+import express, { Express, NextFunction, Request, Response } from 'express'
+import type { Engine } from '@bsv/overlay'
+import { Logger, silentLogger, MetricsRegistry } from 'uhrp-topic-manager'
+
+/**
+ * Creates the HTTP interface of an overlay node
+ *
+ * - `POST /submit` takes a BEEF transaction as the request body and the topics to submit it to as a JSON array
+ *   in the `X-Topics` header, and answers with the STEAK
+ * - `POST /lookup` takes a JSON lookup question and answers with the lookup answer
+ * - `GET /listTopicManagers` and `GET /listLookupServiceProviders` list what the node hosts
+ * - `GET /metrics` renders the node's metrics in the Prometheus text format, when a registry is given
+ *
+ * Failures are answered with `{ status: 'error', message }`.
+ * @param engine - The overlay engine that processes submissions and lookups
+ * @param corsOrigin - The origin browsers may call the node from
+ * @param logger - Receives request failures, silent by default
+ * @param metrics - The registry `GET /metrics` renders
+ * @returns The Express application, ready to listen
+ */
+export function createOverlayServer (engine: Engine, corsOrigin = '*', logger: Logger = silentLogger, metrics?: MetricsRegistry): Express {
+  const app = express()
+
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    res.header('Access-Control-Allow-Origin', corsOrigin)
+    res.header('Access-Control-Allow-Headers', 'Content-Type, X-Topics')
+    res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS')
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(204)
+      return
+    }
+    next()
+  })
+
+  app.post('/submit', express.raw({ type: 'application/octet-stream', limit: '1gb' }), (req, res, next) => {
+    (async () => {
+      const topics = parseTopics(req.header('X-Topics'))
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw new Error('The request body must be a BEEF transaction sent as application/octet-stream.')
+      }
+      const steak = await engine.submit({ beef: Array.from(req.body), topics })
+      res.json(steak)
+    })().catch(next)
+  })
+
+  app.post('/lookup', express.json({ limit: '1mb' }), (req, res, next) => {
+    (async () => {
+      const { service, query } = req.body ?? {}
+      if (typeof service !== 'string') {
+        throw new Error('The lookup question must name a service.')
+      }
+      res.json(await engine.lookup({ service, query }))
+    })().catch(next)
+  })
+
+  app.get('/listTopicManagers', (req, res, next) => {
+    engine.listTopicManagers().then(managers => res.json(managers)).catch(next)
+  })
+
+  app.get('/listLookupServiceProviders', (req, res, next) => {
+    engine.listLookupServiceProviders().then(providers => res.json(providers)).catch(next)
+  })
+
+  if (metrics !== undefined) {
+    app.get('/metrics', (req, res, next) => {
+      metrics.render()
+        .then(text => res.type('text/plain; version=0.0.4').send(text))
+        .catch(next)
+    })
+  }
+
+  // Express recognizes error handlers by their four parameters
+  app.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+    const message = error instanceof Error ? error.message : String(error)
+    logger.warn('Overlay request failed', { method: req.method, path: req.path, error })
+    res.status(400).json({ status: 'error', message })
+  })
+
+  return app
+}
+
+function parseTopics (header: string | undefined): string[] {
+  let topics: unknown
+  try {
+    topics = JSON.parse(header ?? '')
+  } catch (e) {
+    throw new Error('The X-Topics header must be a JSON array of topic names.')
+  }
+  if (!Array.isArray(topics) || topics.length === 0 || !topics.every(topic => typeof topic === 'string')) {
+    throw new Error('The X-Topics header must be a JSON array of topic names.')
+  }
+  return topics
+}
@@ -0,0 +1,62 @@
+import type { UHRPFindOptions, UHRPIndexStatistics, UHRPRecord, UHRPRecordFilter } from '../types.js'
+import type { UHRPStorage } from './UHRPStorage.js'
+
+/**
+ * Keeps UHRP records in memory. Intended for tests and short-lived nodes, as nothing is persisted.
+ */
+export class MemoryUHRPStorage implements UHRPStorage {
+  private readonly records = new Map<string, UHRPRecord>()
+
+  async insertRecord (record: UHRPRecord): Promise<void> {
+    // Replacing a record keeps its place in the map, as an upsert keeps its row in the SQL storage
+    this.records.set(`${record.txid}.${record.outputIndex}`, { ...record })
+  }
+
+  async deleteRecord (txid: string, outputIndex: number): Promise<void> {
+    this.records.delete(`${txid}.${outputIndex}`)
+  }
+
+  async findRecord (txid: string, outputIndex: number): Promise<UHRPRecord | undefined> {
+    const record = this.records.get(`${txid}.${outputIndex}`)
+    return record === undefined ? undefined : { ...record }
+  }
+
+  async findRecords (filter: UHRPRecordFilter, options: UHRPFindOptions = {}): Promise<UHRPRecord[]> {
+    const direction = options.sortOrder === 'desc' ? -1 : 1
+    const skip = options.skip ?? 0
+    return [...this.records.values()]
+      .filter(record =>
+        (filter.hash === undefined || record.hash === filter.hash) &&
+        (filter.url === undefined || record.url === filter.url) &&
+        (filter.host === undefined || record.host === filter.host) &&
+        (filter.expiresFrom === undefined || record.expiryTime >= filter.expiresFrom) &&
+        (filter.expiresTo === undefined || record.expiryTime <= filter.expiresTo)
+      )
+      // Array.prototype.sort is stable, so records with equal expiry keep their insertion order
+      .sort((a, b) => (a.expiryTime - b.expiryTime) * direction)
+      .slice(skip, options.limit === undefined ? undefined : skip + options.limit)
+      .map(record => ({ ...record }))
+  }
+
+  async deleteExpiredRecords (now: number): Promise<number> {
+    let deleted = 0
+    for (const [key, record] of this.records) {
+      if (record.expiryTime <= now) {
+        this.records.delete(key)
+        deleted++
+      }
+    }
+    return deleted
+  }
+
+  async getStatistics (now: number): Promise<UHRPIndexStatistics> {
+    const records = [...this.records.values()]
+    const expired = records.filter(record => record.expiryTime <= now).length
+    return {
+      records: records.length,
+      active: records.length - expired,
+      expired,
+      hosts: new Set(records.map(record => record.host)).size
+    }
+  }
+}
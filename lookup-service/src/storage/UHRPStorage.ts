@@ -0,0 +1,49 @@
+import type { UHRPFindOptions, UHRPIndexStatistics, UHRPRecord, UHRPRecordFilter } from '../types.js'
+
+/**
+ * Defines the storage engine used by the UHRP lookup service to index hosting commitments
+ */
+export interface UHRPStorage {
+  /**
+   * Stores a commitment record, replacing any record already stored for the same outpoint
+   * @param record - The decoded commitment to store
+   */
+  insertRecord: (record: UHRPRecord) => Promise<void>
+
+  /**
+   * Deletes the record for the given outpoint, if one exists
+   * @param txid - The transaction ID of the commitment
+   * @param outputIndex - The index of the commitment output
+   */
+  deleteRecord: (txid: string, outputIndex: number) => Promise<void>
+
+  /**
+   * Finds the record for the given outpoint
+   * @param txid - The transaction ID of the commitment
+   * @param outputIndex - The index of the commitment output
+   * @returns The matching record, or undefined if there is none
+   */
+  findRecord: (txid: string, outputIndex: number) => Promise<UHRPRecord | undefined>
+
+  /**
+   * Finds all records matching the given filter
+   * @param filter - The criteria the records must match
+   * @param options - Paging and ordering of the results
+   * @returns The matching records, ordered by expiry time
+   */
+  findRecords: (filter: UHRPRecordFilter, options?: UHRPFindOptions) => Promise<UHRPRecord[]>
+
+  /**
+   * Deletes every record whose expiry time is at or before the given time
+   * @param now - The current UNIX timestamp, in seconds
+   * @returns The number of records deleted
+   */
+  deleteExpiredRecords: (now: number) => Promise<number>
+
+  /**
+   * Summarises the index, counting a record as expired once its expiry time is at or before the given time
+   * @param now - The current UNIX timestamp, in seconds
+   * @returns The number of records, active and expired commitments, and distinct hosts
+   */
+  getStatistics: (now: number) => Promise<UHRPIndexStatistics>
+}
@@ -0,0 +1,115 @@
+import { Knex } from 'knex'
+import type { UHRPFindOptions, UHRPIndexStatistics, UHRPRecord, UHRPRecordFilter } from '../../types.js'
+import type { UHRPStorage } from '../UHRPStorage.js'
+import allMigrations, { Migration } from './all-migrations.js'
+
+/**
+ * A row of the `uhrp_records` table. Big integer columns may be returned as strings, depending on the client.
+ */
+interface UHRPRecordRow {
+  id: number
+  txid: string
+  outputIndex: number
+  hash: string
+  url: string
+  host: string
+  expiryTime: number | string
+  contentLength: number | string
+}
+
+/**
+ * Stores UHRP records in a SQL database through Knex.
+ * With the `better-sqlite3` client this gives a file-backed index that survives restarts.
+ */
+export class KnexUHRPStorage implements UHRPStorage {
+  knex: Knex
+
+  constructor (knex: Knex) {
+    this.knex = knex
+  }
+
+  /**
+   * Brings the database schema up to date. Must be called before the storage is used.
+   */
+  async migrate (): Promise<void> {
+    const migrationSource: Knex.MigrationSource<Migration> = {
+      getMigrations: async () => allMigrations,
+      getMigrationName: migration => migration.name,
+      getMigration: async migration => migration
+    }
+    await this.knex.migrate.latest({ tableName: 'uhrp_knex_migrations', migrationSource })
+  }
+
+  async insertRecord (record: UHRPRecord): Promise<void> {
+    await this.knex<UHRPRecordRow>('uhrp_records').insert({
+      txid: record.txid,
+      outputIndex: record.outputIndex,
+      hash: record.hash,
+      url: record.url,
+      host: record.host,
+      expiryTime: record.expiryTime,
+      contentLength: record.contentLength
+    }).onConflict(['txid', 'outputIndex']).merge()
+  }
+
+  async deleteRecord (txid: string, outputIndex: number): Promise<void> {
+    await this.knex('uhrp_records').where({ txid, outputIndex }).del()
+  }
+
+  async findRecord (txid: string, outputIndex: number): Promise<UHRPRecord | undefined> {
+    const row = await this.knex<UHRPRecordRow>('uhrp_records').where({ txid, outputIndex }).first()
+    return row === undefined ? undefined : this.toRecord(row)
+  }
+
+  async findRecords (filter: UHRPRecordFilter, options: UHRPFindOptions = {}): Promise<UHRPRecord[]> {
+    const search: {
+      hash?: string
+      url?: string
+      host?: string
+    } = {}
+    if (filter.hash !== undefined) search.hash = filter.hash
+    if (filter.url !== undefined) search.url = filter.url
+    if (filter.host !== undefined) search.host = filter.host
+
+    let query = this.knex<UHRPRecordRow>('uhrp_records').where(search)
+    if (filter.expiresFrom !== undefined) query = query.where('expiryTime', '>=', filter.expiresFrom)
+    if (filter.expiresTo !== undefined) query = query.where('expiryTime', '<=', filter.expiresTo)
+    query = query.orderBy([
+      { column: 'expiryTime', order: options.sortOrder ?? 'asc' },
+      { column: 'id', order: 'asc' }
+    ])
+    if (options.limit !== undefined) query = query.limit(options.limit)
+    if (options.skip !== undefined) query = query.offset(options.skip)
+
+    const rows = await query
+    return rows.map(row => this.toRecord(row))
+  }
+
+  async deleteExpiredRecords (now: number): Promise<number> {
+    return await this.knex('uhrp_records').where('expiryTime', '<=', now).del()
+  }
+
+  async getStatistics (now: number): Promise<UHRPIndexStatistics> {
+    // Aggregates may be returned as strings, and the sum as null when there are no rows, depending on the client
+    const row = await this.knex('uhrp_records')
+      .count({ records: '*' })
+      .sum({ expired: this.knex.raw('CASE WHEN ?? <= ? THEN 1 ELSE 0 END', ['expiryTime', now]) })
+      .countDistinct({ hosts: 'host' })
+      .first<{ records: number | string, expired: number | string | null, hosts: number | string } | undefined>()
+    const records = Number(row?.records ?? 0)
+    const expired = Number(row?.expired ?? 0)
+    return { records, active: records - expired, expired, hosts: Number(row?.hosts ?? 0) }
+  }
+
+  private toRecord (row: UHRPRecordRow): UHRPRecord {
+    return {
+      txid: row.txid,
+      outputIndex: Number(row.outputIndex),
+      hash: row.hash,
+      url: row.url,
+      host: row.host,
+      expiryTime: Number(row.expiryTime),
+      contentLength: Number(row.contentLength)
+    }
+  }
+}
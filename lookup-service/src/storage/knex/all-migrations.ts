@@ -0,0 +1,16 @@
+import { Knex } from 'knex'
+import { up as initialSchemaUp, down as initialSchemaDown } from './migrations/2026-10-19-001-initial.js'
+
+/**
+ * An array of all migrations, in order.
+ */
+export interface Migration {
+  name: string
+  up: (knex: Knex) => Promise<void>
+  down: (knex: Knex) => Promise<void>
+}
+
+const allMigrations: Migration[] = [
+  { name: '2026-10-19-001-initial', up: initialSchemaUp, down: initialSchemaDown }
+]
+export default allMigrations
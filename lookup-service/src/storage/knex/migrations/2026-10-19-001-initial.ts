@@ -0,0 +1,19 @@
+import type { Knex } from 'knex'
+
+export async function up (knex: Knex): Promise<void> {
+  await knex.schema.createTable('uhrp_records', table => {
+    table.increments()
+    table.string('txid', 64).notNullable()
+    table.integer('outputIndex').notNullable()
+    table.string('hash', 64).notNullable().index()
+    table.text('url').notNullable().index()
+    table.string('host', 130).notNullable().index()
+    table.bigInteger('expiryTime').notNullable().index()
+    table.bigInteger('contentLength').notNullable()
+    table.unique(['txid', 'outputIndex'])
+  })
+}
+
+export async function down (knex: Knex): Promise<void> {
+  await knex.schema.dropTable('uhrp_records')
+}
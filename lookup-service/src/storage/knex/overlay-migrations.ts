@@ -0,0 +1,35 @@
+import { Knex } from 'knex'
+import { KnexStorageMigrations } from '@bsv/overlay'
+import type { Migration } from './all-migrations.js'
+
+const [initial, blockHeight, transactions, indexes] = KnexStorageMigrations.default
+
+/**
+ * Moves transaction BEEF out of the outputs table, as the overlay engine's own migration does,
+ * but with a query builder insert instead of MySQL's `INSERT IGNORE` so that it also runs on SQLite
+ */
+async function transactionsUp (knex: Knex): Promise<void> {
+  await knex.schema.createTable('transactions', table => {
+    table.increments()
+    table.specificType('beef', 'longblob')
+    table.string('txid', 64).unique()
+  })
+  await knex.into(knex.raw('?? (??, ??)', ['transactions', 'txid', 'beef']))
+    .insert(knex('outputs').select('txid', 'beef').whereNotNull('beef'))
+    .onConflict('txid')
+    .ignore()
+  await knex.schema.table('outputs', table => {
+    table.dropColumn('beef')
+  })
+}
+
+/**
+ * The overlay engine's storage migrations, in order, named after the engine's migration files
+ */
+const overlayMigrations: Migration[] = [
+  { name: '2024-05-18-001-initial', ...initial },
+  { name: '2024-07-10-001-block-height', ...blockHeight },
+  { name: '2024-07-17-001-transactions', up: transactionsUp, down: transactions.down },
+  { name: '2024-07-18-001-indexes', ...indexes }
+]
+export default overlayMigrations
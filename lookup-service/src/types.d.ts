@@ -0,0 +1,92 @@
+/**
+ * A UHRP hosting commitment, as decoded from an admitted `tm_uhrp` output and kept in the lookup index
+ */
+export interface UHRPRecord {
+  /** TXID of the transaction containing the commitment */
+  txid: string
+  /** Index of the commitment output within the transaction */
+  outputIndex: number
+  /** Hex-encoded SHA-256 hash of the committed content */
+  hash: string
+  /** HTTP URL where the host has committed to serve the content */
+  url: string
+  /** The host the commitment names in its `hostAddress` field: a P2PKH address, or a hex-encoded public key */
+  host: string
+  /** UNIX timestamp (in seconds) until which the content is hosted */
+  expiryTime: number
+  /** Size of the committed content, in bytes */
+  contentLength: number
+}
+
+/**
+ * Criteria for finding records in a UHRP storage engine. All provided criteria must match.
+ */
+export interface UHRPRecordFilter {
+  hash?: string
+  url?: string
+  host?: string
+  /** Only records expiring at or after this UNIX timestamp */
+  expiresFrom?: number
+  /** Only records expiring at or before this UNIX timestamp */
+  expiresTo?: number
+}
+
+/**
+ * Controls paging and ordering of the records returned by a UHRP storage engine
+ */
+export interface UHRPFindOptions {
+  /** Maximum number of records to return */
+  limit?: number
+  /** Number of matching records to skip before returning results */
+  skip?: number
+  /** Order of the results by expiry time, defaults to ascending */
+  sortOrder?: 'asc' | 'desc'
+}
+
+/**
+ * The size and make-up of a UHRP lookup index at a point in time
+ */
+export interface UHRPIndexStatistics {
+  /** Number of records in the index */
+  records: number
+  /** Number of records whose expiry time is still to come */
+  active: number
+  /** Number of records whose expiry time has passed but that have not yet been swept */
+  expired: number
+  /** Number of distinct hosts with a record in the index */
+  hosts: number
+}
+
+/**
+ * Paging and ordering options accepted by every UHRP lookup query
+ */
+export interface UHRPLookupQueryOptions {
+  /** Maximum number of results to return, between 1 and 1000 */
+  limit?: number
+  /** Number of results to skip, for paging through large result sets */
+  skip?: number
+  /** Order of the results by expiry time, defaults to ascending */
+  sortOrder?: 'asc' | 'desc'
+  /** Whether to include commitments whose expiry time has passed, defaults to false */
+  includeExpired?: boolean
+}
+
+/**
+ * The queries understood by the `ls_uhrp` lookup service
+ */
+export type UHRPLookupQuery =
+  /** Hosts of the content with the given hex-encoded SHA-256 hash */
+  | ({ type: 'hash', hash: string } & UHRPLookupQueryOptions)
+  /** Hosts of the content identified by the given UHRP URL */
+  | ({ type: 'uhrpURL', uhrpURL: string } & UHRPLookupQueryOptions)
+  /** Commitments advertised by the host with the given address or public key, as committed */
+  | ({ type: 'host', host: string } & UHRPLookupQueryOptions)
+  /** Commitments that serve content from the given HTTP URL */
+  | ({ type: 'url', url: string } & UHRPLookupQueryOptions)
+  /** Commitments expiring between the given UNIX timestamps, inclusive */
+  | ({ type: 'expiry', from: number, to: number } & UHRPLookupQueryOptions)
+
+/**
+ * Returns the current time as a UNIX timestamp in seconds. Injectable so that expiry handling can be tested deterministically.
+ */
+export type Clock = () => number
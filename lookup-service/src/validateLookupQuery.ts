@@ -0,0 +1,198 @@
+import { Utils } from '@bsv/sdk'
+import type { UHRPLookupQuery, UHRPLookupQueryOptions } from './types.js'
+
+/**
+ * The largest page of results a single lookup may request
+ */
+export const MAX_LOOKUP_LIMIT = 1000
+
+/**
+ * A query type of the `ls_uhrp` lookup service, as documented
+ */
+export interface LookupQueryType {
+  /** What the query finds */
+  description: string
+  /** The properties the query requires, besides `type` and the paging options, with what each must hold */
+  properties: Record<string, string>
+}
+
+/**
+ * The query types of the `ls_uhrp` lookup service, which queries are validated and documented against
+ */
+export const LOOKUP_QUERY_TYPES: Record<UHRPLookupQuery['type'], LookupQueryType> = {
+  hash: {
+    description: 'Commitments to the content with the given hash',
+    properties: { hash: 'Hex-encoded SHA-256 hash of 64 characters' }
+  },
+  uhrpURL: {
+    description: 'Commitments to the content identified by the given UHRP URL',
+    properties: { uhrpURL: 'Base58Check-encoded UHRP URL, with or without the `uhrp://` prefix' }
+  },
+  host: {
+    description: 'Commitments naming the given host in their `hostAddress` field',
+    properties: { host: 'Base58Check-encoded P2PKH address, or hex-encoded compressed or uncompressed public key, as committed' }
+  },
+  url: {
+    description: 'Commitments that serve content from the given URL',
+    properties: { url: 'Absolute HTTP or HTTPS URL' }
+  },
+  expiry: {
+    description: 'Commitments expiring between the given times, inclusive',
+    properties: {
+      from: 'UNIX timestamp in seconds',
+      to: 'UNIX timestamp in seconds, not earlier than `from`'
+    }
+  }
+}
+
+/**
+ * The paging and ordering options accepted by every query type, with what each must hold
+ */
+export const LOOKUP_OPTIONS: Record<keyof UHRPLookupQueryOptions, string> = {
+  limit: `Largest number of results to return, an integer between 1 and ${MAX_LOOKUP_LIMIT}`,
+  skip: 'Number of results to skip, a non-negative integer',
+  sortOrder: 'Order of the results by expiry time, `asc` (the default) or `desc`',
+  includeExpired: 'Whether to include commitments whose expiry time has passed, `false` by default'
+}
+
+/**
+ * Checks that a lookup query is well-formed, and returns it in normalized form.
+ * Hashes and host public keys are lowercased, and UHRP URLs are checked for a valid checksum.
+ * @param query - The query received in a lookup question
+ * @returns The validated query
+ * @throws If the query is malformed, with a message describing the problem
+ */
+export function validateLookupQuery (query: unknown): UHRPLookupQuery {
+  if (typeof query !== 'object' || query === null || Array.isArray(query)) {
+    throw new Error('UHRP lookup query must be an object.')
+  }
+  const q = query as Record<string, unknown>
+  if (typeof q.type !== 'string' || !Object.keys(LOOKUP_QUERY_TYPES).includes(q.type)) {
+    throw new Error(`UHRP lookup query type must be one of: ${Object.keys(LOOKUP_QUERY_TYPES).join(', ')}.`)
+  }
+  const type = q.type as UHRPLookupQuery['type']
+
+  const allowed = ['type', ...Object.keys(LOOKUP_QUERY_TYPES[type].properties), ...Object.keys(LOOKUP_OPTIONS)]
+  for (const key of Object.keys(q)) {
+    if (!allowed.includes(key)) {
+      throw new Error(`Unknown property "${key}" in "${type}" query.`)
+    }
+  }
+  const options = validateOptions(q)
+
+  switch (type) {
+    case 'hash':
+      if (typeof q.hash !== 'string' || !/^[0-9a-fA-F]{64}$/.test(q.hash)) {
+        throw new Error('"hash" must be a hex-encoded SHA-256 hash of 64 characters.')
+      }
+      return { type, hash: q.hash.toLowerCase(), ...options }
+
+    case 'uhrpURL':
+      if (typeof q.uhrpURL !== 'string') {
+        throw new Error('"uhrpURL" must be a string.')
+      }
+      getHashFromUHRPURL(q.uhrpURL)
+      return { type, uhrpURL: q.uhrpURL, ...options }
+
+    case 'host':
+      if (typeof q.host !== 'string') {
+        throw new Error('"host" must be a string.')
+      }
+      if (/^(0[23][0-9a-fA-F]{64}|04[0-9a-fA-F]{128})$/.test(q.host)) {
+        return { type, host: q.host.toLowerCase(), ...options }
+      }
+      if (!isAddress(q.host)) {
+        throw new Error('"host" must be a Base58Check-encoded P2PKH address, or a hex-encoded compressed or uncompressed public key.')
+      }
+      return { type, host: q.host, ...options }
+
+    case 'url':
+      if (typeof q.url !== 'string' || !isHTTPURL(q.url)) {
+        throw new Error('"url" must be an absolute HTTP or HTTPS URL.')
+      }
+      return { type, url: q.url, ...options }
+
+    case 'expiry':
+      if (!isTimestamp(q.from) || !isTimestamp(q.to)) {
+        throw new Error('"from" and "to" must be UNIX timestamps in seconds.')
+      }
+      if (q.from > q.to) {
+        throw new Error('"from" must not be later than "to".')
+      }
+      return { type, from: q.from, to: q.to, ...options }
+  }
+}
+
+/**
+ * Extracts the SHA-256 hash from a UHRP URL
+ * @param uhrpURL - The UHRP URL, with or without the `uhrp://` prefix
+ * @returns The hex-encoded hash
+ * @throws If the URL is not a valid UHRP URL
+ */
+export function getHashFromUHRPURL (uhrpURL: string): string {
+  let url = uhrpURL
+  if (url.toLowerCase().startsWith('uhrp:')) url = url.slice(5)
+  if (url.startsWith('//')) url = url.slice(2)
+  let decoded: { prefix: string, data: string }
+  try {
+    decoded = Utils.fromBase58Check(url, 'hex', 2) as { prefix: string, data: string }
+  } catch (e) {
+    throw new Error('"uhrpURL" is not a valid Base58Check-encoded UHRP URL.')
+  }
+  if (decoded.prefix !== 'ce00' || decoded.data.length !== 64) {
+    throw new Error('"uhrpURL" does not encode a SHA-256 hash with the UHRP prefix.')
+  }
+  return decoded.data
+}
+
+function validateOptions (q: Record<string, unknown>): UHRPLookupQueryOptions {
+  const options: UHRPLookupQueryOptions = {}
+  if (q.limit !== undefined) {
+    if (!Number.isInteger(q.limit) || (q.limit as number) < 1 || (q.limit as number) > MAX_LOOKUP_LIMIT) {
+      throw new Error(`"limit" must be an integer between 1 and ${MAX_LOOKUP_LIMIT}.`)
+    }
+    options.limit = q.limit as number
+  }
+  if (q.skip !== undefined) {
+    if (!Number.isInteger(q.skip) || (q.skip as number) < 0) {
+      throw new Error('"skip" must be a non-negative integer.')
+    }
+    options.skip = q.skip as number
+  }
+  if (q.sortOrder !== undefined) {
+    if (q.sortOrder !== 'asc' && q.sortOrder !== 'desc') {
+      throw new Error('"sortOrder" must be either "asc" or "desc".')
+    }
+    options.sortOrder = q.sortOrder
+  }
+  if (q.includeExpired !== undefined) {
+    if (typeof q.includeExpired !== 'boolean') {
+      throw new Error('"includeExpired" must be a boolean.')
+    }
+    options.includeExpired = q.includeExpired
+  }
+  return options
+}
+
+function isTimestamp (value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0
+}
+
+function isAddress (value: string): boolean {
+  try {
+    const { prefix, data } = Utils.fromBase58Check(value, 'hex') as { prefix: string, data: string }
+    // Mainnet and testnet P2PKH prefixes, as accepted in the `hostAddress` field
+    return (prefix === '00' || prefix === '6f') && data.length === 40
+  } catch (e) {
+    return false
+  }
+}
+
+function isHTTPURL (value: string): boolean {
+  try {
+    const { protocol } = new URL(value)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch (e) {
+    return false
+  }
+}
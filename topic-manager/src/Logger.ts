@@ -0,0 +1,147 @@
+/**
+ * Severity of a log entry, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+/**
+ * A single log entry, with its data already redacted
+ */
+export interface LogEntry {
+  level: LogLevel
+  message: string
+  data?: unknown
+}
+
+/**
+ * Receives diagnostic output from the UHRP components.
+ * Implementations are expected to pass data through `redact` before it leaves the process.
+ */
+export interface Logger {
+  debug: (message: string, data?: unknown) => void
+  info: (message: string, data?: unknown) => void
+  warn: (message: string, data?: unknown) => void
+  error: (message: string, data?: unknown) => void
+}
+
+/**
+ * Property names whose values are key material or signatures, and are never logged
+ */
+const SECRET_PROPERTY = /private|secret|seed|mnemonic|passphrase|password|wif|signature/i
+
+/**
+ * Recognises @bsv/sdk private keys, symmetric keys and signatures by their methods,
+ * as class names do not survive minification
+ */
+const isSecretObject = (value: object): boolean => {
+  const methods = value as Record<string, unknown>
+  return typeof methods.toWif === 'function' ||
+    (typeof methods.encrypt === 'function' && typeof methods.decrypt === 'function') ||
+    (typeof methods.toDER === 'function' && 'r' in value && 's' in value)
+}
+
+/**
+ * Byte arrays longer than this are summarised rather than logged in full
+ */
+const MAX_LOGGED_BYTES = 64
+
+const MAX_DEPTH = 6
+
+/**
+ * Makes data safe to log: key material and signatures are replaced with `[REDACTED]`,
+ * and raw bytes such as scripts and BEEF are summarised by their length
+ * @param data - The data to redact
+ * @returns A redacted copy of the data
+ */
+export function redact (data: unknown): unknown {
+  return redactValue(data, 0, new WeakSet())
+}
+
+function redactValue (value: unknown, depth: number, seen: WeakSet<object>): unknown {
+  if (value === null || typeof value !== 'object') return value
+  if (seen.has(value)) return '[Circular]'
+  if (depth >= MAX_DEPTH) return '[Truncated]'
+  if (isSecretObject(value)) return '[REDACTED]'
+  if (value instanceof Error) return { name: value.name, message: value.message }
+  if (ArrayBuffer.isView(value)) return `[${value.byteLength} bytes]`
+  if (Array.isArray(value) && value.length > MAX_LOGGED_BYTES && value.every(item => typeof item === 'number')) {
+    return `[${value.length} bytes]`
+  }
+
+  seen.add(value)
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, depth + 1, seen))
+  }
+  const redacted: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(value)) {
+    redacted[key] = SECRET_PROPERTY.test(key) ? '[REDACTED]' : redactValue(item, depth + 1, seen)
+  }
+  return redacted
+}
+
+/**
+ * Builds a logger that redacts each entry and hands those at or above a minimum level to a writer
+ * @param write - Receives the redacted entries
+ * @param minLevel - The least severe level that is written
+ */
+export function createLogger (write: (entry: LogEntry) => void, minLevel: LogLevel = 'debug'): Logger {
+  const log = (level: LogLevel) => (message: string, data?: unknown): void => {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) return
+    write(data === undefined ? { level, message } : { level, message, data: redact(data) })
+  }
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error')
+  }
+}
+
+/**
+ * Builds a logger that writes redacted entries to the console
+ * @param minLevel - The least severe level that is written
+ */
+export function createConsoleLogger (minLevel: LogLevel = 'info'): Logger {
+  return createLogger(({ level, message, data }) => {
+    if (data === undefined) {
+      console[level](message)
+    } else {
+      console[level](message, data)
+    }
+  }, minLevel)
+}
+
+/**
+ * A logger that discards everything, used by default
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+}
+
+/**
+ * A logger that records redacted entries in memory, so tests can assert on them
+ */
+export class TestLogSink implements Logger {
+  entries: LogEntry[] = []
+  private readonly logger = createLogger(entry => { this.entries.push(entry) })
+
+  debug (message: string, data?: unknown): void { this.logger.debug(message, data) }
+  info (message: string, data?: unknown): void { this.logger.info(message, data) }
+  warn (message: string, data?: unknown): void { this.logger.warn(message, data) }
+  error (message: string, data?: unknown): void { this.logger.error(message, data) }
+
+  /**
+   * Returns the recorded entries at the given level
+   */
+  at (level: LogLevel): LogEntry[] {
+    return this.entries.filter(entry => entry.level === level)
+  }
+
+  clear (): void {
+    this.entries = []
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Label names and values identifying one series of a metric
+ */
+export type MetricLabels = Record<string, string>
+
+/**
+ * Describes a metric, as announced in the `# HELP` line of the Prometheus text format
+ */
+export interface MetricDefinition {
+  /** Metric name, such as `uhrp_outputs_admitted_total` */
+  name: string
+  help: string
+}
+
+/**
+ * A count that only goes up
+ */
+export interface Counter {
+  inc: (labels?: MetricLabels, amount?: number) => void
+}
+
+/**
+ * A distribution of observed values, such as latencies, counted into cumulative buckets
+ */
+export interface Histogram {
+  observe: (value: number, labels?: MetricLabels) => void
+}
+
+/**
+ * A histogram, with the upper bounds of its buckets
+ */
+export interface HistogramDefinition extends MetricDefinition {
+  /** Upper bounds of the buckets, ascending. The `+Inf` bucket is implied */
+  buckets?: number[]
+}
+
+/**
+ * A value read when metrics are collected, such as the size of an index
+ */
+export interface GaugeDefinition extends MetricDefinition {
+  /**
+   * Reads the current value of every series of the gauge
+   * @returns The series, each with its labels
+   */
+  collect: () => Promise<Array<{ labels?: MetricLabels, value: number }>>
+}
+
+/**
+ * Receives metrics from the UHRP components and exposes them, so a node can plug in whichever metrics library it uses.
+ * Defining a metric again under the same name returns the metric already defined.
+ */
+export interface MetricsRegistry {
+  counter: (definition: MetricDefinition) => Counter
+  histogram: (definition: HistogramDefinition) => Histogram
+  gauge: (definition: GaugeDefinition) => void
+  /**
+   * Renders every metric in the Prometheus text exposition format
+   */
+  render: () => Promise<string>
+}
+
+/**
+ * The buckets of a histogram unless it defines its own, in seconds as suits request latencies
+ */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+/**
+ * A registry that discards everything, used by default
+ */
+export const noopMetrics: MetricsRegistry = {
+  counter: () => ({ inc: () => {} }),
+  histogram: () => ({ observe: () => {} }),
+  gauge: () => {},
+  render: async () => ''
+}
+
+interface HistogramSeries {
+  labels: MetricLabels
+  /** Count of observations in each bucket, not cumulative */
+  counts: number[]
+  sum: number
+  count: number
+}
+
+type StoredMetric =
+  | { type: 'counter', definition: MetricDefinition, series: Map<string, { labels: MetricLabels, value: number }> }
+  | { type: 'histogram', definition: HistogramDefinition, buckets: number[], series: Map<string, HistogramSeries> }
+  | { type: 'gauge', definition: GaugeDefinition }
+
+/**
+ * Keeps metrics in memory and renders them in the Prometheus text format.
+ * Enough for a single node to expose `/metrics`, and lets tests read back what was recorded.
+ */
+export class MemoryMetricsRegistry implements MetricsRegistry {
+  private readonly metrics = new Map<string, StoredMetric>()
+
+  counter (definition: MetricDefinition): Counter {
+    const metric = this.define(definition, () => ({ type: 'counter', definition, series: new Map() }))
+    if (metric.type !== 'counter') throw new Error(`Metric ${definition.name} is already defined as a ${metric.type}.`)
+    return {
+      inc: (labels = {}, amount = 1) => {
+        const key = seriesKey(labels)
+        const series = metric.series.get(key) ?? { labels, value: 0 }
+        series.value += amount
+        metric.series.set(key, series)
+      }
+    }
+  }
+
+  histogram (definition: HistogramDefinition): Histogram {
+    const buckets = definition.buckets ?? DEFAULT_BUCKETS
+    const metric = this.define(definition, () => ({ type: 'histogram', definition, buckets, series: new Map() }))
+    if (metric.type !== 'histogram') throw new Error(`Metric ${definition.name} is already defined as a ${metric.type}.`)
+    return {
+      observe: (value, labels = {}) => {
+        const key = seriesKey(labels)
+        const series = metric.series.get(key) ?? { labels, counts: metric.buckets.map(() => 0), sum: 0, count: 0 }
+        const bucket = metric.buckets.findIndex(bound => value <= bound)
+        if (bucket !== -1) series.counts[bucket]++
+        series.sum += value
+        series.count++
+        metric.series.set(key, series)
+      }
+    }
+  }
+
+  gauge (definition: GaugeDefinition): void {
+    const metric = this.define(definition, () => ({ type: 'gauge', definition }))
+    if (metric.type !== 'gauge') throw new Error(`Metric ${definition.name} is already defined as a ${metric.type}.`)
+  }
+
+  /**
+   * Reads the value of one series of a counter, or the number of observations of a histogram
+   * @param name - The metric name
+   * @param labels - The labels of the series
+   * @returns The value, or 0 if nothing was recorded
+   */
+  getValue (name: string, labels: MetricLabels = {}): number {
+    const metric = this.metrics.get(name)
+    if (metric === undefined || metric.type === 'gauge') return 0
+    const series = metric.series.get(seriesKey(labels))
+    if (series === undefined) return 0
+    return 'value' in series ? series.value : series.count
+  }
+
+  async render (): Promise<string> {
+    const lines: string[] = []
+    for (const metric of this.metrics.values()) {
+      const { name, help } = metric.definition
+      lines.push(`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`, `# TYPE ${name} ${metric.type}`)
+      if (metric.type === 'counter') {
+        for (const { labels, value } of metric.series.values()) lines.push(`${name}${formatLabels(labels)} ${value}`)
+      } else if (metric.type === 'histogram') {
+        for (const { labels, counts, sum, count } of metric.series.values()) {
+          let cumulative = 0
+          metric.buckets.forEach((bound, i) => {
+            cumulative += counts[i]
+            lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${cumulative}`)
+          })
+          lines.push(
+            `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+            `${name}_sum${formatLabels(labels)} ${sum}`,
+            `${name}_count${formatLabels(labels)} ${count}`
+          )
+        }
+      } else {
+        for (const { labels = {}, value } of await metric.definition.collect()) lines.push(`${name}${formatLabels(labels)} ${value}`)
+      }
+    }
+    return lines.length === 0 ? '' : `${lines.join('\n')}\n`
+  }
+
+  private define (definition: MetricDefinition, create: () => StoredMetric): StoredMetric {
+    const existing = this.metrics.get(definition.name)
+    if (existing !== undefined) return existing
+    const metric = create()
+    this.metrics.set(definition.name, metric)
+    return metric
+  }
+}
+
+/**
+ * Identifies a series by its labels, whatever order they were given in
+ */
+function seriesKey (labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+function formatLabels (labels: MetricLabels): string {
+  const pairs = Object.entries(labels)
+    .map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+  return pairs.length === 0 ? '' : `{${pairs.join(',')}}`
+}
@@ -1,38 +1,235 @@
 import { AdmittanceInstructions, TopicManager } from '@bsv/overlay'
-// import { PublicKey, Signature, Transaction } from '@bsv/sdk'
-// import pushdrop from 'pushdrop'
+import { PublicKey, Script, Signature, Transaction, Utils } from '@bsv/sdk'
+import { checkHostBinding, DEFAULT_MINIMUM_OUTPUT_AMOUNT, getCommitmentLayout, UHRP_PROTOCOL_ADDRESS } from './commitmentLayout.js'
+import { decodePushDrop, DecodedPushDrop } from './decodePushDrop.js'
+import { getTopicManagerDocumentation, OverlayMetaData, TOPIC_MANAGER_METADATA } from './documentation.js'
+import { Logger, silentLogger } from './Logger.js'
+import { Counter, MetricsRegistry, noopMetrics } from './Metrics.js'
+
+export { UHRP_PROTOCOL_ADDRESS, COMMITMENT_OPERATIONS, DEFAULT_MINIMUM_OUTPUT_AMOUNT } from './commitmentLayout.js'
+
+/**
+ * A commitment that passed validation, as needed to relate it to the tokens it spends
+ */
+interface ValidatedCommitment {
+  lockingPublicKey: PublicKey
+  operation: string
+  hash: number[]
+}
+
+/**
+ * Why a commitment output was not admitted. Outputs that are not commitments, such as change, are ignored rather than rejected.
+ * - `malformed-transaction`: the BEEF could not be parsed, so none of its outputs were considered
+ * - `insufficient-amount`: the output holds fewer satoshis than the minimum
+ * - `malformed-script`: the commitment does not follow a known layout, or its locking key is invalid
+ * - `invalid-<field>`: the named field breaks its rule, as with `invalid-expiryTime` for an expired commitment
+ * - `host-mismatch`: the host address does not belong to the locking key
+ * - `invalid-signature`: the fields are not signed by the locking key
+ * - `unmatched-revocation`: a revocation does not spend a prior commitment from the same host key
+ */
+export type UHRPRejectionReason =
+  | 'malformed-transaction'
+  | 'insufficient-amount'
+  | 'malformed-script'
+  | `invalid-${string}`
+  | 'host-mismatch'
+  | 'invalid-signature'
+  | 'unmatched-revocation'
+
+/**
+ * An output the topic manager did not admit, and why
+ */
+export interface UHRPOutputRejection {
+  /** Index of the rejected output, or undefined when the whole transaction was rejected */
+  outputIndex?: number
+  reason: UHRPRejectionReason
+  /** The rule that was broken, as logged */
+  message: string
+}
+
+/**
+ * Carries the reason an output is rejected alongside the error that rejected it
+ */
+class OutputRejection extends Error {
+  constructor (readonly reason: UHRPRejectionReason, readonly error: unknown) {
+    super(error instanceof Error ? error.message : String(error))
+    this.name = 'OutputRejection'
+    // Keeps instanceof working when compiled for ES5, as the UI is
+    Object.setPrototypeOf(this, OutputRejection.prototype)
+  }
+}
+
+/**
+ * Runs one step of validation, attributing any error it throws to the given reason
+ */
+function rejectAs<T> (reason: UHRPRejectionReason, step: () => T): T {
+  try {
+    return step()
+  } catch (error) {
+    throw error instanceof OutputRejection ? error : new OutputRejection(reason, error)
+  }
+}
 
 export class UHRPTopicManager implements TopicManager {
+  private readonly admitted: Counter
+  private readonly rejected: Counter
+
+  /**
+   * @param logger - Receives the reasons outputs are rejected, silent by default
+   * @param minimumOutputAmount - The fewest satoshis a commitment output may hold
+   * @param metrics - Counts admitted commitments by operation and rejected commitments by reason, discarded by default
+   */
+  constructor (
+    private readonly logger: Logger = silentLogger,
+    private readonly minimumOutputAmount: number = DEFAULT_MINIMUM_OUTPUT_AMOUNT,
+    metrics: MetricsRegistry = noopMetrics
+  ) {
+    this.admitted = metrics.counter({ name: 'uhrp_outputs_admitted_total', help: 'Commitment outputs admitted to tm_uhrp, by operation' })
+    this.rejected = metrics.counter({ name: 'uhrp_outputs_rejected_total', help: 'Commitment outputs not admitted to tm_uhrp, by rejection reason' })
+  }
+
   /**
    * Identify if the outputs are admissible depending on the particular protocol requirements
    * @param beef - The transaction data in BEEF format
    * @param previousCoins - The previous coins to consider
+   * @param onReject - Called with each output that is not admitted and why, for callers that report on admittance
    * @returns A promise that resolves with the admittance instructions
    */
-  async identifyAdmissibleOutputs(beef: number[], previousCoins: number[]): Promise<AdmittanceInstructions> {
-    throw new Error('Method not implemented.')
+  async identifyAdmissibleOutputs (
+    beef: number[],
+    previousCoins: number[],
+    onReject?: (rejection: UHRPOutputRejection) => void
+  ): Promise<AdmittanceInstructions> {
+    const outputsToAdmit: number[] = []
+    const coinsToRetain: number[] = []
+    try {
+      const parsedTransaction = Transaction.fromBEEF(beef)
+
+      for (const [i, output] of parsedTransaction.outputs.entries()) {
+        const token = this.decodeCommitment(output.lockingScript)
+        // Change and other protocols' tokens share commitment transactions, and are not ours to judge
+        if (token === undefined) continue
+        try {
+          const satoshis = output.satoshis ?? 0
+          if (satoshis < this.minimumOutputAmount) {
+            throw new OutputRejection('insufficient-amount',
+              new Error(`Commitment output holds ${satoshis} satoshis, below the minimum of ${this.minimumOutputAmount}.`))
+          }
+          const commitment = this.validateCommitment(token)
+          const replacedCoins = this.findReplacedCoins(parsedTransaction, previousCoins, commitment)
+          if (commitment.operation === 'revoke' && replacedCoins.length === 0) {
+            throw new OutputRejection('unmatched-revocation', new Error('A revocation must spend a prior commitment from the same host key.'))
+          }
+          outputsToAdmit.push(i)
+          this.admitted.inc({ operation: commitment.operation })
+          this.logger.debug('Admitting UHRP commitment', { txid: parsedTransaction.id('hex'), outputIndex: i, operation: commitment.operation })
+          // Commitments that are renewed or revoked are kept as the history of their successor
+          for (const inputIndex of replacedCoins) {
+            if (!coinsToRetain.includes(inputIndex)) coinsToRetain.push(inputIndex)
+          }
+        } catch (rejection) {
+          // Malformed or invalid outputs are simply not admitted
+          const { reason, error, message } = rejection instanceof OutputRejection ? rejection : new OutputRejection('malformed-script', rejection)
+          this.logger.debug('Rejecting UHRP output', { outputIndex: i, reason: error instanceof Error ? error.message : String(error) })
+          this.rejected.inc({ reason })
+          onReject?.({ outputIndex: i, reason, message })
+          continue
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to parse UHRP transaction', error)
+      this.rejected.inc({ reason: 'malformed-transaction' })
+      onReject?.({ reason: 'malformed-transaction', message: error instanceof Error ? error.message : String(error) })
+    }
+
+    return {
+      outputsToAdmit,
+      coinsToRetain
+    }
   }
 
   /**
    * Get the documentation associated with this topic manager
    * @returns A promise that resolves to a string containing the documentation
    */
-  async getDocumentation(): Promise<string> {
-    throw new Error('Method not implemented.')
+  async getDocumentation (): Promise<string> {
+    return getTopicManagerDocumentation(this.minimumOutputAmount)
   }
 
   /**
    * Get metadata about the topic manager
    * @returns A promise that resolves to an object containing metadata
-   * @throws An error indicating the method is not implemented
    */
-  async getMetaData(): Promise<{
-    name: string
-    shortDescription: string
-    iconURL?: string
-    version?: string
-    informationURL?: string
-  }> {
-    throw new Error('Method not implemented.')
+  async getMetaData (): Promise<OverlayMetaData> {
+    return TOPIC_MANAGER_METADATA
+  }
+
+  /**
+   * Finds the previously-admitted commitments that a new commitment renews or revokes,
+   * being those spent by the same transaction that carry the same host key and content hash
+   * @param transaction - The transaction containing the new commitment
+   * @param previousCoins - The indices of inputs that spend previously-admitted outputs
+   * @param commitment - The new, already validated, commitment
+   * @returns The indices of the inputs spending the replaced commitments
+   */
+  private findReplacedCoins (transaction: Transaction, previousCoins: number[], commitment: ValidatedCommitment): number[] {
+    return previousCoins.filter(inputIndex => {
+      const input = transaction.inputs[inputIndex]
+      const spentScript = input?.sourceTransaction?.outputs[input.sourceOutputIndex]?.lockingScript
+      if (spentScript === undefined) return false
+      try {
+        const spent = decodePushDrop(spentScript.toBinary())
+        return PublicKey.fromString(spent.lockingPublicKey).toString() === commitment.lockingPublicKey.toString() &&
+          Utils.toHex(spent.fields[2]) === Utils.toHex(commitment.hash)
+      } catch (e) {
+        return false
+      }
+    })
+  }
+
+  /**
+   * Decodes an output as a UHRP commitment, if it is one
+   * @param script - The locking script of the output
+   * @returns The decoded token, or undefined unless the script is a PushDrop token whose first field is the UHRP protocol address
+   */
+  private decodeCommitment (script: Script): DecodedPushDrop | undefined {
+    try {
+      const token = decodePushDrop(script.toBinary())
+      return Utils.toUTF8(token.fields[0]) === UHRP_PROTOCOL_ADDRESS ? token : undefined
+    } catch (e) {
+      return undefined
+    }
+  }
+
+  /**
+   * Checks a decoded commitment against the UHRP commitment rules
+   * @param token - The PushDrop token of the output being evaluated
+   * @returns The parts of the commitment needed to relate it to other tokens
+   * @throws If the commitment is not a valid, unexpired and correctly signed UHRP commitment from the host it names.
+   * A host address that does not belong to the locking key throws a HostBindingError.
+   * Each error is wrapped with the {@link UHRPRejectionReason} it stands for.
+   * Revocations are exempt from the expiry check, as their expiry time records when the commitment ended.
+   */
+  private validateCommitment ({ fields, signature, ...token }: DecodedPushDrop): ValidatedCommitment {
+    const { lockingPublicKey, layout } = rejectAs('malformed-script', () => ({
+      lockingPublicKey: PublicKey.fromString(token.lockingPublicKey),
+      layout: getCommitmentLayout(fields.length)
+    }))
+
+    const now = Math.floor(Date.now() / 1000)
+    for (const [i, field] of layout.entries()) {
+      rejectAs(`invalid-${field.name}`, () => field.check(fields[i], fields, now))
+    }
+
+    rejectAs('host-mismatch', () => checkHostBinding(fields[1], lockingPublicKey))
+
+    const message = fields.reduce<number[]>((acc, field) => [...acc, ...field], [])
+    rejectAs('invalid-signature', () => {
+      if (!lockingPublicKey.verify(message, Signature.fromDER(signature))) {
+        throw new Error('Invalid signature.')
+      }
+    })
+
+    return { lockingPublicKey, operation: Utils.toUTF8(fields[3]), hash: fields[2] }
   }
 }
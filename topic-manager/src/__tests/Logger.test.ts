@@ -0,0 +1,62 @@
+import { createLogger, LogEntry, redact, TestLogSink } from '../Logger.js'
+import { PrivateKey, SymmetricKey } from '@bsv/sdk'
+
+describe('redact', () => {
+  it('redacts properties that name key material or signatures', () => {
+    expect(redact({ privateKeyHex: 'bf4d', wif: 'L1', signature: [1, 2], nested: { secret: 'x', url: 'https://a' } })).toEqual({
+      privateKeyHex: '[REDACTED]',
+      wif: '[REDACTED]',
+      signature: '[REDACTED]',
+      nested: { secret: '[REDACTED]', url: 'https://a' }
+    })
+  })
+
+  it('redacts private keys, symmetric keys and signatures wherever they appear', () => {
+    const key = PrivateKey.fromRandom()
+    expect(redact({ host: key, items: [key.sign([1, 2, 3]), SymmetricKey.fromRandom()] })).toEqual({
+      host: '[REDACTED]',
+      items: ['[REDACTED]', '[REDACTED]']
+    })
+  })
+
+  it('summarises raw bytes by their length', () => {
+    expect(redact({ beef: new Array(500).fill(1), script: new Uint8Array(40), hash: [1, 2, 3] })).toEqual({
+      beef: '[500 bytes]',
+      script: '[40 bytes]',
+      hash: [1, 2, 3]
+    })
+  })
+
+  it('keeps errors readable and survives cycles', () => {
+    const cyclic: Record<string, unknown> = { name: 'loop' }
+    cyclic.self = cyclic
+    expect(redact(new Error('boom'))).toEqual({ name: 'Error', message: 'boom' })
+    expect(redact(cyclic)).toEqual({ name: 'loop', self: '[Circular]' })
+  })
+})
+
+describe('createLogger', () => {
+  it('writes redacted entries at or above the minimum level', () => {
+    const entries: LogEntry[] = []
+    const logger = createLogger(entry => entries.push(entry), 'warn')
+    logger.debug('hidden')
+    logger.info('hidden')
+    logger.warn('shown', { password: 'hunter2' })
+    logger.error('shown too')
+    expect(entries).toEqual([
+      { level: 'warn', message: 'shown', data: { password: '[REDACTED]' } },
+      { level: 'error', message: 'shown too' }
+    ])
+  })
+})
+
+describe('TestLogSink', () => {
+  it('records entries by level until cleared', () => {
+    const sink = new TestLogSink()
+    sink.debug('one')
+    sink.error('two', { privateKey: 'abc' })
+    expect(sink.at('error')).toEqual([{ level: 'error', message: 'two', data: { privateKey: '[REDACTED]' } }])
+    sink.clear()
+    expect(sink.entries).toHaveLength(0)
+  })
+})
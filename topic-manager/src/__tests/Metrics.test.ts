@@ -0,0 +1,54 @@
+import { MemoryMetricsRegistry, noopMetrics } from '../Metrics.js'
+
+describe('MemoryMetricsRegistry', () => {
+  it('renders counters in the Prometheus text format, one series per label set', async () => {
+    const registry = new MemoryMetricsRegistry()
+    const rejected = registry.counter({ name: 'uhrp_outputs_rejected_total', help: 'Outputs not admitted' })
+    rejected.inc({ reason: 'host-mismatch' })
+    rejected.inc({ reason: 'invalid-expiryTime' }, 2)
+    registry.counter({ name: 'uhrp_outputs_rejected_total', help: 'Defined again' }).inc({ reason: 'host-mismatch' })
+
+    expect(registry.getValue('uhrp_outputs_rejected_total', { reason: 'host-mismatch' })).toBe(2)
+    await expect(registry.render()).resolves.toBe([
+      '# HELP uhrp_outputs_rejected_total Outputs not admitted',
+      '# TYPE uhrp_outputs_rejected_total counter',
+      'uhrp_outputs_rejected_total{reason="host-mismatch"} 2',
+      'uhrp_outputs_rejected_total{reason="invalid-expiryTime"} 2',
+      ''
+    ].join('\n'))
+  })
+
+  it('renders histograms with cumulative buckets, a sum and a count', async () => {
+    const registry = new MemoryMetricsRegistry()
+    const latency = registry.histogram({ name: 'lookup_seconds', help: 'Lookup latency', buckets: [0.1, 1] })
+    for (const seconds of [0.05, 0.5, 0.7, 3]) latency.observe(seconds, { type: 'hash' })
+
+    expect(registry.getValue('lookup_seconds', { type: 'hash' })).toBe(4)
+    expect((await registry.render()).split('\n')).toEqual([
+      '# HELP lookup_seconds Lookup latency',
+      '# TYPE lookup_seconds histogram',
+      'lookup_seconds_bucket{type="hash",le="0.1"} 1',
+      'lookup_seconds_bucket{type="hash",le="1"} 3',
+      'lookup_seconds_bucket{type="hash",le="+Inf"} 4',
+      'lookup_seconds_sum{type="hash"} 4.25',
+      'lookup_seconds_count{type="hash"} 4',
+      ''
+    ])
+  })
+
+  it('collects gauges when rendering, and escapes label values', async () => {
+    const registry = new MemoryMetricsRegistry()
+    let size = 1
+    registry.gauge({ name: 'index_records', help: 'Records', collect: async () => [{ labels: { url: 'a "quoted"\\path' }, value: size }] })
+    size = 5
+
+    await expect(registry.render()).resolves.toContain('index_records{url="a \\"quoted\\"\\\\path"} 5')
+    expect(() => registry.counter({ name: 'index_records', help: 'Records' })).toThrow('already defined as a gauge')
+  })
+
+  it('renders nothing until a metric is defined', async () => {
+    await expect(new MemoryMetricsRegistry().render()).resolves.toBe('')
+    noopMetrics.counter({ name: 'ignored', help: 'Ignored' }).inc()
+    await expect(noopMetrics.render()).resolves.toBe('')
+  })
+})
@@ -0,0 +1,322 @@
+import { UHRPTopicManager, UHRP_PROTOCOL_ADDRESS } from '../UHRPTopicManager.js'
+import { TestLogSink } from '../Logger.js'
+import { MemoryMetricsRegistry } from '../Metrics.js'
+import { COMMITMENT_FIELDS, COMMITMENT_TERMS_FIELDS, decodeCommitmentTerms, encodeCommitmentTerms } from '../commitmentLayout.js'
+import packageJson from '../../package.json'
+import { Hash, LockingScript, OP, P2PKH, PrivateKey, Script, Transaction, UnlockingScript, Utils } from '@bsv/sdk'
+
+const hostKey = PrivateKey.fromRandom()
+const fileHash = Hash.sha256(Utils.toArray('hello world', 'utf8'))
+
+/**
+ * Builds a PushDrop commitment the same way pushdrop.create lays it out
+ */
+const createCommitmentScript = (fields: number[][], signingKey: PrivateKey = hostKey): LockingScript => {
+  const signature = signingKey.sign(fields.reduce<number[]>((acc, field) => [...acc, ...field], [])).toDER() as number[]
+  const script = new Script()
+    .writeBin(signingKey.toPublicKey().encode(true) as number[])
+    .writeOpCode(OP.OP_CHECKSIG)
+  for (const field of [...fields, signature]) {
+    script.writeBin(field)
+  }
+  for (let undropped = fields.length + 1; undropped > 0; undropped -= 2) {
+    script.writeOpCode(undropped > 1 ? OP.OP_2DROP : OP.OP_DROP)
+  }
+  return new LockingScript(script.chunks)
+}
+
+const commitmentFields = (overrides: Record<number, number[]> = {}): number[][] => {
+  const fields = [
+    Utils.toArray(UHRP_PROTOCOL_ADDRESS, 'utf8'),
+    Utils.toArray(hostKey.toPublicKey().toAddress(), 'utf8'),
+    fileHash,
+    Utils.toArray('advertise', 'utf8'),
+    Utils.toArray('https://example.com/file.txt', 'utf8'),
+    Utils.toArray(String(Math.floor(Date.now() / 1000) + 3600), 'utf8'),
+    Utils.toArray('11', 'utf8')
+  ]
+  for (const [index, value] of Object.entries(overrides)) {
+    fields[Number(index)] = value
+  }
+  return fields
+}
+
+const createTransaction = (lockingScripts: LockingScript[], spends: Transaction[] = []): Transaction => {
+  const tx = new Transaction()
+  for (const sourceTransaction of spends) {
+    tx.addInput({ sourceTransaction, sourceOutputIndex: 0, unlockingScript: new UnlockingScript(), sequence: 0xffffffff })
+  }
+  for (const lockingScript of lockingScripts) {
+    tx.addOutput({ lockingScript, satoshis: 1000 })
+  }
+  return tx
+}
+
+const toBEEF = (lockingScripts: LockingScript[]): number[] => createTransaction(lockingScripts).toBEEF()
+
+describe('UHRPTopicManager', () => {
+  const logs = new TestLogSink()
+  const manager = new UHRPTopicManager(logs)
+
+  beforeEach(() => logs.clear())
+
+  it('admits a valid commitment', async () => {
+    const beef = toBEEF([createCommitmentScript(commitmentFields())])
+    await expect(manager.identifyAdmissibleOutputs(beef, [])).resolves.toEqual({
+      outputsToAdmit: [0],
+      coinsToRetain: []
+    })
+  })
+
+  it('admits only the valid outputs of a mixed transaction', async () => {
+    const beef = toBEEF([
+      new LockingScript([{ op: OP.OP_RETURN }]),
+      createCommitmentScript(commitmentFields()),
+      createCommitmentScript(commitmentFields({ 3: Utils.toArray('delete', 'utf8') })),
+      createCommitmentScript(commitmentFields({ 5: Utils.toArray('1000', 'utf8') })),
+      createCommitmentScript(commitmentFields({ 6: Utils.toArray('0', 'utf8') })),
+      createCommitmentScript(commitmentFields({ 0: Utils.toArray('1NotUHRP', 'utf8') })),
+      createCommitmentScript(commitmentFields({ 4: Utils.toArray('not a url', 'utf8') })),
+      // Signed by a different key than the one locking the token
+      (() => {
+        const script = createCommitmentScript(commitmentFields(), PrivateKey.fromRandom())
+        script.chunks[0] = { op: 33, data: hostKey.toPublicKey().encode(true) as number[] }
+        return script
+      })()
+    ])
+    const { outputsToAdmit } = await manager.identifyAdmissibleOutputs(beef, [])
+    expect(outputsToAdmit).toEqual([1])
+  })
+
+  it('reports why each output is rejected', async () => {
+    const rejections: unknown[] = []
+    const tx = createTransaction([
+      createCommitmentScript([...commitmentFields(), Utils.toArray('extra', 'utf8')]),
+      createCommitmentScript(commitmentFields({ 5: Utils.toArray('1000', 'utf8') })),
+      createCommitmentScript(commitmentFields({ 1: Utils.toArray(PrivateKey.fromRandom().toPublicKey().toAddress(), 'utf8') })),
+      createCommitmentScript(commitmentFields({ 3: Utils.toArray('revoke', 'utf8') })),
+      createCommitmentScript(commitmentFields())
+    ])
+    tx.addOutput({ lockingScript: createCommitmentScript(commitmentFields()), satoshis: 1 })
+    await manager.identifyAdmissibleOutputs(tx.toBEEF(), [], rejection => rejections.push(rejection))
+    await manager.identifyAdmissibleOutputs([1, 2, 3], [], rejection => rejections.push(rejection))
+    expect(rejections).toEqual([
+      { outputIndex: 0, reason: 'malformed-script', message: 'Expected 7 or 11 fields, found 8.' },
+      { outputIndex: 1, reason: 'invalid-expiryTime', message: 'Invalid or expired timestamp.' },
+      { outputIndex: 2, reason: 'host-mismatch', message: expect.stringContaining('does not belong to the locking key') },
+      { outputIndex: 3, reason: 'unmatched-revocation', message: 'A revocation must spend a prior commitment from the same host key.' },
+      { outputIndex: 5, reason: 'insufficient-amount', message: 'Commitment output holds 1 satoshis, below the minimum of 1000.' },
+      { reason: 'malformed-transaction', message: expect.any(String) }
+    ])
+  })
+
+  it('counts admitted and rejected outputs', async () => {
+    const metrics = new MemoryMetricsRegistry()
+    const counted = new UHRPTopicManager(logs, undefined, metrics)
+    const beef = toBEEF([
+      createCommitmentScript(commitmentFields()),
+      createCommitmentScript(commitmentFields({ 6: Utils.toArray('0', 'utf8') })),
+      createCommitmentScript(commitmentFields().slice(0, 6))
+    ])
+    await counted.identifyAdmissibleOutputs(beef, [])
+    await counted.identifyAdmissibleOutputs([1, 2, 3], [])
+
+    expect(metrics.getValue('uhrp_outputs_admitted_total', { operation: 'advertise' })).toBe(1)
+    expect(metrics.getValue('uhrp_outputs_rejected_total', { reason: 'invalid-contentLength' })).toBe(1)
+    expect(metrics.getValue('uhrp_outputs_rejected_total', { reason: 'malformed-script' })).toBe(1)
+    expect(metrics.getValue('uhrp_outputs_rejected_total', { reason: 'malformed-transaction' })).toBe(1)
+  })
+
+  it('does not count change as a rejected output', async () => {
+    const metrics = new MemoryMetricsRegistry()
+    const counted = new UHRPTopicManager(logs, undefined, metrics)
+    const tx = createTransaction([createCommitmentScript(commitmentFields())])
+    tx.addOutput({ lockingScript: new P2PKH().lock(PrivateKey.fromRandom().toPublicKey().toAddress()), satoshis: 4321 })
+    tx.addOutput({ lockingScript: new P2PKH().lock(PrivateKey.fromRandom().toPublicKey().toAddress()), satoshis: 5 })
+    await counted.identifyAdmissibleOutputs(tx.toBEEF(), [])
+
+    expect(metrics.getValue('uhrp_outputs_admitted_total', { operation: 'advertise' })).toBe(1)
+    expect(await metrics.render()).not.toContain('uhrp_outputs_rejected_total{')
+  })
+
+  it('ignores outputs that are not commitments, whatever they hold', async () => {
+    const rejections: unknown[] = []
+    const tx = createTransaction([createCommitmentScript(commitmentFields())])
+    tx.addOutput({ lockingScript: new P2PKH().lock(hostKey.toPublicKey().toAddress()), satoshis: 1 })
+    tx.addOutput({ lockingScript: new LockingScript([{ op: OP.OP_RETURN }]), satoshis: 0 })
+    // A PushDrop token of another protocol
+    tx.addOutput({ lockingScript: createCommitmentScript(commitmentFields({ 0: Utils.toArray('1NotUHRP', 'utf8') })), satoshis: 1 })
+
+    await expect(manager.identifyAdmissibleOutputs(tx.toBEEF(), [], rejection => rejections.push(rejection)))
+      .resolves.toEqual({ outputsToAdmit: [0], coinsToRetain: [] })
+    expect(rejections).toEqual([])
+    expect(logs.at('debug').map(entry => entry.message)).toEqual(['Admitting UHRP commitment'])
+  })
+
+  it('decodes fields longer than 255 bytes', async () => {
+    const longURL = `https://example.com/${'a'.repeat(400)}`
+    const beef = toBEEF([createCommitmentScript(commitmentFields({ 4: Utils.toArray(longURL, 'utf8') }))])
+    const { outputsToAdmit } = await manager.identifyAdmissibleOutputs(beef, [])
+    expect(outputsToAdmit).toEqual([0])
+  })
+
+  describe('host binding', () => {
+    it('admits a host address or identity key that belongs to the locking key', async () => {
+      const hostKeyHex = hostKey.toPublicKey().toString()
+      const beef = toBEEF([
+        createCommitmentScript(commitmentFields({ 1: Utils.toArray(hostKey.toPublicKey().toAddress('testnet'), 'utf8') })),
+        createCommitmentScript(commitmentFields({ 1: Utils.toArray(hostKeyHex, 'utf8') }))
+      ])
+      const { outputsToAdmit } = await manager.identifyAdmissibleOutputs(beef, [])
+      expect(outputsToAdmit).toEqual([0, 1])
+    })
+
+    it('rejects a commitment naming another host', async () => {
+      const otherHost = PrivateKey.fromRandom().toPublicKey()
+      const beef = toBEEF([
+        createCommitmentScript(commitmentFields({ 1: Utils.toArray(otherHost.toAddress(), 'utf8') })),
+        createCommitmentScript(commitmentFields({ 1: Utils.toArray(otherHost.toString(), 'utf8') }))
+      ])
+      const { outputsToAdmit } = await manager.identifyAdmissibleOutputs(beef, [])
+      expect(outputsToAdmit).toEqual([])
+      expect(logs.at('debug').map(entry => (entry.data as { reason: string }).reason)).toEqual([
+        `Host address ${otherHost.toAddress()} does not belong to the locking key.`,
+        `Host address ${otherHost.toString()} does not belong to the locking key.`
+      ])
+    })
+  })
+
+  describe('hosting terms', () => {
+    const withTerms = (terms: string[]): number[][] => [...commitmentFields(), ...terms.map(term => Utils.toArray(term, 'utf8'))]
+
+    it('admits commitments carrying hosting terms, alongside seven-field ones', async () => {
+      const beef = toBEEF([
+        createCommitmentScript(withTerms(['1', '500', '1000000000', 'mailto:host@example.com'])),
+        createCommitmentScript(withTerms(['1', '', '', ''])),
+        createCommitmentScript(commitmentFields())
+      ])
+      const { outputsToAdmit } = await manager.identifyAdmissibleOutputs(beef, [])
+      expect(outputsToAdmit).toEqual([0, 1, 2])
+    })
+
+    it('rejects malformed terms and unknown layouts', async () => {
+      const beef = toBEEF([
+        createCommitmentScript(withTerms(['2', '500', '', ''])),
+        createCommitmentScript(withTerms(['1', '-5', '', ''])),
+        createCommitmentScript(withTerms(['1', '', '0', ''])),
+        createCommitmentScript(withTerms(['1', '', '', 'not a url'])),
+        createCommitmentScript(withTerms(['1', '500'])),
+        createCommitmentScript(withTerms(['1', '500', '', '', 'extra']))
+      ])
+      await manager.identifyAdmissibleOutputs(beef, [])
+      expect(logs.at('debug').map(entry => (entry.data as { reason: string }).reason)).toEqual([
+        'Unsupported hosting terms version: 2',
+        'Invalid price per GB.',
+        'Invalid bandwidth limit.',
+        'Invalid contact URL.',
+        'Expected 7 or 11 fields, found 9.',
+        'Expected 7 or 11 fields, found 12.'
+      ])
+    })
+
+    it('encodes and decodes the terms it validates', () => {
+      const encoded = encodeCommitmentTerms({ pricePerGB: 0, contactURL: 'https://host.example.com/contact' })
+      expect(encoded).toEqual(['1', '0', '', 'https://host.example.com/contact'])
+      expect(decodeCommitmentTerms(withTerms(encoded))).toEqual({ pricePerGB: 0, contactURL: 'https://host.example.com/contact' })
+      expect(decodeCommitmentTerms(commitmentFields())).toBeUndefined()
+      expect(() => encodeCommitmentTerms({ bandwidthLimit: 1.5 })).toThrow('Invalid bandwidth limit.')
+    })
+  })
+
+  describe('revocation and renewal', () => {
+    const revokeFields = commitmentFields({
+      3: Utils.toArray('revoke', 'utf8'),
+      5: Utils.toArray(String(Math.floor(Date.now() / 1000)), 'utf8')
+    })
+    const original = createTransaction([createCommitmentScript(commitmentFields())])
+
+    it('admits a revocation that spends the prior token from the same host key, retaining it', async () => {
+      const beef = createTransaction([createCommitmentScript(revokeFields)], [original]).toBEEF()
+      await expect(manager.identifyAdmissibleOutputs(beef, [0])).resolves.toEqual({
+        outputsToAdmit: [0],
+        coinsToRetain: [0]
+      })
+    })
+
+    it('rejects a revocation that spends no prior token', async () => {
+      const beef = toBEEF([createCommitmentScript(revokeFields)])
+      await expect(manager.identifyAdmissibleOutputs(beef, [])).resolves.toEqual({
+        outputsToAdmit: [],
+        coinsToRetain: []
+      })
+    })
+
+    it('rejects a revocation of another host\'s token', async () => {
+      const otherKey = PrivateKey.fromRandom()
+      const beef = createTransaction([createCommitmentScript(revokeFields, otherKey)], [original]).toBEEF()
+      await expect(manager.identifyAdmissibleOutputs(beef, [0])).resolves.toEqual({
+        outputsToAdmit: [],
+        coinsToRetain: []
+      })
+    })
+
+    it('admits a renewal and retains the token it replaces', async () => {
+      const renewed = commitmentFields({ 5: Utils.toArray(String(Math.floor(Date.now() / 1000) + 7200), 'utf8') })
+      const beef = createTransaction([createCommitmentScript(renewed)], [original]).toBEEF()
+      await expect(manager.identifyAdmissibleOutputs(beef, [0])).resolves.toEqual({
+        outputsToAdmit: [0],
+        coinsToRetain: [0]
+      })
+    })
+  })
+
+  it('logs why outputs are rejected', async () => {
+    const beef = toBEEF([createCommitmentScript(commitmentFields({ 6: Utils.toArray('0', 'utf8') }))])
+    await manager.identifyAdmissibleOutputs(beef, [])
+    expect(logs.at('debug')).toEqual([{
+      level: 'debug',
+      message: 'Rejecting UHRP output',
+      data: { outputIndex: 0, reason: 'Invalid file size.' }
+    }])
+  })
+
+  it('rejects commitment outputs holding less than the minimum amount', async () => {
+    const tx = new Transaction()
+    tx.addOutput({ lockingScript: createCommitmentScript(commitmentFields()), satoshis: 999 })
+    tx.addOutput({ lockingScript: createCommitmentScript(commitmentFields()), satoshis: 1 })
+    await expect(manager.identifyAdmissibleOutputs(tx.toBEEF(), [])).resolves.toEqual({ outputsToAdmit: [], coinsToRetain: [] })
+    expect((logs.at('debug')[0].data as { reason: string }).reason)
+      .toBe('Commitment output holds 999 satoshis, below the minimum of 1000.')
+
+    const lenient = new UHRPTopicManager(logs, 1)
+    await expect(lenient.identifyAdmissibleOutputs(tx.toBEEF(), [])).resolves.toEqual({ outputsToAdmit: [0, 1], coinsToRetain: [] })
+    await expect(lenient.getDocumentation()).resolves.toContain('must hold at least 1 satoshis')
+  })
+
+  it('admits nothing from unparseable BEEF', async () => {
+    await expect(manager.identifyAdmissibleOutputs([1, 2, 3], [])).resolves.toEqual({
+      outputsToAdmit: [],
+      coinsToRetain: []
+    })
+    expect(logs.at('error').map(entry => entry.message)).toEqual(['Failed to parse UHRP transaction'])
+  })
+
+  it('describes itself with the package version', async () => {
+    await expect(manager.getMetaData()).resolves.toEqual({
+      name: 'UHRP Topic Manager',
+      shortDescription: expect.any(String),
+      version: packageJson.version,
+      informationURL: packageJson.homepage
+    })
+  })
+
+  it('documents every field it validates, in order', async () => {
+    const documentation = await manager.getDocumentation()
+    const fields = [...COMMITMENT_FIELDS, ...COMMITMENT_TERMS_FIELDS]
+    fields.forEach((field, i) => {
+      expect(documentation).toContain(`| ${i} | \`${field.name}\` | ${field.encoding} | ${field.description} | ${field.rule} |`)
+    })
+    expect(documentation).toContain('| `signature` | DER |')
+    expect(documentation).toContain(UHRP_PROTOCOL_ADDRESS)
+  })
+})
@@ -0,0 +1,84 @@
+import { decodePushDrop, PushDropDecodeError } from '../decodePushDrop.js'
+import { OP, PrivateKey, Script, Utils } from '@bsv/sdk'
+
+const key = PrivateKey.fromRandom()
+const publicKey = key.toPublicKey().encode(true) as number[]
+
+const pushDrop = (pushes: number[][], drops: number[]): Script => {
+  const script = new Script().writeBin(publicKey).writeOpCode(OP.OP_CHECKSIG)
+  for (const push of pushes) script.writeBin(push)
+  for (const drop of drops) script.writeOpCode(drop)
+  return script
+}
+
+const expectDecodeError = (script: number[] | string, code: string): void => {
+  let error: unknown
+  try {
+    decodePushDrop(script)
+  } catch (e) {
+    error = e
+  }
+  expect(error).toBeInstanceOf(PushDropDecodeError)
+  expect((error as PushDropDecodeError).code).toBe(code)
+}
+
+describe('decodePushDrop', () => {
+  it('returns the locking key, fields and signature', () => {
+    const fields = [Utils.toArray('a', 'utf8'), new Array(300).fill(7), Utils.toArray('c', 'utf8')]
+    const signature = key.sign(fields.flat()).toDER() as number[]
+    const script = pushDrop([...fields, signature], [OP.OP_2DROP, OP.OP_2DROP])
+
+    const decoded = decodePushDrop(script.toHex())
+    expect(decoded.lockingPublicKey).toBe(key.toPublicKey().toString())
+    expect(decoded.fields).toEqual(fields)
+    expect(decoded.signature).toEqual(signature)
+    expect(decodePushDrop(script.toBinary())).toEqual(decoded)
+  })
+
+  it('decodes small-number pushes as single bytes', () => {
+    const script = new Script()
+      .writeBin(publicKey)
+      .writeOpCode(OP.OP_CHECKSIG)
+      .writeOpCode(OP.OP_0)
+      .writeOpCode(OP.OP_5)
+      .writeBin([1, 2, 3])
+      .writeOpCode(OP.OP_2DROP)
+      .writeOpCode(OP.OP_DROP)
+    expect(decodePushDrop(script.toBinary()).fields).toEqual([[], [5]])
+  })
+
+  it('rejects scripts that do not start with a public key', () => {
+    expectDecodeError(new Script().writeBin([1, 2, 3]).writeOpCode(OP.OP_CHECKSIG).toBinary(), 'ERR_INVALID_LOCKING_KEY')
+    expectDecodeError(new Script().writeOpCode(OP.OP_FALSE).writeOpCode(OP.OP_RETURN).toBinary(), 'ERR_INVALID_LOCKING_KEY')
+  })
+
+  it('rejects a public key that is not followed by OP_CHECKSIG', () => {
+    expectDecodeError(new Script().writeBin(publicKey).writeOpCode(OP.OP_DROP).toBinary(), 'ERR_MISSING_CHECKSIG')
+  })
+
+  it('rejects non-push opcodes among the fields', () => {
+    const script = pushDrop([[1]], [])
+      .writeOpCode(OP.OP_DUP)
+      .writeBin([2])
+      .writeOpCode(OP.OP_2DROP)
+    expectDecodeError(script.toBinary(), 'ERR_UNEXPECTED_OPCODE')
+  })
+
+  it('rejects opcodes other than drops after the fields', () => {
+    const script = pushDrop([[1], [2]], [OP.OP_2DROP]).writeOpCode(OP.OP_VERIFY)
+    expectDecodeError(script.toBinary(), 'ERR_UNEXPECTED_OPCODE')
+  })
+
+  it('rejects a token without a signature', () => {
+    expectDecodeError(pushDrop([[1]], [OP.OP_DROP]).toBinary(), 'ERR_MISSING_SIGNATURE')
+  })
+
+  it('rejects a token that does not drop everything it pushes', () => {
+    expectDecodeError(pushDrop([[1], [2], [3]], [OP.OP_2DROP]).toBinary(), 'ERR_DROP_MISMATCH')
+  })
+
+  it('rejects truncated scripts', () => {
+    expectDecodeError('21', 'ERR_INVALID_SCRIPT')
+    expectDecodeError('4c05aabb', 'ERR_INVALID_SCRIPT')
+  })
+})
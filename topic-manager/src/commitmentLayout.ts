@@ -0,0 +1,276 @@
+import { PublicKey, Utils } from '@bsv/sdk'
+
+/**
+ * The Bitcoin address that identifies the UHRP protocol, pushed as the first field of every commitment
+ */
+export const UHRP_PROTOCOL_ADDRESS = '1UHRPYnMHPuQ5Tgb3AF8JXqwKkmZVy5hG'
+
+/**
+ * The operations a commitment token can carry in its fourth field.
+ * `advertise` announces (or renews) hosting, `revoke` ends a commitment early and must spend the token it revokes.
+ */
+export const COMMITMENT_OPERATIONS = ['advertise', 'revoke']
+
+/**
+ * The fewest satoshis a commitment output may hold unless the topic manager is configured otherwise,
+ * so that hosts cannot flood the overlay with dust commitments
+ */
+export const DEFAULT_MINIMUM_OUTPUT_AMOUNT = 1000
+
+/**
+ * One data field of a UHRP commitment, as laid out in its PushDrop locking script
+ */
+export interface CommitmentField {
+  /** Name of the field, as used in documentation and error messages */
+  name: string
+  /** How the value is encoded in its push */
+  encoding: 'UTF-8' | 'bytes'
+  /** What the field records */
+  description: string
+  /** The rule the field must follow for the commitment to be admitted */
+  rule: string
+  /**
+   * Enforces the rule
+   * @param value - The field's bytes
+   * @param fields - All data fields of the commitment, for rules that depend on other fields
+   * @param now - The current time as a UNIX timestamp in seconds
+   * @throws If the field breaks the rule
+   */
+  check: (value: number[], fields: number[][], now: number) => void
+}
+
+/**
+ * Thrown when a commitment's host address field does not identify the key locking it
+ */
+export class HostBindingError extends Error {
+  constructor (public host: string) {
+    super(`Host address ${host} does not belong to the locking key.`)
+    this.name = 'HostBindingError'
+    // Keeps instanceof working when compiled for ES5, as the UI is
+    Object.setPrototypeOf(this, HostBindingError.prototype)
+  }
+}
+
+/**
+ * Checks that a commitment's host address field identifies the key that locks and signs it,
+ * so that no one can advertise on behalf of another host
+ * @param hostField - The bytes of the `hostAddress` field
+ * @param lockingPublicKey - The public key locking the commitment, from whichever version of the SDK the caller uses
+ * @throws {HostBindingError} If the field is neither an address of the key nor the key itself
+ */
+export function checkHostBinding (hostField: number[], lockingPublicKey: Pick<PublicKey, 'toAddress' | 'toString'>): void {
+  const host = Utils.toUTF8(hostField)
+  const identifiers = [lockingPublicKey.toAddress(), lockingPublicKey.toAddress('testnet'), lockingPublicKey.toString()]
+  if (!identifiers.includes(host)) {
+    throw new HostBindingError(host)
+  }
+}
+
+/**
+ * The data fields of a UHRP commitment, in the order they are pushed after the locking key and `OP_CHECKSIG`.
+ * The topic manager validates commitments, and documents them, from this list.
+ */
+export const COMMITMENT_FIELDS: CommitmentField[] = [
+  {
+    name: 'protocolAddress',
+    encoding: 'UTF-8',
+    description: 'Identifies the output as a UHRP commitment',
+    rule: `Must be \`${UHRP_PROTOCOL_ADDRESS}\``,
+    check: value => {
+      if (Utils.toUTF8(value) !== UHRP_PROTOCOL_ADDRESS) {
+        throw new Error('Invalid UHRP protocol address.')
+      }
+    }
+  },
+  {
+    name: 'hostAddress',
+    encoding: 'UTF-8',
+    description: 'Identifies the host making the commitment',
+    rule: 'Must be the P2PKH address (mainnet or testnet) or the hex public key of the locking key',
+    // Needs the locking key, so it is enforced by checkHostBinding
+    check: () => {}
+  },
+  {
+    name: 'hash',
+    encoding: 'bytes',
+    description: 'SHA-256 hash of the hosted content',
+    rule: 'Must be 32 bytes',
+    check: value => {
+      if (value.length !== 32) {
+        throw new Error('Invalid SHA256 hash.')
+      }
+    }
+  },
+  {
+    name: 'operation',
+    encoding: 'UTF-8',
+    description: 'What the commitment does',
+    rule: `Must be one of ${COMMITMENT_OPERATIONS.map(operation => `\`${operation}\``).join(', ')}`,
+    check: value => {
+      const operation = Utils.toUTF8(value)
+      if (!COMMITMENT_OPERATIONS.includes(operation)) {
+        throw new Error(`Invalid commitment operation: ${operation}`)
+      }
+    }
+  },
+  {
+    name: 'url',
+    encoding: 'UTF-8',
+    description: 'URL the host serves the content from',
+    rule: 'Must be an absolute URL',
+    check: value => {
+      try {
+        // eslint-disable-next-line no-new
+        new URL(Utils.toUTF8(value))
+      } catch (e) {
+        throw new Error('Invalid URL.')
+      }
+    }
+  },
+  {
+    name: 'expiryTime',
+    encoding: 'UTF-8',
+    description: 'UNIX timestamp in seconds until which the content is hosted, or at which a revoked commitment ended',
+    rule: 'Must be a decimal integer, in the future unless the operation is `revoke`',
+    check: (value, fields, now) => {
+      const expiryTime = parseInt(Utils.toUTF8(value), 10)
+      if (isNaN(expiryTime) || (Utils.toUTF8(fields[3]) !== 'revoke' && expiryTime <= now)) {
+        throw new Error('Invalid or expired timestamp.')
+      }
+    }
+  },
+  {
+    name: 'contentLength',
+    encoding: 'UTF-8',
+    description: 'Size of the content in bytes',
+    rule: 'Must be a decimal integer greater than 0',
+    check: value => {
+      const fileSize = parseInt(Utils.toUTF8(value), 10)
+      if (isNaN(fileSize) || fileSize <= 0) {
+        throw new Error('Invalid file size.')
+      }
+    }
+  }
+]
+
+/**
+ * Hosting terms a host may offer downloaders, carried after the base fields of a commitment
+ */
+export interface CommitmentTerms {
+  /** Price charged to downloaders, in satoshis per gigabyte */
+  pricePerGB?: number
+  /** Most bytes the host serves per day */
+  bandwidthLimit?: number
+  /** Where downloaders can reach the host */
+  contactURL?: string
+}
+
+/**
+ * The version of the hosting terms layout, pushed as the first field after the base fields.
+ * Later versions may append further fields; a commitment's field count must match its version's layout.
+ */
+export const COMMITMENT_TERMS_VERSION = '1'
+
+/**
+ * Checks that a field is empty, meaning the term is not offered, or holds a decimal integer of at least `min`
+ */
+const checkOptionalInteger = (min: number, message: string) => (value: number[]): void => {
+  const text = Utils.toUTF8(value)
+  if (text !== '' && (!/^\d+$/.test(text) || parseInt(text, 10) < min)) {
+    throw new Error(message)
+  }
+}
+
+/**
+ * The optional hosting terms fields, which follow the base fields in the same order as {@link CommitmentTerms}
+ */
+export const COMMITMENT_TERMS_FIELDS: CommitmentField[] = [
+  {
+    name: 'termsVersion',
+    encoding: 'UTF-8',
+    description: 'Version of the hosting terms layout',
+    rule: `Must be \`${COMMITMENT_TERMS_VERSION}\``,
+    check: value => {
+      if (Utils.toUTF8(value) !== COMMITMENT_TERMS_VERSION) {
+        throw new Error(`Unsupported hosting terms version: ${Utils.toUTF8(value)}`)
+      }
+    }
+  },
+  {
+    name: 'pricePerGB',
+    encoding: 'UTF-8',
+    description: 'Price charged to downloaders, in satoshis per gigabyte',
+    rule: 'Must be empty, or a decimal integer',
+    check: checkOptionalInteger(0, 'Invalid price per GB.')
+  },
+  {
+    name: 'bandwidthLimit',
+    encoding: 'UTF-8',
+    description: 'Most bytes the host serves per day',
+    rule: 'Must be empty, or a decimal integer greater than 0',
+    check: checkOptionalInteger(1, 'Invalid bandwidth limit.')
+  },
+  {
+    name: 'contactURL',
+    encoding: 'UTF-8',
+    description: 'Where downloaders can reach the host',
+    rule: 'Must be empty, or an absolute URL',
+    check: value => {
+      const text = Utils.toUTF8(value)
+      try {
+        // eslint-disable-next-line no-new
+        if (text !== '') new URL(text)
+      } catch (e) {
+        throw new Error('Invalid contact URL.')
+      }
+    }
+  }
+]
+
+/**
+ * Finds the layout a commitment follows from its number of data fields
+ * @param fieldCount - The number of data fields, not counting the signature
+ * @returns The base fields, followed by the hosting terms fields when the commitment carries them
+ * @throws If no layout has that many fields
+ */
+export function getCommitmentLayout (fieldCount: number): CommitmentField[] {
+  const layouts = [COMMITMENT_FIELDS, [...COMMITMENT_FIELDS, ...COMMITMENT_TERMS_FIELDS]]
+  const layout = layouts.find(fields => fields.length === fieldCount)
+  if (layout === undefined) {
+    throw new Error(`Expected ${layouts.map(fields => fields.length).join(' or ')} fields, found ${fieldCount}.`)
+  }
+  return layout
+}
+
+/**
+ * Encodes hosting terms as the fields that follow the base fields of a commitment
+ * @param terms - The terms offered, any of which may be left out
+ * @returns The field values, starting with the terms version
+ * @throws If a term would not pass validation
+ */
+export function encodeCommitmentTerms (terms: CommitmentTerms): string[] {
+  const values = [
+    COMMITMENT_TERMS_VERSION,
+    terms.pricePerGB?.toString() ?? '',
+    terms.bandwidthLimit?.toString() ?? '',
+    terms.contactURL ?? ''
+  ]
+  const encoded = values.map(value => Utils.toArray(value, 'utf8'))
+  COMMITMENT_TERMS_FIELDS.forEach((field, i) => field.check(encoded[i], encoded, 0))
+  return values
+}
+
+/**
+ * Reads the hosting terms of a validated commitment
+ * @param fields - All data fields of the commitment
+ * @returns The terms offered, or undefined if the commitment does not carry hosting terms
+ */
+export function decodeCommitmentTerms (fields: number[][]): CommitmentTerms | undefined {
+  if (fields.length <= COMMITMENT_FIELDS.length) return undefined
+  const [, pricePerGB, bandwidthLimit, contactURL] = fields.slice(COMMITMENT_FIELDS.length).map(field => Utils.toUTF8(field))
+  const terms: CommitmentTerms = {}
+  if (pricePerGB !== '') terms.pricePerGB = parseInt(pricePerGB, 10)
+  if (bandwidthLimit !== '') terms.bandwidthLimit = parseInt(bandwidthLimit, 10)
+  if (contactURL !== '') terms.contactURL = contactURL
+  return terms
+}
@@ -0,0 +1,114 @@
+import { OP, Script, Utils } from '@bsv/sdk'
+
+/**
+ * Identifies the structural problem that prevented a script from being decoded as a PushDrop token
+ */
+export type PushDropDecodeErrorCode =
+  | 'ERR_INVALID_SCRIPT'
+  | 'ERR_INVALID_LOCKING_KEY'
+  | 'ERR_MISSING_CHECKSIG'
+  | 'ERR_UNEXPECTED_OPCODE'
+  | 'ERR_MISSING_SIGNATURE'
+  | 'ERR_DROP_MISMATCH'
+
+/**
+ * Thrown when a script does not have the layout of a PushDrop token
+ */
+export class PushDropDecodeError extends Error {
+  constructor (public code: PushDropDecodeErrorCode, message: string) {
+    super(message)
+    this.name = 'PushDropDecodeError'
+    // Keeps instanceof working when compiled for ES5, as the UI is
+    Object.setPrototypeOf(this, PushDropDecodeError.prototype)
+  }
+}
+
+/**
+ * The parts of a decoded PushDrop token
+ */
+export interface DecodedPushDrop {
+  /** Hex-encoded DER public key that locks the token */
+  lockingPublicKey: string
+  /** The data fields, in the order they were pushed */
+  fields: number[][]
+  /** DER-encoded signature over the concatenated fields */
+  signature: number[]
+}
+
+/**
+ * Decodes a PushDrop locking script, as created by `pushdrop.create`, of the form
+ * `<lockingPublicKey> OP_CHECKSIG <field>... <signature> OP_2DROP... [OP_DROP]`.
+ * Fields may use any push opcode, including OP_PUSHDATA1/2/4 and the OP_0..OP_16 small-number pushes that minimal encoding produces.
+ * @param script - The locking script, as bytes or a hex string
+ * @returns The locking public key, the fields and the signature
+ * @throws {PushDropDecodeError} If the script is not a well-formed PushDrop token
+ */
+export function decodePushDrop (script: number[] | string): DecodedPushDrop {
+  const hex = typeof script === 'string' ? script.toLowerCase() : Utils.toHex(script)
+  let chunks: Script['chunks']
+  try {
+    const parsed = Script.fromHex(hex)
+    chunks = parsed.chunks
+    // The parser tolerates pushes that run past the end of the script, which do not survive re-serialization
+    if (parsed.toHex() !== hex || chunks.some(({ op, data }) => op < OP.OP_PUSHDATA1 && op > 0 && data?.length !== op)) {
+      throw new Error('Truncated push.')
+    }
+  } catch (e) {
+    throw new PushDropDecodeError('ERR_INVALID_SCRIPT', 'The script could not be parsed.')
+  }
+
+  const keyData = chunks[0]?.data
+  if (keyData === undefined || !isPublicKey(keyData)) {
+    throw new PushDropDecodeError('ERR_INVALID_LOCKING_KEY', 'The script does not start with a public key.')
+  }
+  if (chunks[1]?.op !== OP.OP_CHECKSIG) {
+    throw new PushDropDecodeError('ERR_MISSING_CHECKSIG', 'The locking public key is not followed by OP_CHECKSIG.')
+  }
+
+  const pushes: number[][] = []
+  let i = 2
+  for (; i < chunks.length; i++) {
+    const { op, data } = chunks[i]
+    if (op === OP.OP_DROP || op === OP.OP_2DROP) break
+    if (data !== undefined) {
+      pushes.push(data)
+    } else if (op === OP.OP_0) {
+      pushes.push([])
+    } else if (op >= OP.OP_1 && op <= OP.OP_16) {
+      pushes.push([op - OP.OP_1 + 1])
+    } else if (op === OP.OP_1NEGATE) {
+      pushes.push([0x81])
+    } else {
+      throw new PushDropDecodeError('ERR_UNEXPECTED_OPCODE', `Unexpected opcode ${op} among the pushed fields.`)
+    }
+  }
+  if (pushes.length < 2) {
+    throw new PushDropDecodeError('ERR_MISSING_SIGNATURE', 'The script must push at least one field followed by a signature.')
+  }
+
+  let dropped = 0
+  for (; i < chunks.length; i++) {
+    const { op } = chunks[i]
+    if (op === OP.OP_DROP) {
+      dropped += 1
+    } else if (op === OP.OP_2DROP) {
+      dropped += 2
+    } else {
+      throw new PushDropDecodeError('ERR_UNEXPECTED_OPCODE', `Unexpected opcode ${op} after the pushed fields.`)
+    }
+  }
+  if (dropped !== pushes.length) {
+    throw new PushDropDecodeError('ERR_DROP_MISMATCH', `The script pushes ${pushes.length} items but drops ${dropped}.`)
+  }
+
+  return {
+    lockingPublicKey: Utils.toHex(keyData),
+    fields: pushes.slice(0, -1),
+    signature: pushes[pushes.length - 1]
+  }
+}
+
+function isPublicKey (data: number[]): boolean {
+  return (data.length === 33 && (data[0] === 0x02 || data[0] === 0x03)) ||
+    (data.length === 65 && data[0] === 0x04)
+}
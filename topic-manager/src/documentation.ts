@@ -0,0 +1,96 @@
+import packageJson from '../package.json' with { type: 'json' }
+import { COMMITMENT_FIELDS, COMMITMENT_OPERATIONS, COMMITMENT_TERMS_FIELDS, CommitmentField, DEFAULT_MINIMUM_OUTPUT_AMOUNT } from './commitmentLayout.js'
+
+/**
+ * Describes a topic manager or lookup service to overlay discovery endpoints
+ */
+export interface OverlayMetaData {
+  name: string
+  shortDescription: string
+  iconURL?: string
+  version?: string
+  informationURL?: string
+}
+
+export const TOPIC_MANAGER_METADATA: OverlayMetaData = {
+  name: 'UHRP Topic Manager',
+  shortDescription: 'Admits signed UHRP commitments from hosts that serve content identified by its SHA-256 hash.',
+  version: packageJson.version,
+  informationURL: packageJson.homepage
+}
+
+/**
+ * Renders a markdown table
+ * @param headers - The column headings
+ * @param rows - The cells of each row, in column order
+ * @returns The table, one line per row
+ */
+export function markdownTable (headers: string[], rows: string[][]): string {
+  return [headers, headers.map(() => '---'), ...rows]
+    .map(cells => `| ${cells.join(' | ')} |`)
+    .join('\n')
+}
+
+/**
+ * Renders commitment fields as rows of the layout table
+ * @param fields - The fields, in order
+ * @param offset - The position of the first field among all data fields
+ */
+const fieldRows = (fields: CommitmentField[], offset: number): string[][] =>
+  fields.map((field, i) => [String(offset + i), `\`${field.name}\``, field.encoding, field.description, field.rule])
+
+/**
+ * Describes the PushDrop layout of a commitment output, from the field lists the topic manager validates against
+ * @returns A markdown section
+ */
+export function describeCommitmentLayout (): string {
+  const extendedCount = COMMITMENT_FIELDS.length + COMMITMENT_TERMS_FIELDS.length
+  const headers = ['#', 'Field', 'Encoding', 'Description', 'Rule']
+  return `## Commitment output
+
+A commitment is a PushDrop output. Its locking script pushes the host's public key followed by \`OP_CHECKSIG\`, then the data fields below and a signature over them, which are all dropped with \`OP_DROP\` and \`OP_2DROP\`.
+
+A commitment has either the ${COMMITMENT_FIELDS.length} base fields, or ${extendedCount} fields when hosting terms follow them. The signature comes after the last data field.
+
+### Base fields
+
+${markdownTable(headers, fieldRows(COMMITMENT_FIELDS, 0))}
+
+### Hosting terms
+
+Optional. Each term may be pushed empty when the host does not offer it.
+
+${markdownTable(headers, fieldRows(COMMITMENT_TERMS_FIELDS, COMMITMENT_FIELDS.length))}
+
+### Signature
+
+${markdownTable(
+  ['Field', 'Encoding', 'Description', 'Rule'],
+  [['`signature`', 'DER', 'Signature over the data fields, concatenated in order', 'Must verify against the locking public key']]
+)}
+`
+}
+
+/**
+ * Generates the documentation served for the `tm_uhrp` topic
+ * @param minimumOutputAmount - The fewest satoshis the topic manager admits in a commitment output
+ * @returns A markdown document
+ */
+export function getTopicManagerDocumentation (minimumOutputAmount: number = DEFAULT_MINIMUM_OUTPUT_AMOUNT): string {
+  return `# ${TOPIC_MANAGER_METADATA.name} (\`tm_uhrp\`)
+
+${TOPIC_MANAGER_METADATA.shortDescription}
+
+${describeCommitmentLayout()}
+## Admittance rules
+
+- Each output of a submitted transaction is judged on its own, and only outputs that follow every rule are admitted.
+- Outputs that are not PushDrop tokens pushing the UHRP protocol address first, such as change, are not commitments and are ignored.
+- A commitment output must hold at least ${minimumOutputAmount} satoshis.
+- A commitment must have exactly ${COMMITMENT_FIELDS.length} or ${COMMITMENT_FIELDS.length + COMMITMENT_TERMS_FIELDS.length} data fields, each following the rule in its row above.
+- The host address must identify the public key that locks the commitment, which must also have signed it, so no one can advertise on behalf of another host.
+- The operation is one of ${COMMITMENT_OPERATIONS.map(operation => `\`${operation}\``).join(', ')}. \`advertise\` announces hosting, or renews it when it spends an earlier commitment. \`revoke\` ends hosting early.
+- A \`revoke\` commitment must spend a previously admitted commitment with the same locking public key and hash.
+- Admitted commitments that are spent by a renewal or revocation with the same locking public key and hash are retained as its history.
+`
+}
@@ -0,0 +1,7 @@
+export { UHRPTopicManager } from './UHRPTopicManager.js'
+export type { UHRPRejectionReason, UHRPOutputRejection } from './UHRPTopicManager.js'
+export * from './commitmentLayout.js'
+export * from './documentation.js'
+export * from './decodePushDrop.js'
+export * from './Logger.js'
+export * from './Metrics.js'